@@ -12,6 +12,7 @@ import CareAidPublicPage from "@/pages/care-aid-public-page";
 import CareAidEmbedPage from "@/pages/care-aid-embed-page";
 import ChatLogsPage from "@/pages/chat-logs-page";
 import KnowledgeBasePage from "@/pages/knowledge-base-page";
+import ContentReviewPage from "@/pages/content-review-page";
 import SettingsPage from "@/pages/settings-page";
 import { Suspense, lazy, ReactNode } from "react";
 import { Loader } from "@/components/ui/loader";
@@ -103,6 +104,11 @@ function Router() {
         component={KnowledgeBasePage} 
         roles={["admin"]}
       />
+      <RoleProtectedRoute 
+        path="/content-review" 
+        component={ContentReviewPage} 
+        roles={["admin"]}
+      />
       <RoleProtectedRoute 
         path="/analytics" 
         component={() => (
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BehaviorRule, Chatbot, KnowledgeGap, behaviorRuleSchema } from "@shared/schema";
+import { FileQuestion, ListPlus, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import DocumentUploadModal from "@/components/modals/document-upload-modal";
+
+interface KnowledgeGapsProps {
+  chatbots: Chatbot[];
+  timeframe: string;
+}
+
+/**
+ * Patient questions the Care Aids couldn't answer, clustered and ranked by how often
+ * they were asked, with shortcuts to fill each gap with a document or a behavior rule
+ */
+export default function KnowledgeGaps({ chatbots, timeframe }: KnowledgeGapsProps) {
+  const { toast } = useToast();
+  const [selectedChatbotId, setSelectedChatbotId] = useState("all");
+  const [uploadChatbotId, setUploadChatbotId] = useState<number | null>(null);
+  const [ruleGap, setRuleGap] = useState<KnowledgeGap | null>(null);
+  const [condition, setCondition] = useState("");
+  const [response, setResponse] = useState("");
+
+  const gapsKey = `/api/analytics/knowledge-gaps?chatbotId=${selectedChatbotId}&timeframe=${timeframe}`;
+  const { data: gaps, isLoading } = useQuery<KnowledgeGap[]>({
+    queryKey: [gapsKey],
+  });
+
+  const addRuleMutation = useMutation({
+    mutationFn: async ({ chatbotId, rule }: { chatbotId: number; rule: BehaviorRule }) => {
+      const chatbot = chatbots.find(c => c.id === chatbotId);
+      const behaviorRules = [...((chatbot?.behaviorRules as BehaviorRule[] | null) ?? []), rule];
+      await apiRequest("PUT", `/api/chatbots/${chatbotId}`, { behaviorRules });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chatbots"] });
+      setRuleGap(null);
+      toast({
+        title: "Behavior rule added",
+        description: "Messages matching the condition now get your response.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRuleDialog = (gap: KnowledgeGap) => {
+    setCondition(gap.question);
+    setResponse("");
+    setRuleGap(gap);
+  };
+
+  const reasons = (gap: KnowledgeGap) => [
+    gap.fallbackCount > 0 && `${gap.fallbackCount} fallback`,
+    gap.noResultsCount > 0 && `${gap.noResultsCount} no search results`,
+    gap.refusalCount > 0 && `${gap.refusalCount} couldn't answer`,
+  ].filter((reason): reason is string => !!reason);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
+        <div>
+          <CardTitle>Knowledge Gaps</CardTitle>
+          <CardDescription>
+            Questions answered with the fallback response, without knowledge base results or with a refusal
+          </CardDescription>
+        </div>
+        <Select value={selectedChatbotId} onValueChange={setSelectedChatbotId}>
+          <SelectTrigger className="w-[200px] mt-4 sm:mt-0">
+            <SelectValue placeholder="Select Care Aid" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Care Aids</SelectItem>
+            {chatbots.map((chatbot) => (
+              <SelectItem key={chatbot.id} value={chatbot.id.toString()}>
+                {chatbot.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader withText text="Finding knowledge gaps..." />
+          </div>
+        ) : !gaps || gaps.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <FileQuestion className="h-10 w-10 text-neutral-400 mb-3" />
+            <p className="text-lg font-medium">No knowledge gaps found</p>
+            <p className="text-sm text-neutral-500">Every question in this period was answered from the knowledge base.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {gaps.map((gap) => (
+              <div key={`${gap.chatbotId}-${gap.question}`} className="border rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge>{gap.count}×</Badge>
+                      <span className="font-medium break-words">{gap.question}</span>
+                    </div>
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {gap.chatbotName} · {reasons(gap).join(" · ")} · last asked {new Date(gap.lastAskedAt).toLocaleString()}
+                    </p>
+                    {gap.examples.length > 1 && (
+                      <ul className="mt-2 space-y-0.5">
+                        {gap.examples.filter(example => example !== gap.question).map(example => (
+                          <li key={example} className="text-sm text-neutral-500 break-words">“{example}”</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setUploadChatbotId(gap.chatbotId)}>
+                      <Upload className="mr-1 h-4 w-4" />
+                      Upload document
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openRuleDialog(gap)}>
+                      <ListPlus className="mr-1 h-4 w-4" />
+                      Add rule
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {uploadChatbotId !== null && (
+        <DocumentUploadModal
+          isOpen
+          onClose={() => setUploadChatbotId(null)}
+          chatbotId={uploadChatbotId}
+        />
+      )}
+
+      <Dialog open={!!ruleGap} onOpenChange={(open) => !open && setRuleGap(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add behavior rule</DialogTitle>
+            <DialogDescription>
+              {ruleGap?.chatbotName} will answer messages containing the condition with this response.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="gap-rule-condition">Condition</Label>
+              <Input id="gap-rule-condition" value={condition} onChange={(e) => setCondition(e.target.value)} />
+              <p className="text-xs text-neutral-500">Shorten it to the key words patients use.</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="gap-rule-response">Response</Label>
+              <Textarea id="gap-rule-response" value={response} onChange={(e) => setResponse(e.target.value)} rows={4} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleGap(null)}>Cancel</Button>
+            <Button
+              onClick={() => ruleGap && addRuleMutation.mutate({
+                chatbotId: ruleGap.chatbotId,
+                rule: behaviorRuleSchema.parse({ matchType: "keywords_any", condition: condition.trim(), response: response.trim() }),
+              })}
+              disabled={!condition.trim() || !response.trim() || addRuleMutation.isPending}
+            >
+              {addRuleMutation.isPending && <Loader size="sm" className="mr-2" />}
+              Add rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,20 +1,31 @@
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { Citation, MessagePayload } from "@shared/schema";
+import MessageCitations from "./message-citations";
+import MessagePayloadView from "./message-payload";
 
 /** Basic message shape coming from the server */
 type ChatMessage = {
   role: "user" | "assistant";
   content: string;
+  citations?: Citation[] | null;
+  payload?: MessagePayload | null;
 };
 
-type Props = { message: ChatMessage };
+type Props = {
+  message: ChatMessage;
+  // Sends a tapped quick reply as the next user message
+  onQuickReply?: (reply: string) => void;
+};
 
 /**
  * Chat bubble component
  * – Assistant messages use light-gray, user messages use light-green
  * – Markdown is rendered via react-markdown + remark-gfm
+ * – Cited sources are listed as numbered footnotes
+ * – Cards, buttons and quick replies are shown under assistant answers
  */
-export default function Message({ message }: Props) {
+export default function Message({ message, onQuickReply }: Props) {
   const isAssistant = message.role === "assistant";
 
   return (
@@ -29,6 +40,8 @@ export default function Message({ message }: Props) {
       >
         {message.content}
       </ReactMarkdown>
+      {isAssistant && <MessageCitations citations={message.citations} className="text-slate-600" />}
+      {isAssistant && <MessagePayloadView payload={message.payload} onQuickReply={onQuickReply} />}
     </div>
   );
 }
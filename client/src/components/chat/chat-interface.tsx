@@ -30,6 +30,8 @@ interface ChatbotPublicInfo {
 interface ChatResponse {
   message: Message;
   sessionId: string;
+  // A behavior rule closed the conversation
+  sessionEnded?: boolean;
 }
 
 export default function ChatInterface({ chatbotSlug, isPreview = false, previewSystemPrompt, hideDescription = false }: ChatInterfaceProps) {
@@ -54,6 +56,8 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
 
   // State to hold the current streaming message
   const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  // Status of a tool the bot is running, e.g. "Checking clinic hours…"
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
   const [eventSource, setEventSource] = useState<EventSource | null>(null);
 
   // Function to close event source
@@ -66,7 +70,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
 
   // Message sending mutation
   const messageMutation = useMutation({
-    mutationFn: async (message: string) => {
+    mutationFn: async ({ message, quickReply }: { message: string; quickReply: boolean }) => {
       if (isPreview) {
         try {
           // Make a direct call to OpenAI for preview mode
@@ -87,6 +91,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               sessionId: "preview",
               isUser: false,
               content: data.response,
+              responseId: null,
+              citations: null,
+              model: null,
+              inputTokens: null,
+              outputTokens: null,
+              cachedTokens: null,
+              usedFallback: false,
+              searchResultCount: null,
+              refusal: false,
+              faqEntryId: null,
+              behaviorRule: null,
+              flowNode: null,
+              payload: null,
+              quickReply: false,
               timestamp: new Date(),
             },
             sessionId: "preview"
@@ -100,6 +118,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               sessionId: "preview",
               isUser: false,
               content: "I couldn't generate a response. This is a preview of your chatbot configuration. In the deployed version, responses will be generated by OpenAI.",
+              responseId: null,
+              citations: null,
+              model: null,
+              inputTokens: null,
+              outputTokens: null,
+              cachedTokens: null,
+              usedFallback: false,
+              searchResultCount: null,
+              refusal: false,
+              faqEntryId: null,
+              behaviorRule: null,
+              flowNode: null,
+              payload: null,
+              quickReply: false,
               timestamp: new Date(),
             },
             sessionId: "preview"
@@ -118,6 +150,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
             sessionId: sessionId || "",
             isUser: false,
             content: "",
+            responseId: null,
+            citations: null,
+            model: null,
+            inputTokens: null,
+            outputTokens: null,
+            cachedTokens: null,
+            usedFallback: false,
+            searchResultCount: null,
+            refusal: false,
+            faqEntryId: null,
+            behaviorRule: null,
+            flowNode: null,
+            payload: null,
+            quickReply: false,
             timestamp: new Date(),
           };
           
@@ -138,6 +184,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
             body: JSON.stringify({ 
               message, 
               sessionId,
+              quickReply,
               stream: true  // Indicates this will be followed by a streaming request
             }),
           }).then(response => {
@@ -172,6 +219,28 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               });
             });
             
+            // Show what the bot is doing while it runs a tool
+            es.addEventListener('tool_call', (event) => {
+              const data = JSON.parse(event.data);
+              setToolStatus(data.label);
+            });
+            
+            es.addEventListener('tool_result', () => {
+              setToolStatus(null);
+            });
+            
+            // Handle source citations for the streamed answer
+            es.addEventListener('citation', (event) => {
+              const citation = JSON.parse(event.data);
+              setStreamingMessage(prev => {
+                if (!prev) return null;
+                return {
+                  ...prev,
+                  citations: [...(prev.citations || []), citation]
+                };
+              });
+            });
+            
             // Handle completion
             es.addEventListener('complete', (event) => {
               const data = JSON.parse(event.data);
@@ -179,7 +248,8 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               setStreamingMessage(null);
               resolve({
                 message: data.message,
-                sessionId: data.message.sessionId
+                sessionId: data.message.sessionId,
+                sessionEnded: data.sessionEnded
               });
               // Close the connection
               es.close();
@@ -204,7 +274,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
             apiRequest(
               "POST", 
               `/api/public/chatbot/${chatbotSlug}/messages`, 
-              { message, sessionId }
+              { message, sessionId, quickReply }
             ).then(response => {
               return response.json();
             }).then(data => {
@@ -217,7 +287,10 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
       }
     },
     onSuccess: (data: ChatResponse) => {
-      if (!sessionId) {
+      if (data.sessionEnded) {
+        // The next message starts a new conversation
+        setSessionId(nanoid());
+      } else if (!sessionId) {
         setSessionId(data.sessionId);
       }
       
@@ -239,6 +312,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
           sessionId: sessionId || "error",
           isUser: false,
           content: "Sorry, there was an error processing your message. Please try again.",
+          responseId: null,
+          citations: null,
+          model: null,
+          inputTokens: null,
+          outputTokens: null,
+          cachedTokens: null,
+          usedFallback: false,
+          searchResultCount: null,
+          refusal: false,
+          faqEntryId: null,
+          behaviorRule: null,
+          flowNode: null,
+          payload: null,
+          quickReply: false,
           timestamp: new Date(),
         }
       ]);
@@ -246,6 +333,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
     onSettled: () => {
       setInputDisabled(false);
       setStreamingMessage(null); // Clear streaming message state
+      setToolStatus(null);
     }
   });
 
@@ -282,6 +370,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
           sessionId: "preview",
           isUser: false,
           content: message,
+          responseId: null,
+          citations: null,
+          model: null,
+          inputTokens: null,
+          outputTokens: null,
+          cachedTokens: null,
+          usedFallback: false,
+          searchResultCount: null,
+          refusal: false,
+          faqEntryId: null,
+          behaviorRule: null,
+          flowNode: null,
+          payload: null,
+          quickReply: false,
           timestamp: new Date(Date.now() + index * 100), // Slight timestamp difference to maintain order
         }));
         
@@ -296,6 +398,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
             sessionId: sessionId || "initial",
             isUser: false,
             content: message,
+            responseId: null,
+            citations: null,
+            model: null,
+            inputTokens: null,
+            outputTokens: null,
+            cachedTokens: null,
+            usedFallback: false,
+            searchResultCount: null,
+            refusal: false,
+            faqEntryId: null,
+            behaviorRule: null,
+            flowNode: null,
+            payload: null,
+            quickReply: false,
             timestamp: new Date(Date.now() + index * 100), // Slight timestamp difference to maintain order
           }));
           
@@ -310,6 +426,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               sessionId: sessionId || "initial",
               isUser: false,
               content: chatbotInfo.welcomeMessage,
+              responseId: null,
+              citations: null,
+              model: null,
+              inputTokens: null,
+              outputTokens: null,
+              cachedTokens: null,
+              usedFallback: false,
+              searchResultCount: null,
+              refusal: false,
+              faqEntryId: null,
+              behaviorRule: null,
+              flowNode: null,
+              payload: null,
+              quickReply: false,
               timestamp: new Date(),
             }
           ]);
@@ -323,6 +453,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               sessionId: sessionId || "initial",
               isUser: false,
               content: "Hello! How can I assist you today?",
+              responseId: null,
+              citations: null,
+              model: null,
+              inputTokens: null,
+              outputTokens: null,
+              cachedTokens: null,
+              usedFallback: false,
+              searchResultCount: null,
+              refusal: false,
+              faqEntryId: null,
+              behaviorRule: null,
+              flowNode: null,
+              payload: null,
+              quickReply: false,
               timestamp: new Date(),
             }
           ]);
@@ -342,7 +486,8 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
     }
   }, [messages]);
 
-  const handleSendMessage = async (message: string) => {
+  // A tapped quick reply is sent like a typed message and logged as a selection
+  const handleSendMessage = async (message: string, quickReply = false) => {
     if (!message.trim() || inputDisabled) return;
     
     // Add user message to UI immediately
@@ -352,6 +497,20 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
       sessionId: sessionId || "preview",
       isUser: true,
       content: message,
+      responseId: null,
+      citations: null,
+      model: null,
+      inputTokens: null,
+      outputTokens: null,
+      cachedTokens: null,
+      usedFallback: false,
+      searchResultCount: null,
+      refusal: false,
+      faqEntryId: null,
+      behaviorRule: null,
+      flowNode: null,
+      payload: null,
+      quickReply,
       timestamp: new Date(),
     };
     
@@ -362,7 +521,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
     setShowSuggestions(false);
     
     try {
-      await messageMutation.mutateAsync(message);
+      await messageMutation.mutateAsync({ message, quickReply });
       // Note: We're not adding the message to the state here anymore
       // because the streaming message will become the final message
       // This avoids duplicate messages
@@ -371,6 +530,8 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
     }
   };
   
+  const lastMessage = messages[messages.length - 1];
+
   const handleSuggestedQuestionClick = (question: string) => {
     if (inputDisabled) return;
     handleSendMessage(question);
@@ -556,6 +717,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
               showAvatar={showAvatar}
               isLastInGroup={isLastInGroup}
               isFirstInGroup={isFirstInGroup}
+              onQuickReply={message === lastMessage && !inputDisabled ? (reply) => handleSendMessage(reply, true) : undefined}
             />
           </div>
         ))}
@@ -567,6 +729,7 @@ export default function ChatInterface({ chatbotSlug, isPreview = false, previewS
             message={streamingMessage} 
             chatbotName={chatbotInfo?.name}
             isStreaming={true}
+            statusText={toolStatus}
             showAvatar={!messages.length || messages[messages.length - 1].isUser}
             isFirstInGroup={!messages.length || messages[messages.length - 1].isUser}
             isLastInGroup={true}
@@ -1,6 +1,8 @@
 import { Message } from "@shared/schema";
 import React from "react";
 import aidifyIcon from "../../assets/Aidify_ProfileAVI.png";
+import MessageCitations from "./message-citations";
+import MessagePayloadView from "./message-payload";
 
 interface ChatMessageProps {
   message: Message;
@@ -9,6 +11,9 @@ interface ChatMessageProps {
   showAvatar?: boolean;
   isLastInGroup?: boolean;
   isFirstInGroup?: boolean;
+  statusText?: string | null;
+  // Set on the latest answer, whose quick replies can still be tapped
+  onQuickReply?: (reply: string) => void;
 }
 
 // Function to format message content with bold text
@@ -38,7 +43,9 @@ export default function ChatMessage({
   isStreaming = false,
   showAvatar = true,
   isLastInGroup = true,
-  isFirstInGroup = true
+  isFirstInGroup = true,
+  statusText,
+  onQuickReply
 }: ChatMessageProps) {
   
   // User message
@@ -92,6 +99,9 @@ export default function ChatMessage({
           max-w-[80%] md:max-w-[70%]
         `}
       >
+        {statusText && (
+          <p className="text-xs italic text-gray-500 mb-1 animate-pulse">{statusText}</p>
+        )}
         <div className={`relative ${isStreaming ? 'animate-text-fade-in' : ''}`}>
           <p className="text-gray-800 whitespace-pre-wrap text-sm"
              style={{ wordBreak: 'break-word' }}>
@@ -100,6 +110,8 @@ export default function ChatMessage({
               <span className="inline-block w-1.5 h-4 bg-gray-400 ml-0.5 animate-blink"></span>
             )}
           </p>
+          <MessageCitations citations={message.citations} className="text-gray-700" />
+          {!isStreaming && <MessagePayloadView payload={message.payload} onQuickReply={onQuickReply} />}
         </div>
         {isLastInGroup && !message.isUser && chatbotName && (
           <p className="text-xs text-[#EA19FF] mt-1.5 font-medium">
@@ -0,0 +1,49 @@
+import { Citation } from "@shared/schema";
+import { ChevronDown, FileText } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface MessageCitationsProps {
+  citations?: Citation[] | null;
+  className?: string;
+}
+
+/**
+ * Numbered source footnotes for a bot answer
+ * – Each footnote names the cited document and expands to show the quoted snippet
+ */
+export default function MessageCitations({ citations, className = "" }: MessageCitationsProps) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className={`mt-2 pt-2 border-t border-gray-400/30 space-y-1 ${className}`}>
+      <p className="text-[11px] font-medium uppercase tracking-wide opacity-60">Sources</p>
+      <ol className="space-y-1">
+        {citations.map((citation) => (
+          <li key={`${citation.index}-${citation.fileId}`}>
+            <Collapsible>
+              <CollapsibleTrigger
+                className="group flex w-full items-center gap-1.5 text-left text-xs opacity-80 hover:opacity-100 disabled:cursor-default"
+                disabled={!citation.snippet}
+              >
+                <span className="font-semibold">[{citation.index}]</span>
+                <FileText className="h-3 w-3 shrink-0" />
+                <span className="truncate">{citation.documentName}</span>
+                {citation.snippet && (
+                  <ChevronDown className="h-3 w-3 shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+                )}
+              </CollapsibleTrigger>
+              {citation.snippet && (
+                <CollapsibleContent>
+                  <blockquote className="mt-1 ml-5 border-l-2 border-gray-400/40 pl-2 text-xs italic opacity-70 whitespace-pre-wrap"
+                    style={{ wordBreak: 'break-word' }}>
+                    "{citation.snippet}"
+                  </blockquote>
+                </CollapsibleContent>
+              )}
+            </Collapsible>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
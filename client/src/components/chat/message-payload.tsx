@@ -0,0 +1,78 @@
+import { MessagePayload } from "@shared/schema";
+import { ExternalLink, Phone } from "lucide-react";
+
+interface MessagePayloadViewProps {
+  payload?: MessagePayload | null;
+  // Sends a quick reply as the patient's next message; chips are only shown when set
+  onQuickReply?: (reply: string) => void;
+  className?: string;
+}
+
+/**
+ * Cards, link and call buttons and quick-reply chips sent with a bot answer
+ * – Quick replies are only offered on the latest answer, so older ones can't be tapped
+ */
+export default function MessagePayloadView({ payload, onQuickReply, className = "" }: MessagePayloadViewProps) {
+  if (!payload) return null;
+
+  return (
+    <div className={`mt-2 space-y-2 ${className}`}>
+      {payload.cards.map((card, index) => (
+        <div key={index} className="overflow-hidden rounded-xl border border-gray-300 bg-white">
+          {card.imageUrl && (
+            <img src={card.imageUrl} alt="" className="h-32 w-full object-cover" />
+          )}
+          <div className="p-2.5">
+            <p className="text-sm font-semibold text-gray-900">{card.title}</p>
+            {card.description && (
+              <p className="mt-0.5 text-xs text-gray-600 whitespace-pre-wrap">{card.description}</p>
+            )}
+            {card.url && (
+              <a
+                href={card.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1.5 inline-flex items-center gap-1 text-xs font-medium text-[#0B84FE] hover:underline"
+              >
+                Learn more
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {payload.buttons.length > 0 && (
+        <div className="flex flex-col gap-1.5">
+          {payload.buttons.map((button, index) => (
+            <a
+              key={index}
+              href={button.type === "call" ? `tel:${button.phone}` : button.url}
+              target={button.type === "link" ? "_blank" : undefined}
+              rel={button.type === "link" ? "noopener noreferrer" : undefined}
+              className="flex items-center justify-center gap-1.5 rounded-lg bg-white border border-gray-300 px-3 py-1.5 text-sm font-medium text-[#0B84FE] hover:bg-gray-50"
+            >
+              {button.type === "call" ? <Phone className="h-3.5 w-3.5" /> : <ExternalLink className="h-3.5 w-3.5" />}
+              {button.label}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {onQuickReply && payload.quickReplies.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {payload.quickReplies.map(reply => (
+            <button
+              key={reply}
+              type="button"
+              onClick={() => onQuickReply(reply)}
+              className="rounded-full border border-[#9083FF]/40 bg-white px-3 py-1 text-sm font-medium text-[#9083FF] hover:bg-[#9083FF]/10 transition-colors"
+            >
+              {reply}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KnowledgeCollection, KnowledgeCollectionSummary } from "@shared/schema";
+import { Library } from "lucide-react";
+import { Link } from "wouter";
+import { Loader } from "@/components/ui/loader";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ChatbotCollectionsProps {
+  chatbotId: number;
+}
+
+/**
+ * Shared knowledge collections the chatbot searches alongside its own documents
+ */
+export default function ChatbotCollections({ chatbotId }: ChatbotCollectionsProps) {
+  const { toast } = useToast();
+  const attachedKey = `/api/chatbots/${chatbotId}/collections`;
+
+  const { data: collections, isLoading } = useQuery<KnowledgeCollectionSummary[]>({
+    queryKey: ["/api/knowledge-collections"],
+  });
+  const { data: attached, isLoading: attachedLoading } = useQuery<KnowledgeCollection[]>({
+    queryKey: [attachedKey],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ collectionId, attach }: { collectionId: number; attach: boolean }) => {
+      await apiRequest(attach ? "PUT" : "DELETE", `${attachedKey}/${collectionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [attachedKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge-collections"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update collections",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const attachedIds = new Set(attached?.map(collection => collection.id));
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-neutral-300 mb-1">Shared Collections</h4>
+      <p className="text-neutral-400 text-xs mb-3">
+        Documents in attached collections are searched alongside this chatbot's own documents.
+        Manage collections on the <Link href="/knowledge-base" className="text-primary hover:underline">Knowledge Base</Link> page.
+      </p>
+
+      {isLoading || attachedLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader withText text="Loading collections..." />
+        </div>
+      ) : !collections || collections.length === 0 ? (
+        <div className="bg-neutral-800 rounded-lg p-4 text-center">
+          <p className="text-neutral-300 text-sm">No collections yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {collections.map((collection) => (
+            <div key={collection.id} className="bg-neutral-800 rounded-lg p-3 flex items-center justify-between">
+              <div className="flex items-center min-w-0">
+                <div className="bg-primary/20 p-2 rounded">
+                  <Library className="h-5 w-5 text-primary" />
+                </div>
+                <div className="ml-3 min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{collection.name}</p>
+                  <p className="text-neutral-300 text-xs">
+                    {collection.documentCount} document{collection.documentCount === 1 ? "" : "s"}
+                    {collection.description && ` · ${collection.description}`}
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={attachedIds.has(collection.id)}
+                onCheckedChange={(attach) => toggleMutation.mutate({ collectionId: collection.id, attach })}
+                disabled={toggleMutation.isPending}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
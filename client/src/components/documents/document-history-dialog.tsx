@@ -0,0 +1,231 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Document, DocumentVersionSummary } from "@shared/schema";
+import { Eye, History, RotateCcw, Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import DocumentStatus, { documentListKey, isDocumentPending } from "./document-status";
+
+interface DocumentHistoryDialogProps {
+  document: Document | null;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + " KB";
+  else return (bytes / 1048576).toFixed(1) + " MB";
+};
+
+/**
+ * Version history of a document: replace it with a new file, view earlier versions' text and restore them
+ */
+export default function DocumentHistoryDialog({ document, onClose }: DocumentHistoryDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+
+  const documentId = document?.id;
+  const versionsKey = `/api/documents/${documentId}/versions`;
+  const pending = document ? isDocumentPending(document) : false;
+  const canReplace = !!document && document.type !== "url" && !pending;
+
+  const { data: versions, isLoading } = useQuery<DocumentVersionSummary[]>({
+    queryKey: [versionsKey],
+    enabled: !!document,
+  });
+
+  const { data: versionText, isLoading: versionTextLoading } = useQuery<{ version: number; name: string; content: string }>({
+    queryKey: [`${versionsKey}/${viewingVersion}`],
+    enabled: !!document && viewingVersion !== null,
+  });
+
+  const refreshDocument = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    if (document) {
+      queryClient.invalidateQueries({ queryKey: [documentListKey(document)] });
+    }
+    queryClient.invalidateQueries({ queryKey: [versionsKey] });
+  };
+
+  const replaceMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/documents/${documentId}/replace`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to replace document");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      refreshDocument();
+      setViewingVersion(null);
+      toast({
+        title: "Document replaced",
+        description: "The new version is being processed. The previous version stays in use until it is ready.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Replace failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `/api/documents/${documentId}/versions/${version}/restore`);
+    },
+    onSuccess: (_, version) => {
+      refreshDocument();
+      setViewingVersion(null);
+      toast({
+        title: "Version restored",
+        description: `Version ${version} is being processed and will become the current version.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      replaceMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setViewingVersion(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl bg-background-light border-neutral-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <History className="h-5 w-5 text-primary" />
+            Version History
+          </DialogTitle>
+          <DialogDescription className="text-neutral-300 break-all">
+            {document?.name}
+          </DialogDescription>
+          {document && <DocumentStatus document={document} />}
+        </DialogHeader>
+
+        {document?.type !== "url" && (
+          <div className="flex items-center justify-between bg-neutral-900 border border-neutral-800 rounded-lg p-3">
+            <p className="text-neutral-300 text-sm">
+              Upload a new file to replace this document. Earlier versions stay available here.
+            </p>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canReplace || replaceMutation.isPending}
+              className="bg-primary hover:bg-primary-dark text-white shrink-0 ml-3"
+            >
+              {replaceMutation.isPending ? <Loader size="sm" className="mr-2" /> : <Upload className="mr-2 h-4 w-4" />}
+              Replace
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept=".pdf,.docx,.txt,.rtf,application/rtf,text/rtf"
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader withText text="Loading versions..." />
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {versions?.map((version) => (
+              <div key={version.version} className="bg-neutral-800 rounded-lg p-3 flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white text-sm font-medium">Version {version.version}</span>
+                    {version.current && (
+                      <Badge variant="outline" className="text-primary border-primary/30">Current</Badge>
+                    )}
+                  </div>
+                  <p className="text-neutral-300 text-xs truncate">
+                    {version.name} · {formatFileSize(version.size)}
+                  </p>
+                  <p className="text-neutral-400 text-xs">
+                    Uploaded {new Date(version.uploadedAt).toLocaleString()}
+                    {version.uploaderName && ` by ${version.uploaderName}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-neutral-300 hover:text-white"
+                    onClick={() => setViewingVersion(viewingVersion === version.version ? null : version.version)}
+                  >
+                    <Eye className="mr-1 h-4 w-4" />
+                    {viewingVersion === version.version ? "Hide" : "View"}
+                  </Button>
+                  {!version.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-neutral-300 hover:text-white"
+                      onClick={() => restoreMutation.mutate(version.version)}
+                      disabled={pending || restoreMutation.isPending}
+                    >
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {viewingVersion !== null && (
+          <div className="bg-neutral-900 border border-neutral-800 rounded-lg p-3">
+            <p className="text-neutral-300 text-xs mb-2">Extracted text of version {viewingVersion}</p>
+            {versionTextLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader size="sm" />
+              </div>
+            ) : (
+              <pre className="text-neutral-200 text-xs whitespace-pre-wrap max-h-64 overflow-y-auto font-sans">
+                {versionText?.content || "No text has been extracted for this version yet."}
+              </pre>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Review fields of a document, from the document list or the review queue
+export interface ReviewableDocument {
+  id: number;
+  name: string;
+  reviewOwner: string | null;
+  effectiveDate: string | Date | null;
+  reviewByDate: string | Date | null;
+  excludeWhenExpired: boolean;
+}
+
+interface DocumentReviewDialogProps {
+  document: ReviewableDocument | null;
+  onClose: () => void;
+}
+
+// Value for a date input, e.g. "2025-07-01"
+const toDateInput = (date: string | Date | null) => date ? new Date(date).toISOString().slice(0, 10) : "";
+
+const oneYearFromNow = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() + 1);
+  return toDateInput(date);
+};
+
+/**
+ * Clinical content review details of a document: who owns it, when it took effect and
+ * when it must be reviewed again. Marking it reviewed sets the next review date and
+ * returns an expired document to the Care Aids' answers.
+ */
+export default function DocumentReviewDialog({ document, onClose }: DocumentReviewDialogProps) {
+  const { toast } = useToast();
+  const [reviewOwner, setReviewOwner] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [reviewByDate, setReviewByDate] = useState("");
+  const [excludeWhenExpired, setExcludeWhenExpired] = useState(false);
+  const [nextReviewDate, setNextReviewDate] = useState("");
+
+  useEffect(() => {
+    if (document) {
+      setReviewOwner(document.reviewOwner ?? "");
+      setEffectiveDate(toDateInput(document.effectiveDate));
+      setReviewByDate(toDateInput(document.reviewByDate));
+      setExcludeWhenExpired(document.excludeWhenExpired);
+      setNextReviewDate(oneYearFromNow());
+    }
+  }, [document?.id]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/content-review"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  };
+
+  const details = () => ({
+    reviewOwner: reviewOwner.trim() || null,
+    effectiveDate: effectiveDate || null,
+    reviewByDate: reviewByDate || null,
+    excludeWhenExpired,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/documents/${document!.id}/review`, details());
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save review details",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/documents/${document!.id}/review`, details());
+      await apiRequest("POST", `/api/documents/${document!.id}/approve`, {
+        reviewByDate: nextReviewDate,
+        effectiveDate: effectiveDate || null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+      toast({
+        title: "Document approved",
+        description: `Next review due ${new Date(nextReviewDate).toLocaleDateString()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Approval failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = saveMutation.isPending || approveMutation.isPending;
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Content review</DialogTitle>
+          <DialogDescription className="break-words">{document?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="review-owner">Content owner</Label>
+            <Input
+              id="review-owner"
+              placeholder="e.g. Dr. Jane Smith, Pre-op nursing"
+              value={reviewOwner}
+              onChange={(e) => setReviewOwner(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="review-effective-date">Effective date</Label>
+              <Input id="review-effective-date" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="review-by-date">Review by</Label>
+              <Input id="review-by-date" type="date" value={reviewByDate} onChange={(e) => setReviewByDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-start gap-3">
+            <Switch id="review-exclude" checked={excludeWhenExpired} onCheckedChange={setExcludeWhenExpired} />
+            <Label htmlFor="review-exclude" className="font-normal leading-snug">
+              Stop using this document in answers once it is past its review date, until it is approved again
+            </Label>
+          </div>
+
+          <div className="border-t pt-4 space-y-1.5">
+            <Label htmlFor="review-next-date">Approve content until</Label>
+            <div className="flex gap-2">
+              <Input id="review-next-date" type="date" value={nextReviewDate} onChange={(e) => setNextReviewDate(e.target.value)} />
+              <Button
+                type="button"
+                variant="outline"
+                className="shrink-0"
+                onClick={() => approveMutation.mutate()}
+                disabled={!nextReviewDate || busy}
+              >
+                {approveMutation.isPending ? <Loader size="sm" className="mr-2" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                Mark reviewed
+              </Button>
+            </div>
+            <p className="text-xs text-neutral-500">Records you as the reviewer and sets the next review date.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={busy}>Cancel</Button>
+          <Button type="button" onClick={() => saveMutation.mutate()} disabled={busy}>
+            {saveMutation.isPending && <Loader size="sm" className="mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
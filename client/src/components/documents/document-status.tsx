@@ -0,0 +1,109 @@
+import { useMutation } from "@tanstack/react-query";
+import { Document, DocumentStatus as Status } from "@shared/schema";
+import { AlertCircle, CalendarX, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const STEP_LABELS: Partial<Record<Status, string>> = {
+  queued: "Queued",
+  extracting: "Extracting text",
+  uploading: "Uploading",
+  indexing: "Indexing",
+};
+
+// How often document lists refresh while a document is still being processed
+export const DOCUMENT_POLL_INTERVAL_MS = 2000;
+
+export function isDocumentPending(document: Document) {
+  return document.status in STEP_LABELS;
+}
+
+/**
+ * refetchInterval for document list queries: poll while any document is still processing
+ */
+export function documentsRefetchInterval(query: { state: { data?: Document[] } }) {
+  return query.state.data?.some(isDocumentPending) ? DOCUMENT_POLL_INTERVAL_MS : false;
+}
+
+/**
+ * Query key of the list a document appears in: its chatbot's documents or its collection's
+ */
+export function documentListKey(document: Document) {
+  return document.collectionId
+    ? `/api/knowledge-collections/${document.collectionId}/documents`
+    : `/api/chatbots/${document.chatbotId}/documents`;
+}
+
+interface DocumentStatusProps {
+  document: Document;
+}
+
+/**
+ * Ingestion progress of an uploaded document
+ * – Shows the current step while processing, or the error with a retry button when a step failed
+ * – Notes when the document is kept out of answers because it is past its review date
+ */
+export default function DocumentStatus({ document }: DocumentStatusProps) {
+  const { toast } = useToast();
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/documents/${document.id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [documentListKey(document)], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isDocumentPending(document)) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-primary-light">
+        <Loader size="sm" variant="primary" />
+        {STEP_LABELS[document.status]}…
+      </p>
+    );
+  }
+
+  if (document.status === "failed") {
+    return (
+      <div className="flex items-start gap-2 mt-1">
+        <p className="flex items-start gap-1.5 text-xs text-red-400" style={{ wordBreak: 'break-word' }}>
+          <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-px" />
+          {document.error || "Processing failed"}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-neutral-300 hover:text-white shrink-0"
+          onClick={() => retryMutation.mutate()}
+          disabled={retryMutation.isPending}
+        >
+          <RotateCw className={`mr-1 h-3 w-3 ${retryMutation.isPending ? "animate-spin" : ""}`} />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  if (document.excludedAt) {
+    return (
+      <p className="flex items-start gap-1.5 mt-1 text-xs text-amber-400">
+        <CalendarX className="h-3.5 w-3.5 shrink-0 mt-px" />
+        Past its review date – not used in answers until it is approved again
+      </p>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Chatbot, KnowledgeCollectionSummary } from "@shared/schema";
+import { FolderOpen, Library, Plus, Trash2 } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader } from "@/components/ui/loader";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import DocumentUploadModal from "@/components/modals/document-upload-modal";
+
+interface KnowledgeCollectionsProps {
+  careAids: Chatbot[];
+}
+
+/**
+ * Shared knowledge collections: documents uploaded once and searched by every Care Aid they are attached to
+ */
+export default function KnowledgeCollections({ careAids }: KnowledgeCollectionsProps) {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [documentsCollectionId, setDocumentsCollectionId] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState<KnowledgeCollectionSummary | null>(null);
+
+  const { data: collections, isLoading } = useQuery<KnowledgeCollectionSummary[]>({
+    queryKey: ["/api/knowledge-collections"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/knowledge-collections", {
+        name: name.trim(),
+        description: description.trim(),
+      });
+      return await res.json() as KnowledgeCollectionSummary;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge-collections"] });
+      setName("");
+      setDescription("");
+      setShowForm(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create collection",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (collectionId: number) => {
+      await apiRequest("DELETE", `/api/knowledge-collections/${collectionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/knowledge-collections"] });
+      toast({
+        title: "Collection deleted",
+        description: "Its documents have been removed from every Care Aid it was attached to.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setDeleting(null);
+    },
+  });
+
+  const careAidName = (id: number) => careAids.find(careAid => careAid.id === id)?.name ?? "Unknown Care Aid";
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-primary">Shared Collections</h2>
+          <p className="text-neutral-300 text-sm">
+            Upload documents once and attach the collection to every Care Aid that needs them
+          </p>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} className="bg-primary hover:bg-primary-dark text-white">
+            <Plus className="mr-2 h-4 w-4" />
+            New Collection
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="bg-background-light border border-neutral-800 rounded-lg p-4 mb-4 space-y-3">
+          <Input
+            placeholder="Collection name, e.g. Anesthesia FAQ"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Textarea
+            placeholder="What these documents cover (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowForm(false)} disabled={createMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || createMutation.isPending}
+              className="bg-primary hover:bg-primary-dark text-white"
+            >
+              {createMutation.isPending && <Loader size="sm" className="mr-2" />}
+              Create
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader withText text="Loading collections..." />
+        </div>
+      ) : !collections || collections.length === 0 ? (
+        <div className="bg-background-light border border-neutral-800 rounded-lg p-4 text-center">
+          <p className="text-neutral-300 text-sm">No shared collections yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {collections.map((collection) => (
+            <div key={collection.id} className="bg-background-light border border-neutral-800 rounded-lg p-4 flex flex-col">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center min-w-0">
+                  <Library className="h-6 w-6 text-primary shrink-0" />
+                  <h3 className="ml-2 text-base font-bold text-primary truncate">{collection.name}</h3>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-neutral-400 hover:text-red-500 h-8 w-8 shrink-0"
+                  onClick={() => setDeleting(collection)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {collection.description && (
+                <p className="text-neutral-300 text-sm mt-1">{collection.description}</p>
+              )}
+              <p className="text-neutral-400 text-xs mt-2">
+                {collection.documentCount} document{collection.documentCount === 1 ? "" : "s"}
+              </p>
+              <div className="flex flex-wrap gap-1 mt-2 flex-1">
+                {collection.chatbotIds.length === 0 ? (
+                  <span className="text-neutral-500 text-xs">Not attached to any Care Aid</span>
+                ) : (
+                  collection.chatbotIds.map(id => (
+                    <Badge key={id} variant="outline" className="text-primary border-primary/30">
+                      {careAidName(id)}
+                    </Badge>
+                  ))
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3 text-xs border-neutral-700 text-neutral-300"
+                onClick={() => setDocumentsCollectionId(collection.id)}
+              >
+                <FolderOpen className="mr-1 h-3 w-3" />
+                Manage Documents
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DocumentUploadModal
+        isOpen={documentsCollectionId !== null}
+        onClose={() => setDocumentsCollectionId(null)}
+        collectionId={documentsCollectionId ?? undefined}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the collection and its documents. Care Aids it is attached to
+              will no longer be able to answer from them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-500 hover:bg-red-600"
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
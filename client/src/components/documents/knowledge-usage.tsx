@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { KnowledgeUsage, KnowledgeUsageFile } from "@shared/schema";
+import { AlertCircle, ChevronDown, ChevronUp, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+// Usage only changes once an upload is indexed, so it refreshes less often than document lists
+const USAGE_POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<string, string> = {
+  in_progress: "Indexing",
+  completed: "Indexed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  queued: "Queued",
+  extracting: "Extracting text",
+  uploading: "Uploading",
+  indexing: "Indexing",
+  ready: "Ready",
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + " KB";
+  else return (bytes / 1048576).toFixed(1) + " MB";
+};
+
+export function knowledgeUsageKey(chatbotId: number) {
+  return `/api/chatbots/${chatbotId}/knowledge-usage`;
+}
+
+function isProcessing(file: KnowledgeUsageFile) {
+  return !["completed", "ready", "failed", "cancelled"].includes(file.status);
+}
+
+interface KnowledgeUsageMeterProps {
+  chatbotId: number;
+}
+
+/**
+ * How much of the chatbot's document and storage limits its knowledge base uses,
+ * with the indexing status, size and failure reason of each file
+ */
+export default function KnowledgeUsageMeter({ chatbotId }: KnowledgeUsageMeterProps) {
+  const [showFiles, setShowFiles] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const usageKey = knowledgeUsageKey(chatbotId);
+
+  const { data: usage, isLoading } = useQuery<KnowledgeUsage>({
+    queryKey: [usageKey],
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && (data.pendingCount > 0 || data.files.some(isProcessing)) ? USAGE_POLL_INTERVAL_MS : false;
+    },
+  });
+
+  // The server caches vector store listings; a manual refresh lists the store again
+  const refresh = async () => {
+    setRefreshing(true);
+    try {
+      const res = await apiRequest("GET", `${usageKey}?refresh=true`);
+      queryClient.setQueryData([usageKey], await res.json());
+    } catch {
+      // The meter keeps showing the last usage it loaded
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader withText text="Loading usage..." />
+      </div>
+    );
+  }
+  if (!usage) return null;
+
+  const usedFiles = usage.fileCount + usage.pendingCount;
+  const usedBytes = usage.totalBytes + usage.pendingBytes;
+  const filePercent = Math.min(100, (usedFiles / usage.fileLimit) * 100);
+  const storagePercent = Math.min(100, (usedBytes / usage.storageLimitBytes) * 100);
+  const failedCount = usage.files.filter(file => file.status === "failed" || file.status === "cancelled").length;
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-neutral-300">Knowledge Base Usage</h4>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="text-neutral-400 hover:text-white h-7 w-7"
+          title="Refresh usage"
+          onClick={refresh}
+          disabled={refreshing}
+        >
+          {refreshing ? <Loader size="sm" /> : <RotateCw className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs">
+            <span className="text-neutral-400">Documents</span>
+            <span className="text-neutral-300">{usedFiles} / {usage.fileLimit}</span>
+          </div>
+          <Progress value={filePercent} className={cn("h-2", filePercent >= 90 && "[&>div]:bg-red-500")} />
+        </div>
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs">
+            <span className="text-neutral-400">Storage</span>
+            <span className="text-neutral-300">{formatFileSize(usedBytes)} / {formatFileSize(usage.storageLimitBytes)}</span>
+          </div>
+          <Progress value={storagePercent} className={cn("h-2", storagePercent >= 90 && "[&>div]:bg-red-500")} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-neutral-500 text-xs">
+          {usage.pendingCount > 0 && `${usage.pendingCount} waiting to upload · `}
+          {failedCount > 0 && <span className="text-red-400">{failedCount} failed to index · </span>}
+          Checked {new Date(usage.checkedAt).toLocaleTimeString()}
+        </p>
+        {usage.files.length > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-neutral-400 hover:text-white h-7"
+            onClick={() => setShowFiles(!showFiles)}
+          >
+            {showFiles ? <ChevronUp className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+            {showFiles ? "Hide files" : "Show files"}
+          </Button>
+        )}
+      </div>
+
+      {showFiles && (
+        <div className="space-y-1 max-h-60 overflow-y-auto">
+          {usage.files.map((file, index) => (
+            <div key={file.fileId ?? `document-${file.documentId ?? index}`} className="bg-neutral-800 rounded px-3 py-2 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <span className={cn("truncate", file.name ? "text-white" : "text-neutral-400 italic")}>
+                  {file.name ?? `Unlinked file ${file.fileId}`}
+                </span>
+                <span className="flex shrink-0 gap-3 text-neutral-400">
+                  <span className={cn((file.status === "failed" || file.status === "cancelled") && "text-red-400")}>
+                    {STATUS_LABELS[file.status] ?? file.status}
+                  </span>
+                  <span>{formatFileSize(file.bytes)}</span>
+                </span>
+              </div>
+              {file.error && (
+                <p className="flex items-start gap-1.5 text-red-400 mt-1" style={{ wordBreak: 'break-word' }}>
+                  <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                  {file.error}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
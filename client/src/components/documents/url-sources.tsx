@@ -0,0 +1,311 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { UrlSource } from "@shared/schema";
+import { AlertCircle, Globe, Plus, RotateCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DOCUMENT_POLL_INTERVAL_MS } from "./document-status";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+const DEPTH_OPTIONS = [
+  { value: "0", label: "Only this page" },
+  { value: "1", label: "Pages it links to" },
+  { value: "2", label: "2 links deep" },
+  { value: "3", label: "3 links deep" },
+];
+
+// Re-crawl intervals in hours; "never" disables scheduled re-crawls
+const RECRAWL_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "24", label: "Daily" },
+  { value: "168", label: "Weekly" },
+  { value: "720", label: "Monthly" },
+];
+
+const splitPatterns = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+interface UrlSourcesProps {
+  chatbotId: number;
+}
+
+/**
+ * Websites crawled into the chatbot's knowledge base; each crawled page becomes a document
+ */
+export default function UrlSources({ chatbotId }: UrlSourcesProps) {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [maxDepth, setMaxDepth] = useState("1");
+  const [sameDomain, setSameDomain] = useState(true);
+  const [includePatterns, setIncludePatterns] = useState("");
+  const [excludePatterns, setExcludePatterns] = useState("");
+  const [recrawl, setRecrawl] = useState("168");
+
+  const sourcesKey = `/api/chatbots/${chatbotId}/url-sources`;
+  const documentsKey = `/api/chatbots/${chatbotId}/documents`;
+
+  const { data: sources, isLoading } = useQuery<UrlSource[]>({
+    queryKey: [sourcesKey],
+    refetchInterval: (query) =>
+      query.state.data?.some(source => source.status === "crawling") ? DOCUMENT_POLL_INTERVAL_MS : false,
+  });
+
+  // Crawled pages show up in the document list once a crawl finishes
+  const crawlingCount = sources?.filter(source => source.status === "crawling").length ?? 0;
+  const previousCrawlingCount = useRef(crawlingCount);
+  useEffect(() => {
+    if (crawlingCount < previousCrawlingCount.current) {
+      queryClient.invalidateQueries({ queryKey: [documentsKey] });
+    }
+    previousCrawlingCount.current = crawlingCount;
+  }, [crawlingCount, documentsKey]);
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", sourcesKey, {
+        url: url.trim(),
+        maxDepth: Number(maxDepth),
+        sameDomain,
+        includePatterns: splitPatterns(includePatterns),
+        excludePatterns: splitPatterns(excludePatterns),
+        recrawlIntervalHours: recrawl === "never" ? null : Number(recrawl),
+      });
+      return await res.json() as UrlSource;
+    },
+    // The response already shows the first crawl as running, which starts polling
+    onSuccess: (source) => {
+      queryClient.setQueryData<UrlSource[]>([sourcesKey], (previous) => [...(previous ?? []), source]);
+      setUrl("");
+      setIncludePatterns("");
+      setExcludePatterns("");
+      toast({
+        title: "Website added",
+        description: "Its pages are being crawled and will appear in your documents shortly.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add website",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const crawlMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      const res = await apiRequest("POST", `/api/url-sources/${sourceId}/crawl`);
+      return await res.json() as UrlSource;
+    },
+    onSuccess: (crawling) => {
+      queryClient.setQueryData<UrlSource[]>([sourcesKey], (previous) =>
+        previous?.map(source => (source.id === crawling.id ? crawling : source)));
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not start crawl",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      await apiRequest("DELETE", `/api/url-sources/${sourceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [sourcesKey] });
+      queryClient.invalidateQueries({ queryKey: [documentsKey] });
+      toast({
+        title: "Website removed",
+        description: "The website and its crawled pages have been removed from your chatbot.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describeSource = (source: UrlSource) => {
+    const parts = [`${source.pageCount} ${source.pageCount === 1 ? "page" : "pages"}`];
+    if (source.lastCrawledAt) {
+      parts.push(`crawled ${new Date(source.lastCrawledAt).toLocaleString()}`);
+    }
+    const schedule = RECRAWL_OPTIONS.find(option => option.value === String(source.recrawlIntervalHours));
+    parts.push(source.recrawlIntervalHours ? `re-crawled ${schedule?.label.toLowerCase() ?? `every ${source.recrawlIntervalHours}h`}` : "no scheduled re-crawl");
+    return parts.join(" · ");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-neutral-300">Websites</h4>
+        <p className="text-neutral-400 text-xs mt-1">
+          Crawl pages from your website into the knowledge base. Navigation, headers and footers are left out.
+        </p>
+      </div>
+
+      <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-4">
+        <div className="flex gap-2">
+          <Input
+            type="url"
+            placeholder="https://www.example-clinic.org/patients"
+            className={inputClassName}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              // The knowledge tab sits inside the chatbot form; don't submit it
+              if (e.key === "Enter") {
+                e.preventDefault();
+                if (url.trim()) addMutation.mutate();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            className="bg-primary hover:bg-primary-dark text-white shrink-0"
+            onClick={() => addMutation.mutate()}
+            disabled={!url.trim() || addMutation.isPending}
+          >
+            {addMutation.isPending ? <Loader size="sm" className="mr-2" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Website
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Crawl depth</Label>
+            <Select value={maxDepth} onValueChange={setMaxDepth}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPTH_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Re-crawl</Label>
+            <Select value={recrawl} onValueChange={setRecrawl}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECRAWL_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-3 md:pt-7">
+            <Switch id="url-source-same-domain" checked={sameDomain} onCheckedChange={setSameDomain} />
+            <Label htmlFor="url-source-same-domain" className="text-neutral-300">Stay on this domain</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Only include paths</Label>
+            <Textarea
+              placeholder={"/patients/*\n/services/*"}
+              className={`${inputClassName} resize-none`}
+              rows={3}
+              value={includePatterns}
+              onChange={(e) => setIncludePatterns(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Exclude paths</Label>
+            <Textarea
+              placeholder={"/news/*\n*/print"}
+              className={`${inputClassName} resize-none`}
+              rows={3}
+              value={excludePatterns}
+              onChange={(e) => setExcludePatterns(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-neutral-500 text-xs">One pattern per line; * matches any characters. Leave "Only include paths" empty to crawl every linked page.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader withText text="Loading websites..." />
+        </div>
+      ) : sources && sources.length > 0 && (
+        <div className="space-y-3">
+          {sources.map((source) => (
+            <div key={source.id} className="bg-neutral-800 rounded-lg p-3 flex items-center justify-between">
+              <div className="flex items-center min-w-0">
+                <div className="bg-primary/20 p-2 rounded">
+                  <Globe className="text-primary-light" />
+                </div>
+                <div className="ml-3 min-w-0">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-white text-sm font-medium hover:underline truncate block"
+                  >
+                    {source.url}
+                  </a>
+                  <p className="text-neutral-300 text-xs">{describeSource(source)}</p>
+                  {source.status === "crawling" && (
+                    <p className="flex items-center gap-1.5 text-xs text-primary-light">
+                      <Loader size="sm" variant="primary" />
+                      Crawling…
+                    </p>
+                  )}
+                  {source.status === "failed" && (
+                    <p className="flex items-start gap-1.5 text-xs text-red-400 mt-1" style={{ wordBreak: 'break-word' }}>
+                      <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                      {source.error || "Crawl failed"}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-neutral-400 hover:text-white"
+                  title="Crawl now"
+                  onClick={() => crawlMutation.mutate(source.id)}
+                  disabled={source.status === "crawling" || crawlMutation.isPending}
+                >
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-neutral-400 hover:text-red-500"
+                  title="Remove website and its pages"
+                  onClick={() => deleteMutation.mutate(source.id)}
+                  disabled={source.status === "crawling" || deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
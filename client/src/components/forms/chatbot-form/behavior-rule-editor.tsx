@@ -0,0 +1,556 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { RuleAction, RuleMatchType } from "@shared/schema";
+import { Trash2, X } from "lucide-react";
+import {
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatLinks, parseLinks } from "./faq-entries";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+const MATCH_TYPES: Record<RuleMatchType, { label: string; placeholder: string; description: string }> = {
+  keywords_any: {
+    label: "Any keyword",
+    placeholder: "pain, swelling, fever",
+    description: "Matches when any of these words or phrases appears, one per line or comma-separated",
+  },
+  keywords_all: {
+    label: "All keywords",
+    placeholder: "bleeding, heavy",
+    description: "Matches when every one of these words or phrases appears",
+  },
+  contains: {
+    label: "Contains text",
+    placeholder: "appointment",
+    description: "Matches when this text appears anywhere in the message, even inside a longer word",
+  },
+  exact: {
+    label: "Exact message",
+    placeholder: "hello\nhi there",
+    description: "Matches when the whole message equals one of these wordings, ignoring case and punctuation",
+  },
+  regex: {
+    label: "Regular expression",
+    placeholder: "\\b(refill|renew)s?\\b.*prescription",
+    description: "Case-insensitive regular expression",
+  },
+  intent: {
+    label: "Intent (similar meaning)",
+    placeholder: "What time should I arrive?\nWhen do I need to be at the hospital?",
+    description: "Example phrasings, one per line; matches messages with a similar meaning",
+  },
+};
+
+const ACTION_LABELS: Record<RuleAction["type"], string> = {
+  handoff: "Hand off to care team",
+  links: "Show link buttons",
+  call: "Show call button",
+  quick_replies: "Offer quick replies",
+  card: "Show info card",
+  webhook: "Call webhook",
+  end_session: "End conversation",
+};
+
+const NEW_ACTIONS: Record<RuleAction["type"], RuleAction> = {
+  handoff: { type: "handoff", reason: "" },
+  links: { type: "links", links: [] },
+  call: { type: "call", label: "", phone: "" },
+  quick_replies: { type: "quick_replies", replies: [] },
+  card: { type: "card", card: { title: "", description: "" } },
+  webhook: { type: "webhook", url: "" },
+  end_session: { type: "end_session" },
+};
+
+const splitList = (text: string) => text.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+const splitLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+const optionalNumber = (value: string) => value === "" ? undefined : Number(value);
+
+interface BehaviorRuleEditorProps {
+  index: number;
+  onRemove: () => void;
+}
+
+/**
+ * One behavior rule: how it matches, when it applies, what it answers and which
+ * actions it runs
+ */
+export default function BehaviorRuleEditor({ index, onRemove }: BehaviorRuleEditorProps) {
+  const form = useFormContext();
+  const path = `behaviorRules.${index}`;
+  const matchType: RuleMatchType = form.watch(`${path}.matchType`);
+
+  const { fields: actions, append, remove } = useFieldArray({
+    control: form.control,
+    name: `${path}.actions`,
+  });
+  const actionTypes = (form.watch(`${path}.actions`) as RuleAction[]).map(action => action.type);
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <FormField
+          control={form.control}
+          name={`${path}.name`}
+          render={({ field }) => (
+            <FormItem className="flex-1">
+              <FormControl>
+                <Input placeholder={`Rule ${index + 1}`} className={inputClassName} {...field} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${path}.priority`}
+          render={({ field }) => (
+            <FormItem className="w-24">
+              <FormControl>
+                <Input
+                  type="number"
+                  step={1}
+                  title="Priority: higher runs first"
+                  className={inputClassName}
+                  {...field}
+                  onChange={(e) => field.onChange(Number(e.target.value) || 0)}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${path}.enabled`}
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 pt-2">
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel className="text-neutral-300 text-xs">On</FormLabel>
+            </FormItem>
+          )}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onRemove}
+          className="h-8 w-8 mt-1 text-neutral-400 hover:text-red-500"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name={`${path}.matchType`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-neutral-300">Match</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {(Object.keys(MATCH_TYPES) as RuleMatchType[]).map(type => (
+                    <SelectItem key={type} value={type}>{MATCH_TYPES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${path}.condition`}
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel className="text-neutral-300">Condition</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={MATCH_TYPES[matchType].placeholder}
+                  className={`${inputClassName} resize-none font-mono text-sm`}
+                  rows={2}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription className="text-neutral-500 text-xs">
+                {MATCH_TYPES[matchType].description}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name={`${path}.excludeKeywords`}
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel className="text-neutral-300">Unless the message mentions</FormLabel>
+              <FormControl>
+                <Input
+                  key={(field.value as string[]).join(",")}
+                  placeholder="e.g. chest, breathing"
+                  className={inputClassName}
+                  defaultValue={(field.value as string[]).join(", ")}
+                  onBlur={(e) => field.onChange(splitList(e.target.value))}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        {matchType === "intent" ? (
+          <FormField
+            control={form.control}
+            name={`${path}.intentThreshold`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Similarity threshold</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    className={inputClassName}
+                    {...field}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : matchType !== "exact" && (
+          <FormField
+            control={form.control}
+            name={`${path}.ignoreNegated`}
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0 md:pt-8">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <FormLabel className="text-neutral-300 text-sm font-normal">Ignore negated mentions ("no pain")</FormLabel>
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name={`${path}.session.minUserMessages`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-neutral-300">After patient messages</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Any"
+                  className={inputClassName}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormDescription className="text-neutral-500 text-xs">At least this many earlier messages</FormDescription>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${path}.session.maxUserMessages`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-neutral-300">Until patient messages</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Any"
+                  className={inputClassName}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                />
+              </FormControl>
+              <FormDescription className="text-neutral-500 text-xs">At most this many; 0 for the first message only</FormDescription>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${path}.session.handedOff`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-neutral-300">Handed off</FormLabel>
+              <Select
+                value={field.value === undefined ? "any" : String(field.value)}
+                onValueChange={(value) => field.onChange(value === "any" ? undefined : value === "true")}
+              >
+                <FormControl>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="any">Either</SelectItem>
+                  <SelectItem value="false">Not yet handed off</SelectItem>
+                  <SelectItem value="true">Already handed off</SelectItem>
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name={`${path}.response`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-neutral-300">Response</FormLabel>
+            <FormControl>
+              <Textarea
+                placeholder="e.g. If you have severe pain, please call our nurse line at 555-0100."
+                className={`${inputClassName} resize-none`}
+                rows={3}
+                {...field}
+              />
+            </FormControl>
+            <FormDescription className="text-neutral-500 text-xs">
+              The chatbot will respond with this message. Leave it empty to only run the actions and let the AI answer, unless they show buttons, quick replies or a card.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h5 className="text-sm font-medium text-neutral-300">Actions</h5>
+          <Select
+            value=""
+            onValueChange={(type) => append(NEW_ACTIONS[type as RuleAction["type"]])}
+          >
+            <SelectTrigger className={`${inputClassName} w-48 h-8 text-xs`}>
+              <SelectValue placeholder="Add action…" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACTION_LABELS) as RuleAction["type"][]).map(type => (
+                <SelectItem key={type} value={type} disabled={actionTypes.includes(type)}>
+                  {ACTION_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {actions.map((action, actionIndex) => {
+          const actionPath = `${path}.actions.${actionIndex}`;
+          const type = actionTypes[actionIndex];
+          return (
+            <div key={action.id} className="flex items-start gap-3 bg-neutral-900 border border-neutral-800 rounded-md p-3">
+              <div className="flex-1 space-y-2">
+                <p className="text-xs font-medium text-primary">{ACTION_LABELS[type]}</p>
+                {type === "handoff" && (
+                  <FormField
+                    control={form.control}
+                    name={`${actionPath}.reason`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            placeholder="Reason shown to the care team (defaults to the rule name)"
+                            className={inputClassName}
+                            {...field}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {type === "links" && (
+                  <FormField
+                    control={form.control}
+                    name={`${actionPath}.links`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Nurse line https://www.example-clinic.org/contact"
+                            className={`${inputClassName} resize-none`}
+                            rows={2}
+                            defaultValue={formatLinks(field.value)}
+                            onBlur={(e) => field.onChange(parseLinks(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormDescription className="text-neutral-500 text-xs">
+                          One link per line, with an optional label before the URL
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {type === "call" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`${actionPath}.label`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Call the nurse line" className={inputClassName} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`${actionPath}.phone`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="+1 555 010 2000" className={inputClassName} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+                {type === "quick_replies" && (
+                  <FormField
+                    control={form.control}
+                    name={`${actionPath}.replies`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Textarea
+                            placeholder={"Book an appointment\nTalk to a nurse"}
+                            className={`${inputClassName} resize-none`}
+                            rows={2}
+                            defaultValue={(field.value ?? []).join("\n")}
+                            onBlur={(e) => field.onChange(splitLines(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormDescription className="text-neutral-500 text-xs">
+                          One reply per line; a tapped reply is sent as the patient's next message
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {type === "card" && (
+                  <div className="space-y-2">
+                    <FormField
+                      control={form.control}
+                      name={`${actionPath}.card.title`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Preparing for your colonoscopy" className={inputClassName} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`${actionPath}.card.description`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Textarea
+                              placeholder="What to eat and drink in the two days before"
+                              className={`${inputClassName} resize-none`}
+                              rows={2}
+                              {...field}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      {(["imageUrl", "url"] as const).map(key => (
+                        <FormField
+                          key={key}
+                          control={form.control}
+                          name={`${actionPath}.card.${key}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  placeholder={key === "imageUrl" ? "Image URL (optional)" : "Link URL (optional)"}
+                                  className={inputClassName}
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(e.target.value || undefined)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {type === "webhook" && (
+                  <FormField
+                    control={form.control}
+                    name={`${actionPath}.url`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input placeholder="https://hooks.example.org/aidify" className={inputClassName} {...field} />
+                        </FormControl>
+                        <FormDescription className="text-neutral-500 text-xs">
+                          Receives a JSON POST with the rule name, session and message, with personal details redacted
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {type === "end_session" && (
+                  <p className="text-xs text-neutral-500">
+                    The patient's next message starts a new conversation.
+                  </p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(actionIndex)}
+                className="h-7 w-7 text-neutral-400 hover:text-red-500"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,15 @@
 import { useFormContext } from "react-hook-form";
 import { useFieldArray } from "react-hook-form";
-import { 
-  FormField, 
-  FormItem, 
-  FormLabel, 
-  FormControl, 
-  FormDescription, 
-  FormMessage 
-} from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Plus, Trash2 } from "lucide-react";
-import { BehaviorRule } from "@shared/schema";
+import { Plus } from "lucide-react";
+import { behaviorRuleSchema } from "@shared/schema";
+import FaqEntries from "./faq-entries";
+import BehaviorRuleEditor from "./behavior-rule-editor";
+import RuleTestBench from "./rule-test-bench";
 
 export default function Behavior() {
   const form = useFormContext();
+  const chatbotId = form.getValues("id");
   
   const { fields, append, remove } = useFieldArray({
     control: form.control,
@@ -22,11 +17,21 @@ export default function Behavior() {
   });
 
   const addRule = () => {
-    append({ condition: "", response: "" });
+    append(behaviorRuleSchema.parse({ matchType: "keywords_any", condition: "", response: "" }));
   };
 
   return (
     <div className="space-y-6">
+      {chatbotId ? (
+        <FaqEntries chatbotId={chatbotId} />
+      ) : (
+        <div className="bg-neutral-800 rounded-lg p-6 text-center">
+          <p className="text-neutral-300">
+            Save the basic chatbot information first to add FAQ answers.
+          </p>
+        </div>
+      )}
+
       <div>
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-medium text-white">Message Behavior Rules</h3>
@@ -42,8 +47,8 @@ export default function Behavior() {
         </div>
         
         <p className="text-neutral-400 text-sm mb-6">
-          Define how your chatbot should respond in specific situations. 
-          For example, you can set rules for handling profanity, off-topic questions, or specific keywords.
+          Define how your chatbot should respond in specific situations, such as symptoms that need the care team.
+          The matching rule with the highest priority answers; equal priorities run in list order.
         </p>
         
         {fields.length === 0 ? (
@@ -55,62 +60,13 @@ export default function Behavior() {
         ) : (
           <div className="space-y-6">
             {fields.map((field, index) => (
-              <div key={field.id} className="border border-neutral-800 rounded-lg p-4 space-y-4">
-                <div className="flex justify-between items-center">
-                  <h4 className="text-sm font-medium text-white">Rule {index + 1}</h4>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => remove(index)}
-                    className="h-8 w-8 text-neutral-400 hover:text-red-500"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-                
-                <FormField
-                  control={form.control}
-                  name={`behaviorRules.${index}.condition`}
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-neutral-300">Condition</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., profanity, swear words, help, pricing" 
-                          className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription className="text-neutral-500 text-xs">
-                        When a user message contains this text (case insensitive)
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name={`behaviorRules.${index}.response`}
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-neutral-300">Response</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., I don't respond to that kind of language" 
-                          className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription className="text-neutral-500 text-xs">
-                        The chatbot will respond with this message
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <BehaviorRuleEditor key={field.id} index={index} onRemove={() => remove(index)} />
             ))}
+            {chatbotId ? (
+              <RuleTestBench chatbotId={chatbotId} />
+            ) : (
+              <p className="text-neutral-400 text-sm">Save the chatbot first to test its rules.</p>
+            )}
           </div>
         )}
       </div>
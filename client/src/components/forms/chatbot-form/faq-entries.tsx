@@ -0,0 +1,312 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FaqEntrySummary, FaqImportResult, FaqLink } from "@shared/schema";
+import { Download, Link2, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+const splitLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+// One link per line: "Label https://…" or a bare URL
+export const parseLinks = (text: string): FaqLink[] => splitLines(text).map(line => {
+  const match = line.match(/^(.*?)\s*(https?:\/\/\S+)$/i);
+  return match ? { label: match[1], url: match[2] } : { label: "", url: line };
+});
+export const formatLinks = (links: FaqLink[]) => links.map(link => link.label ? `${link.label} ${link.url}` : link.url).join("\n");
+
+interface FaqEntriesProps {
+  chatbotId: number;
+}
+
+/**
+ * Approved answers the chatbot sends word for word when a patient asks one of the
+ * question variants, instead of generating an answer
+ */
+export default function FaqEntries({ chatbotId }: FaqEntriesProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // null: form closed, "new": adding an entry, otherwise the ID of the entry being edited
+  const [editing, setEditing] = useState<number | "new" | null>(null);
+  const [questions, setQuestions] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [links, setLinks] = useState("");
+
+  const entriesKey = `/api/chatbots/${chatbotId}/faq`;
+
+  const { data: entries, isLoading } = useQuery<FaqEntrySummary[]>({
+    queryKey: [entriesKey],
+  });
+
+  const openForm = (entry?: FaqEntrySummary) => {
+    setQuestions(entry ? entry.questions.join("\n") : "");
+    setAnswer(entry?.answer ?? "");
+    setLinks(entry ? formatLinks(entry.links) : "");
+    setEditing(entry ? entry.id : "new");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { questions: splitLines(questions), answer: answer.trim(), links: parseLinks(links) };
+      if (editing === "new") {
+        await apiRequest("POST", entriesKey, body);
+      } else {
+        await apiRequest("PUT", `/api/faq/${editing}`, body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [entriesKey] });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save FAQ entry",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      await apiRequest("DELETE", `/api/faq/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [entriesKey] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`${entriesKey}/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to import FAQ entries");
+      }
+
+      return await response.json() as FaqImportResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [entriesKey] });
+      const skipped = result.errors.map(error => `row ${error.row}: ${error.message}`).join("; ");
+      toast({
+        title: "FAQ imported",
+        description: `${result.created} added, ${result.updated} updated${skipped ? `. Skipped ${skipped}` : ""}`,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    e.target.value = "";
+  };
+
+  const canSave = splitLines(questions).length > 0 && !!answer.trim();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">FAQ Answers</h3>
+          <p className="text-neutral-400 text-sm mt-1">
+            Approved answers sent word for word when a patient asks one of the questions, checked before
+            behavior rules and without calling the AI model.
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+          >
+            {importMutation.isPending ? <Loader size="sm" className="mr-2" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import CSV
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+            asChild
+          >
+            <a href={`${entriesKey}/export`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          {editing === null && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+              onClick={() => openForm()}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add FAQ
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing !== null && (
+        <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-4">
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Questions</Label>
+            <Textarea
+              placeholder={"What time should I arrive?\nWhen do I need to be at the clinic?"}
+              className={`${inputClassName} resize-none`}
+              rows={3}
+              value={questions}
+              onChange={(e) => setQuestions(e.target.value)}
+            />
+            <p className="text-neutral-500 text-xs">One wording per line. Punctuation, capitalization and small words like "the" are ignored when matching.</p>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Approved answer</Label>
+            <Textarea
+              placeholder="Please arrive 90 minutes before your scheduled procedure."
+              className={`${inputClassName} resize-none`}
+              rows={4}
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Links (optional)</Label>
+            <Textarea
+              placeholder="Parking map https://www.example-clinic.org/parking"
+              className={`${inputClassName} resize-none`}
+              rows={2}
+              value={links}
+              onChange={(e) => setLinks(e.target.value)}
+            />
+            <p className="text-neutral-500 text-xs">One link per line, with an optional label before the URL.</p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setEditing(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="bg-primary hover:bg-primary-dark text-white"
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader size="sm" className="mr-2" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader withText text="Loading FAQ answers..." />
+        </div>
+      ) : !entries || entries.length === 0 ? (
+        <div className="bg-neutral-800 rounded-lg p-6 text-center">
+          <p className="text-neutral-400">
+            No FAQ answers yet. Add the questions patients ask most so they always get your approved wording.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <div key={entry.id} className="border border-neutral-800 rounded-lg p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0 space-y-2">
+                  <div className="flex flex-wrap gap-1">
+                    {entry.questions.map(question => (
+                      <Badge key={question} variant="outline" className="text-primary border-primary/30">
+                        {question}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-neutral-300 text-sm whitespace-pre-line">{entry.answer}</p>
+                  {entry.links.length > 0 && (
+                    <div className="flex flex-wrap gap-3">
+                      {entry.links.map(link => (
+                        <a
+                          key={link.url}
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-xs text-primary hover:underline"
+                        >
+                          <Link2 className="h-3 w-3" />
+                          {link.label || link.url}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-neutral-500 text-xs">
+                    Sent {entry.hitCount} {entry.hitCount === 1 ? "time" : "times"}
+                    {entry.lastHitAt && ` · last ${new Date(entry.lastHitAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-neutral-400 hover:text-white"
+                    onClick={() => openForm(entry)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-neutral-400 hover:text-red-500"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  ConversationFlow,
+  ConversationFlowDefinition,
+  ConversationFlowVersionSummary,
+  FlowNode,
+  FlowNodeType,
+  conversationFlowSchema,
+} from "@shared/schema";
+import { Plus, RotateCcw, Save } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import FlowNodeEditor, { NODE_TYPES, stepLabel } from "./flow-node-editor";
+import FlowMap from "./flow-map";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+const splitList = (text: string) => text.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+
+function newStep(type: FlowNodeType): FlowNode {
+  const id = `step-${nanoid(6)}`;
+  switch (type) {
+    case "message":
+      return { type, id, text: "", buttons: [], next: null };
+    case "question":
+      return { type, id, text: "", answerType: "choice", choices: [{ label: "", next: null }, { label: "", next: null }], next: null };
+    case "branch":
+      return { type, id, conditions: [], defaultNext: null };
+    case "llm":
+      return { type, id };
+    case "handoff":
+      return { type, id, text: "", buttons: [], reason: "" };
+  }
+}
+
+// A step with every link to `removedId` pointing to the end of the flow instead
+function withoutLinksTo(node: FlowNode, removedId: string): FlowNode {
+  const unlink = (next: string | null) => (next === removedId ? null : next);
+  switch (node.type) {
+    case "message":
+      return { ...node, next: unlink(node.next) };
+    case "question":
+      return { ...node, next: unlink(node.next), choices: node.choices.map(choice => ({ ...choice, next: unlink(choice.next) })) };
+    case "branch":
+      return {
+        ...node,
+        defaultNext: unlink(node.defaultNext),
+        conditions: node.conditions.map(condition => ({ ...condition, next: unlink(condition.next) })),
+      };
+    default:
+      return node;
+  }
+}
+
+// "Step 3: Question text is required" for an issue in the flow definition
+function describeIssue(issue: z.ZodIssue): string {
+  const [field, stepIndex] = issue.path;
+  return field === "nodes" && typeof stepIndex === "number" ? `Step ${stepIndex + 1}: ${issue.message}` : issue.message;
+}
+
+interface FlowEditorProps {
+  chatbotId: number;
+}
+
+/**
+ * A chatbot's guided conversation flow: scripted steps that answer patients before
+ * FAQ entries, rules and the assistant. Every save is kept as a version.
+ */
+export default function FlowEditor({ chatbotId }: FlowEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ConversationFlowDefinition | null>(null);
+  const [startKeywords, setStartKeywords] = useState("");
+  const [dirty, setDirty] = useState(false);
+
+  const flowKey = `/api/chatbots/${chatbotId}/flow`;
+  const versionsKey = `${flowKey}/versions`;
+
+  const { data: flow, isLoading } = useQuery<ConversationFlow | null>({
+    queryKey: [flowKey],
+  });
+
+  const { data: versions } = useQuery<ConversationFlowVersionSummary[]>({
+    queryKey: [versionsKey],
+  });
+
+  // Start over from the live version whenever it changes (load, save, restore)
+  useEffect(() => {
+    if (flow === undefined) return;
+    setDraft(flow?.definition ?? null);
+    setStartKeywords(flow?.definition.startKeywords.join(", ") ?? "");
+    setDirty(false);
+  }, [flow]);
+
+  const update = (changes: Partial<ConversationFlowDefinition>) => {
+    setDraft(current => current && { ...current, ...changes });
+    setDirty(true);
+  };
+
+  const createFlow = () => {
+    const first = newStep("question");
+    setDraft({ enabled: true, startOnFirstMessage: false, startKeywords: [], startNodeId: first.id, nodes: [first] });
+    setDirty(true);
+  };
+
+  const addStep = (type: FlowNodeType) => {
+    if (!draft) return;
+    update({ nodes: [...draft.nodes, newStep(type)] });
+  };
+
+  const updateStep = (index: number, node: FlowNode) => {
+    if (!draft) return;
+    update({ nodes: draft.nodes.map((other, i) => i === index ? node : other) });
+  };
+
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    const removedId = draft.nodes[index].id;
+    const nodes = draft.nodes.filter((_, i) => i !== index).map(node => withoutLinksTo(node, removedId));
+    update({
+      nodes,
+      startNodeId: draft.startNodeId === removedId ? nodes[0]?.id ?? "" : draft.startNodeId,
+    });
+  };
+
+  const refreshFlow = () => {
+    queryClient.invalidateQueries({ queryKey: [flowKey] });
+    queryClient.invalidateQueries({ queryKey: [versionsKey] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = conversationFlowSchema.safeParse({ ...draft, startKeywords: splitList(startKeywords) });
+      if (!parsed.success) {
+        throw new Error(describeIssue(parsed.error.issues[0]));
+      }
+      const response = await apiRequest("PUT", flowKey, parsed.data);
+      return await response.json() as ConversationFlow;
+    },
+    onSuccess: (saved) => {
+      refreshFlow();
+      toast({
+        title: "Flow saved",
+        description: `Version ${saved.version} is now live. Conversations already in the flow finish on their version.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save flow",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `${versionsKey}/${version}/restore`);
+    },
+    onSuccess: (_, version) => {
+      refreshFlow();
+      toast({
+        title: "Version restored",
+        description: `Version ${version} was saved as the live flow.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader withText text="Loading flow..." />
+      </div>
+    );
+  }
+
+  if (!draft) {
+    return (
+      <div className="bg-neutral-800 rounded-lg p-6 text-center space-y-3">
+        <p className="text-neutral-300">
+          No flow yet. Build a scripted flow, such as a pre-op checklist or an emergency triage, that asks set questions and branches on the answers.
+        </p>
+        <Button type="button" onClick={createFlow} className="bg-primary hover:bg-primary-dark text-white">
+          <Plus className="mr-2 h-4 w-4" />
+          Create Flow
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="border border-neutral-800 rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-neutral-300">Flow enabled</Label>
+            <p className="text-neutral-500 text-xs">While off, patients chat with the assistant as usual.</p>
+          </div>
+          <Switch checked={draft.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-neutral-300">Start on the patient's first message</Label>
+            <p className="text-neutral-500 text-xs">Otherwise the flow starts when a message contains a start keyword.</p>
+          </div>
+          <Switch checked={draft.startOnFirstMessage} onCheckedChange={(startOnFirstMessage) => update({ startOnFirstMessage })} />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-neutral-300">Start keywords</Label>
+          <Input
+            className={inputClassName}
+            placeholder="checklist, emergency, is this urgent"
+            value={startKeywords}
+            onChange={(e) => {
+              setStartKeywords(e.target.value);
+              setDirty(true);
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-neutral-300">First step</Label>
+          <Select value={draft.startNodeId} onValueChange={(startNodeId) => update({ startNodeId })}>
+            <SelectTrigger className={inputClassName}>
+              <SelectValue placeholder="Choose a step" />
+            </SelectTrigger>
+            <SelectContent>
+              {draft.nodes.map((node, index) => (
+                <SelectItem key={node.id} value={node.id}>{stepLabel(node, index)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {draft.nodes.map((node, index) => (
+          <FlowNodeEditor
+            key={node.id}
+            node={node}
+            index={index}
+            nodes={draft.nodes}
+            isStart={node.id === draft.startNodeId}
+            onChange={(updated) => updateStep(index, updated)}
+            onRemove={() => removeStep(index)}
+          />
+        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-neutral-400 text-sm">Add step:</span>
+          {(Object.keys(NODE_TYPES) as FlowNodeType[]).map(type => (
+            <Button
+              key={type}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => addStep(type)}
+              className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              {NODE_TYPES[type].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-white">Flow Map</h4>
+        <FlowMap flow={draft} />
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {dirty && <span className="text-xs text-amber-400">Unsaved changes</span>}
+        <Button
+          type="button"
+          onClick={() => saveMutation.mutate()}
+          disabled={!dirty || saveMutation.isPending}
+          className="bg-primary hover:bg-primary-dark text-white"
+        >
+          {saveMutation.isPending ? <Loader size="sm" className="mr-2" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Flow
+        </Button>
+      </div>
+
+      {versions && versions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-white">Versions</h4>
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {versions.map(version => (
+              <div key={version.version} className="bg-neutral-800 rounded-lg p-3 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-white text-sm font-medium">Version {version.version}</span>
+                    {version.current && (
+                      <Badge variant="outline" className="text-primary border-primary/30">Live</Badge>
+                    )}
+                  </div>
+                  <p className="text-neutral-400 text-xs">
+                    {version.stepCount} steps · saved {new Date(version.createdAt).toLocaleString()}
+                    {version.creatorName && ` by ${version.creatorName}`}
+                  </p>
+                </div>
+                {!version.current && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-neutral-300 hover:text-white"
+                    onClick={() => restoreMutation.mutate(version.version)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
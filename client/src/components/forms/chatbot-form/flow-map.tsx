@@ -0,0 +1,103 @@
+import { ConversationFlowDefinition, FlowNode } from "@shared/schema";
+import { CornerDownRight, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { NODE_TYPES, OPERATORS } from "./flow-node-editor";
+
+type Edge = { label: string | null; next: string | null };
+
+// Where a step can lead, labelled with the answer or condition that takes that path
+function stepEdges(node: FlowNode, nodes: FlowNode[]): Edge[] {
+  switch (node.type) {
+    case "message":
+      return [{ label: null, next: node.next }];
+    case "question":
+      return node.answerType === "choice" || node.answerType === "yes_no"
+        ? node.choices.map(choice => ({ label: `"${choice.label || "…"}"`, next: choice.next }))
+        : [{ label: "any answer", next: node.next }];
+    case "branch": {
+      const questionNumber = (id: string) => nodes.findIndex(other => other.id === id) + 1;
+      return [
+        ...node.conditions.map(condition => ({
+          label: `if answer ${questionNumber(condition.questionId)} ${OPERATORS[condition.operator]} "${condition.value}"`,
+          next: condition.next,
+        })),
+        { label: "otherwise", next: node.defaultNext },
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * The flow drawn as a tree from its start step. A step reached along several paths is
+ * drawn once; later paths point back to it.
+ */
+export default function FlowMap({ flow }: { flow: ConversationFlowDefinition }) {
+  const positions = new Map(flow.nodes.map((node, index) => [node.id, index]));
+  const drawn = new Set<string>();
+
+  const reachable = new Set<string>();
+  const queue = [flow.startNodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const node = flow.nodes[positions.get(id) ?? -1];
+    if (!node || reachable.has(id)) continue;
+    reachable.add(id);
+    stepEdges(node, flow.nodes).forEach(edge => edge.next && queue.push(edge.next));
+  }
+  const unreachable = flow.nodes.filter(node => !reachable.has(node.id));
+
+  const renderStep = (id: string): JSX.Element => {
+    const index = positions.get(id)!;
+    const node = flow.nodes[index];
+    drawn.add(id);
+    const edges = stepEdges(node, flow.nodes);
+
+    return (
+      <div>
+        <div className="flex items-center gap-2 text-sm text-neutral-200">
+          <Badge variant="outline" className={`${NODE_TYPES[node.type].className} text-[10px] py-0`}>{NODE_TYPES[node.type].label}</Badge>
+          <span className="truncate">{index + 1}. {"text" in node ? node.text : ""}</span>
+        </div>
+        {edges.length > 0 && (
+          <div className="ml-2 mt-1 pl-3 border-l border-neutral-800 space-y-1">
+            {edges.map((edge, i) => (
+              <div key={i}>
+                <div className="flex items-start gap-1 text-xs text-neutral-500">
+                  <CornerDownRight className="h-3 w-3 mt-0.5 shrink-0" />
+                  <span>{edge.label ?? "then"}</span>
+                </div>
+                <div className="ml-4">
+                  {edge.next === null || !positions.has(edge.next) ? (
+                    <span className="text-xs text-neutral-400">End of flow</span>
+                  ) : drawn.has(edge.next) ? (
+                    <span className="flex items-center gap-1 text-xs text-neutral-400">
+                      <Undo2 className="h-3 w-3" />
+                      Go to step {positions.get(edge.next)! + 1}
+                    </span>
+                  ) : (
+                    renderStep(edge.next)
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-lg p-4 space-y-3 overflow-x-auto">
+      {positions.has(flow.startNodeId) ? renderStep(flow.startNodeId) : (
+        <p className="text-sm text-neutral-400">Choose a start step to see the flow.</p>
+      )}
+      {unreachable.length > 0 && (
+        <p className="text-xs text-amber-400">
+          Not reachable from the start: {unreachable.map(node => `step ${positions.get(node.id)! + 1}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
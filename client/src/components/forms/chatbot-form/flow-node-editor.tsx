@@ -0,0 +1,417 @@
+import { FlowAnswerType, FlowCondition, FlowNode, FlowNodeType, MessageButton } from "@shared/schema";
+import { Flag, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+// Select value standing for "no next step"
+const END_OF_FLOW = "__end";
+
+export const NODE_TYPES: Record<FlowNodeType, { label: string; className: string }> = {
+  message: { label: "Message", className: "text-sky-400 border-sky-400/30" },
+  question: { label: "Question", className: "text-primary border-primary/30" },
+  branch: { label: "Branch", className: "text-amber-400 border-amber-400/30" },
+  llm: { label: "AI answers", className: "text-emerald-400 border-emerald-400/30" },
+  handoff: { label: "Hand off", className: "text-red-400 border-red-400/30" },
+};
+
+const ANSWER_TYPES: Record<FlowAnswerType, string> = {
+  choice: "Multiple choice",
+  yes_no: "Yes / No",
+  number: "Number",
+  text: "Free text",
+};
+
+export const OPERATORS: Record<FlowCondition["operator"], string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "contains",
+  greater_than: "is more than",
+  less_than: "is less than",
+};
+
+/**
+ * How a step is named in step selects, e.g. "3. Question: Do you have a fever?"
+ */
+export function stepLabel(node: FlowNode, index: number): string {
+  const text = "text" in node ? node.text.trim() : "";
+  const summary = text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  return `${index + 1}. ${NODE_TYPES[node.type].label}${summary ? `: ${summary}` : ""}`;
+}
+
+interface NextStepSelectProps {
+  value: string | null;
+  nodes: FlowNode[];
+  // The step being edited, left out of its own options
+  ownId: string;
+  onChange: (next: string | null) => void;
+}
+
+function NextStepSelect({ value, nodes, ownId, onChange }: NextStepSelectProps) {
+  return (
+    <Select value={value ?? END_OF_FLOW} onValueChange={(next) => onChange(next === END_OF_FLOW ? null : next)}>
+      <SelectTrigger className={inputClassName}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={END_OF_FLOW}>End of flow</SelectItem>
+        {nodes.map((node, index) => node.id !== ownId && (
+          <SelectItem key={node.id} value={node.id}>{stepLabel(node, index)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface StepButtonsEditorProps {
+  buttons: MessageButton[];
+  onChange: (buttons: MessageButton[]) => void;
+}
+
+// Link and call buttons shown below a message step
+function StepButtonsEditor({ buttons, onChange }: StepButtonsEditorProps) {
+  const updateButton = (buttonIndex: number, button: MessageButton) => {
+    onChange(buttons.map((other, i) => i === buttonIndex ? button : other));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-neutral-300">Buttons</Label>
+      {buttons.map((button, buttonIndex) => (
+        <div key={buttonIndex} className="grid grid-cols-[auto_1fr_1fr_auto] items-center gap-2">
+          <Select
+            value={button.type}
+            onValueChange={(type) => updateButton(buttonIndex, type === "call"
+              ? { type: "call", label: button.label, phone: "" }
+              : { type: "link", label: button.label, url: "" })}
+          >
+            <SelectTrigger className={`${inputClassName} w-24`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="link">Link</SelectItem>
+              <SelectItem value="call">Call</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            className={inputClassName}
+            placeholder={button.type === "call" ? "Call the nurse line" : "Visiting hours"}
+            value={button.label}
+            onChange={(e) => updateButton(buttonIndex, { ...button, label: e.target.value })}
+          />
+          {button.type === "call" ? (
+            <Input
+              className={inputClassName}
+              placeholder="+1 555 010 2000"
+              value={button.phone}
+              onChange={(e) => updateButton(buttonIndex, { ...button, phone: e.target.value })}
+            />
+          ) : (
+            <Input
+              className={inputClassName}
+              placeholder="https://www.example-clinic.org/visit"
+              value={button.url}
+              onChange={(e) => updateButton(buttonIndex, { ...button, url: e.target.value })}
+            />
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(buttons.filter((_, i) => i !== buttonIndex))}
+            className="h-8 w-8 text-neutral-400 hover:text-red-500"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange([...buttons, { type: "link", label: "", url: "" }])}
+        className="text-neutral-300 hover:bg-neutral-800"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add button
+      </Button>
+    </div>
+  );
+}
+
+interface FlowNodeEditorProps {
+  node: FlowNode;
+  index: number;
+  nodes: FlowNode[];
+  isStart: boolean;
+  onChange: (node: FlowNode) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One step of a conversation flow and the steps it leads to
+ */
+export default function FlowNodeEditor({ node, index, nodes, isStart, onChange, onRemove }: FlowNodeEditorProps) {
+  const questions = nodes
+    .map((other, otherIndex) => ({ node: other, index: otherIndex }))
+    .filter(({ node: other }) => other.type === "question");
+
+  const setAnswerType = (answerType: FlowAnswerType) => {
+    if (node.type !== "question") return;
+    const choices = answerType === "yes_no"
+      ? [{ label: "Yes", next: node.choices[0]?.next ?? null }, { label: "No", next: node.choices[1]?.next ?? null }]
+      : answerType === "choice" && node.choices.length === 0
+        ? [{ label: "", next: null }, { label: "", next: null }]
+        : node.choices;
+    onChange({ ...node, answerType, choices });
+  };
+
+  const updateCondition = (conditionIndex: number, updates: Partial<FlowCondition>) => {
+    if (node.type !== "branch") return;
+    onChange({
+      ...node,
+      conditions: node.conditions.map((condition, i) => i === conditionIndex ? { ...condition, ...updates } : condition),
+    });
+  };
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-neutral-400 text-sm">{index + 1}.</span>
+        <Badge variant="outline" className={NODE_TYPES[node.type].className}>{NODE_TYPES[node.type].label}</Badge>
+        {isStart && (
+          <span className="flex items-center gap-1 text-xs text-neutral-400">
+            <Flag className="h-3 w-3" />
+            Start
+          </span>
+        )}
+        <div className="flex-1" />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onRemove}
+          className="h-8 w-8 text-neutral-400 hover:text-red-500"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {(node.type === "message" || node.type === "question" || node.type === "handoff") && (
+        <div className="space-y-2">
+          <Label className="text-neutral-300">
+            {node.type === "question" ? "Question" : node.type === "handoff" ? "Message before handing off" : "Message"}
+          </Label>
+          <Textarea
+            className={`${inputClassName} resize-none`}
+            rows={2}
+            placeholder={node.type === "question" ? "Are you having trouble breathing?" : "Thanks, that helps."}
+            value={node.text}
+            onChange={(e) => onChange({ ...node, text: e.target.value })}
+          />
+        </div>
+      )}
+
+      {(node.type === "message" || node.type === "handoff") && (
+        <StepButtonsEditor buttons={node.buttons} onChange={(buttons) => onChange({ ...node, buttons })} />
+      )}
+
+      {node.type === "message" && (
+        <div className="space-y-2">
+          <Label className="text-neutral-300">Then</Label>
+          <NextStepSelect value={node.next} nodes={nodes} ownId={node.id} onChange={(next) => onChange({ ...node, next })} />
+        </div>
+      )}
+
+      {node.type === "question" && (
+        <>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Answer</Label>
+            <Select value={node.answerType} onValueChange={(value) => setAnswerType(value as FlowAnswerType)}>
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ANSWER_TYPES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(node.answerType === "choice" || node.answerType === "yes_no") ? (
+            <div className="space-y-2">
+              <Label className="text-neutral-300">Choices and where they lead</Label>
+              {node.choices.map((choice, choiceIndex) => (
+                <div key={choiceIndex} className="flex items-center gap-2">
+                  <Input
+                    className={`${inputClassName} w-1/3`}
+                    placeholder={`Choice ${choiceIndex + 1}`}
+                    value={choice.label}
+                    disabled={node.answerType === "yes_no"}
+                    onChange={(e) => onChange({
+                      ...node,
+                      choices: node.choices.map((c, i) => i === choiceIndex ? { ...c, label: e.target.value } : c),
+                    })}
+                  />
+                  <div className="flex-1">
+                    <NextStepSelect
+                      value={choice.next}
+                      nodes={nodes}
+                      ownId={node.id}
+                      onChange={(next) => onChange({
+                        ...node,
+                        choices: node.choices.map((c, i) => i === choiceIndex ? { ...c, next } : c),
+                      })}
+                    />
+                  </div>
+                  {node.answerType === "choice" && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange({ ...node, choices: node.choices.filter((_, i) => i !== choiceIndex) })}
+                      className="h-8 w-8 text-neutral-400 hover:text-red-500"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {node.answerType === "choice" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ ...node, choices: [...node.choices, { label: "", next: null }] })}
+                  className="text-neutral-300 hover:bg-neutral-800"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add choice
+                </Button>
+              )}
+            </div>
+          ) : (
+            <>
+              {node.answerType === "number" && (
+                <div className="flex gap-3">
+                  {(["min", "max"] as const).map(bound => (
+                    <div key={bound} className="space-y-2 flex-1">
+                      <Label className="text-neutral-300">{bound === "min" ? "Lowest accepted" : "Highest accepted"}</Label>
+                      <Input
+                        type="number"
+                        className={inputClassName}
+                        placeholder="Any"
+                        value={node[bound] ?? ""}
+                        onChange={(e) => onChange({ ...node, [bound]: e.target.value === "" ? undefined : Number(e.target.value) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label className="text-neutral-300">Then</Label>
+                <NextStepSelect value={node.next} nodes={nodes} ownId={node.id} onChange={(next) => onChange({ ...node, next })} />
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {node.type === "branch" && (
+        <div className="space-y-2">
+          <Label className="text-neutral-300">Go to the first step whose condition holds</Label>
+          {node.conditions.map((condition, conditionIndex) => (
+            <div key={conditionIndex} className="grid grid-cols-[1fr_auto_1fr_1fr_auto] items-center gap-2">
+              <Select value={condition.questionId} onValueChange={(questionId) => updateCondition(conditionIndex, { questionId })}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue placeholder="Answer to…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {questions.map(question => (
+                    <SelectItem key={question.node.id} value={question.node.id}>{stepLabel(question.node, question.index)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={condition.operator}
+                onValueChange={(operator) => updateCondition(conditionIndex, { operator: operator as FlowCondition["operator"] })}
+              >
+                <SelectTrigger className={`${inputClassName} w-32`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(OPERATORS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className={inputClassName}
+                placeholder="Yes"
+                value={condition.value}
+                onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+              />
+              <NextStepSelect
+                value={condition.next}
+                nodes={nodes}
+                ownId={node.id}
+                onChange={(next) => updateCondition(conditionIndex, { next })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...node, conditions: node.conditions.filter((_, i) => i !== conditionIndex) })}
+                className="h-8 w-8 text-neutral-400 hover:text-red-500"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({
+              ...node,
+              conditions: [...node.conditions, { questionId: questions[0]?.node.id ?? "", operator: "equals", value: "", next: null }],
+            })}
+            className="text-neutral-300 hover:bg-neutral-800"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add condition
+          </Button>
+          <div className="space-y-2 pt-2">
+            <Label className="text-neutral-300">Otherwise</Label>
+            <NextStepSelect value={node.defaultNext} nodes={nodes} ownId={node.id} onChange={(defaultNext) => onChange({ ...node, defaultNext })} />
+          </div>
+        </div>
+      )}
+
+      {node.type === "llm" && (
+        <p className="text-neutral-400 text-sm">
+          The flow ends and the assistant answers the patient's messages as usual from here on.
+        </p>
+      )}
+
+      {node.type === "handoff" && (
+        <div className="space-y-2">
+          <Label className="text-neutral-300">Reason shown to the care team</Label>
+          <Input
+            className={inputClassName}
+            placeholder="Possible emergency from triage"
+            value={node.reason}
+            onChange={(e) => onChange({ ...node, reason: e.target.value })}
+          />
+          <p className="text-neutral-500 text-xs">The conversation is listed under handed off conversations and the flow ends.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useFormContext } from "react-hook-form";
+import FlowEditor from "./flow-editor";
+
+export default function Flows() {
+  const form = useFormContext();
+  const chatbotId = form.getValues("id");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-white mb-2">Conversation Flow</h3>
+        <p className="text-neutral-400 text-sm">
+          Scripted steps for conversations that shouldn't be free-form, such as intake or triage.
+          A running flow answers before FAQ entries and the assistant; behavior rules still catch
+          messages that don't answer the current question.
+        </p>
+      </div>
+
+      {chatbotId ? (
+        <FlowEditor chatbotId={chatbotId} />
+      ) : (
+        <div className="bg-neutral-800 rounded-lg p-6 text-center">
+          <p className="text-neutral-300">
+            Save the basic chatbot information first to build a conversation flow.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
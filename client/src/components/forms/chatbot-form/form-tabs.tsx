@@ -6,6 +6,8 @@ import BasicSetup from "./basic-setup";
 import Intelligence from "./intelligence";
 import Knowledge from "./knowledge";
 import Behavior from "./behavior";
+import Flows from "./flows";
+import Tools from "./tools";
 
 interface FormTabsProps {
   onSubmit: () => void;
@@ -20,6 +22,8 @@ export default function FormTabs({ onSubmit, isSubmitting }: FormTabsProps) {
     { id: "intelligence", label: "Intelligence" },
     { id: "knowledge", label: "Knowledge" },
     { id: "behavior", label: "Behavior" },
+    { id: "flows", label: "Flows" },
+    { id: "tools", label: "Tools" },
   ];
 
   const currentTabIndex = tabs.findIndex(tab => tab.id === activeTab);
@@ -73,6 +77,14 @@ export default function FormTabs({ onSubmit, isSubmitting }: FormTabsProps) {
       <TabsContent value="behavior" className="m-0 pt-2">
         <Behavior />
       </TabsContent>
+      
+      <TabsContent value="flows" className="m-0 pt-2">
+        <Flows />
+      </TabsContent>
+      
+      <TabsContent value="tools" className="m-0 pt-2">
+        <Tools />
+      </TabsContent>
 
       <div className="flex justify-between mt-6 pt-4 border-t border-neutral-800">
         <Button
@@ -8,7 +8,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader } from "@/components/ui/loader";
 import FormTabs from "./form-tabs";
-import { Chatbot, insertChatbotSchema, behaviorRuleSchema } from "@shared/schema";
+import { Chatbot, insertChatbotSchema, behaviorRuleSchema, chatbotToolSchema } from "@shared/schema";
 
 interface ChatbotFormProps {
   chatbotId?: number | null;
@@ -46,8 +46,14 @@ export default function ChatbotForm({ chatbotId, onSuccess }: ChatbotFormProps)
     model: "gpt-3.5-turbo",
     temperature: 70,
     maxTokens: 500,
+    contextTokenBudget: 4000,
+    keywordWeight: 50,
+    monthlyBudgetUsd: null,
+    knowledgeFileLimit: 500,
+    knowledgeStorageLimitMb: 100,
     ragEnabled: true,
     behaviorRules: [],
+    tools: [],
     fallbackResponse: "I'm sorry, I don't have enough information to answer that question.",
     welcomeMessage: "Hello! How can I assist you today?",
     welcomeMessages: ["Hello! How can I assist you today?"],
@@ -71,8 +77,14 @@ export default function ChatbotForm({ chatbotId, onSuccess }: ChatbotFormProps)
         model: chatbotData.model,
         temperature: chatbotData.temperature,
         maxTokens: chatbotData.maxTokens,
+        contextTokenBudget: chatbotData.contextTokenBudget,
+        keywordWeight: chatbotData.keywordWeight,
+        monthlyBudgetUsd: chatbotData.monthlyBudgetUsd,
+        knowledgeFileLimit: chatbotData.knowledgeFileLimit,
+        knowledgeStorageLimitMb: chatbotData.knowledgeStorageLimitMb,
         ragEnabled: chatbotData.ragEnabled,
-        behaviorRules: chatbotData.behaviorRules as z.infer<typeof behaviorRuleSchema>[],
+        behaviorRules: z.array(behaviorRuleSchema).parse(chatbotData.behaviorRules),
+        tools: chatbotData.tools as z.infer<typeof chatbotToolSchema>[],
         fallbackResponse: chatbotData.fallbackResponse || "",
         welcomeMessage: chatbotData.welcomeMessage || "Hello! How can I assist you today?",
         welcomeMessages: chatbotData.welcomeMessages || [chatbotData.welcomeMessage || "Hello! How can I assist you today?"],
@@ -44,7 +44,7 @@ export default function Intelligence() {
                   <span>More Random</span>
                 </div>
                 <FormDescription className="text-neutral-500 text-xs mt-2">
-                  Controls the randomness of the responses. Higher values make the output more creative but potentially less accurate.
+                  Controls the randomness of the responses. Higher values make the output more creative but potentially less accurate. Reasoning models (o-series) ignore this setting.
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -74,6 +74,57 @@ export default function Intelligence() {
               </FormItem>
             )}
           />
+          
+          <FormField
+            control={form.control}
+            name="contextTokenBudget"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Conversation Memory Budget</FormLabel>
+                <FormControl>
+                  <Input 
+                    type="number"
+                    min={500}
+                    max={100000}
+                    step={500}
+                    className="bg-neutral-800 border-neutral-700 text-white focus:ring-primary"
+                    {...field}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription className="text-neutral-500 text-xs">
+                  Maximum number of tokens of earlier conversation sent with each question. Older messages beyond this budget are condensed into a summary.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="monthlyBudgetUsd"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Monthly Budget (USD)</FormLabel>
+                <FormControl>
+                  <Input 
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="No limit"
+                    className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription className="text-neutral-500 text-xs">
+                  Optional spending limit. Once this month's usage passes it, the chatbot replies with its fallback response and admins are alerted.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
       </div>
       
@@ -101,6 +152,39 @@ export default function Intelligence() {
           )}
         />
         
+        {form.watch("ragEnabled") && (
+          <FormField
+            control={form.control}
+            name="keywordWeight"
+            render={({ field }) => (
+              <FormItem className="mt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <FormLabel className="text-neutral-300">Keyword Matching Weight</FormLabel>
+                  <span className="text-neutral-300 text-sm">{field.value}%</span>
+                </div>
+                <FormControl>
+                  <Slider
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={[field.value]}
+                    onValueChange={(vals) => field.onChange(vals[0])}
+                    className="py-4"
+                  />
+                </FormControl>
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span>Meaning</span>
+                  <span>Exact Terms</span>
+                </div>
+                <FormDescription className="text-neutral-500 text-xs mt-2">
+                  How document search balances matching the meaning of a question against exact terms such as drug names and procedure codes. Applies to chatbots without an OpenAI vector store.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        
         <FormField
           control={form.control}
           name="fallbackResponse"
@@ -4,15 +4,23 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Document } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Trash2, FileText, FileArchive, File } from "lucide-react";
+import { Upload, Trash2, FileText, FileArchive, File, Globe } from "lucide-react";
 import { Loader } from "@/components/ui/loader";
 import { cn } from "@/lib/utils";
+import DocumentStatus, { documentsRefetchInterval } from "@/components/documents/document-status";
+import UrlSources from "@/components/documents/url-sources";
+import ChatbotCollections from "@/components/documents/chatbot-collections";
+import KnowledgeUsageMeter, { knowledgeUsageKey } from "@/components/documents/knowledge-usage";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Knowledge() {
   const form = useFormContext();
   const chatbotId = form.getValues("id");
   const { toast } = useToast();
+  const { user } = useAuth();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -21,6 +29,7 @@ export default function Knowledge() {
   const { data: documents, isLoading } = useQuery<Document[]>({
     queryKey: [`/api/chatbots/${chatbotId}/documents`],
     enabled: !!chatbotId,
+    refetchInterval: documentsRefetchInterval,
   });
 
   const uploadMutation = useMutation({
@@ -47,6 +56,7 @@ export default function Knowledge() {
         queryKey: [`/api/chatbots/${chatbotId}/documents`],
         exact: true 
       });
+      queryClient.invalidateQueries({ queryKey: [knowledgeUsageKey(chatbotId)] });
       // Removed toast notification to prevent modal from closing
     },
     onError: (error) => {
@@ -67,6 +77,7 @@ export default function Knowledge() {
         queryKey: [`/api/chatbots/${chatbotId}/documents`],
         exact: true 
       });
+      queryClient.invalidateQueries({ queryKey: [knowledgeUsageKey(chatbotId)] });
       // Removed toast notification to prevent modal from closing
     },
     onError: (error) => {
@@ -125,6 +136,8 @@ export default function Knowledge() {
         return <FileArchive className="text-primary-light" />;
       case "rtf":
         return <FileText className="text-primary-light" />;
+      case "url":
+        return <Globe className="text-primary-light" />;
       default:
         return <File className="text-primary-light" />;
     }
@@ -148,6 +161,57 @@ export default function Knowledge() {
 
   return (
     <div className="space-y-6">
+      <KnowledgeUsageMeter chatbotId={chatbotId} />
+
+      {user?.role === "admin" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="knowledgeFileLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Document Limit</FormLabel>
+                <FormControl>
+                  <Input 
+                    type="number"
+                    min={1}
+                    className="bg-neutral-800 border-neutral-700 text-white focus:ring-primary"
+                    {...field}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription className="text-neutral-500 text-xs">
+                  Maximum number of documents in this chatbot's knowledge base.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="knowledgeStorageLimitMb"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-neutral-300">Storage Limit (MB)</FormLabel>
+                <FormControl>
+                  <Input 
+                    type="number"
+                    min={1}
+                    className="bg-neutral-800 border-neutral-700 text-white focus:ring-primary"
+                    {...field}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormDescription className="text-neutral-500 text-xs">
+                  Uploads that would take the knowledge base past either limit are refused.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+
       <div 
         className={cn(
           "border-2 border-dashed rounded-lg p-8 text-center transition-colors duration-200",
@@ -243,6 +307,10 @@ export default function Knowledge() {
         </div>
       </div>
       
+      <UrlSources chatbotId={chatbotId} />
+
+      <ChatbotCollections chatbotId={chatbotId} />
+
       <div>
         <h4 className="text-sm font-medium text-neutral-300 mb-3">Uploaded Documents</h4>
         
@@ -264,7 +332,19 @@ export default function Knowledge() {
                   </div>
                   <div className="ml-3">
                     <p className="text-white text-sm font-medium">{doc.name}</p>
-                    <p className="text-neutral-300 text-xs">{formatFileSize(doc.size)}</p>
+                    {doc.sourceUrl ? (
+                      <a
+                        href={doc.sourceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-neutral-300 text-xs hover:underline break-all"
+                      >
+                        {doc.sourceUrl}
+                      </a>
+                    ) : (
+                      <p className="text-neutral-300 text-xs">{formatFileSize(doc.size)}</p>
+                    )}
+                    <DocumentStatus document={doc} />
                   </div>
                 </div>
                 <Button 
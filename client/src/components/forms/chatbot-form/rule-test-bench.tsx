@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { BehaviorRule, BehaviorRuleTestResponse, RuleTestMatch } from "@shared/schema";
+import { AlertTriangle, FlaskConical } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader } from "@/components/ui/loader";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+const WARNING_LABELS: Record<BehaviorRuleTestResponse["warnings"][number]["kind"], string> = {
+  shadowed: "Shadowed",
+  overlap: "Overlap",
+  common_words: "Common words",
+  broad_pattern: "Broad pattern",
+};
+
+// The message with the matched parts highlighted
+function HighlightedMessage({ message, match }: { message: string; match?: RuleTestMatch }) {
+  if (!match) {
+    return <span>{message}</span>;
+  }
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  for (const span of match.spans) {
+    if (span.start < position) continue; // overlapping spans, e.g. two keywords in one phrase
+    parts.push(<span key={`t${position}`}>{message.slice(position, span.start)}</span>);
+    parts.push(<mark key={`m${span.start}`} className="bg-primary/30 text-white rounded px-0.5">{message.slice(span.start, span.end)}</mark>);
+    position = span.end;
+  }
+  parts.push(<span key="rest">{message.slice(position)}</span>);
+  return <>{parts}</>;
+}
+
+interface RuleTestBenchProps {
+  chatbotId: number;
+}
+
+/**
+ * Runs sample messages against the rules as currently edited, showing which rule
+ * answers each one, and checks the rules for conflicts
+ */
+export default function RuleTestBench({ chatbotId }: RuleTestBenchProps) {
+  const form = useFormContext();
+  const { toast } = useToast();
+  const [samples, setSamples] = useState("");
+  const [report, setReport] = useState<BehaviorRuleTestResponse | null>(null);
+
+  const rules: BehaviorRule[] = form.watch("behaviorRules");
+  const ruleName = (index: number) => rules[index]?.name || `Rule ${index + 1}`;
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const messages = samples.split("\n").map(line => line.trim()).filter(Boolean);
+      const response = await apiRequest("POST", `/api/chatbots/${chatbotId}/behavior-rules/test`, { rules: form.getValues("behaviorRules"), messages });
+      return await response.json() as BehaviorRuleTestResponse;
+    },
+    onSuccess: setReport,
+    onError: (error) => {
+      toast({
+        title: "Could not test rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="flex items-center gap-2 text-sm font-medium text-white">
+          <FlaskConical className="h-4 w-4 text-primary" />
+          Test Rules
+        </h4>
+        <p className="text-neutral-400 text-xs mt-1">
+          Paste up to 20 sample patient messages to see which rule answers each one. Unsaved changes are included.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-neutral-300">Sample messages</Label>
+        <Textarea
+          placeholder={"I have no pain today\nThe pain is getting worse\nCan I renew my prescription?"}
+          className={`${inputClassName} resize-none`}
+          rows={3}
+          value={samples}
+          onChange={(e) => setSamples(e.target.value)}
+        />
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+          >
+            {testMutation.isPending && <Loader size="sm" className="mr-2" />}
+            {samples.trim() ? "Test and check rules" : "Check rules"}
+          </Button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="space-y-4">
+          {report.warnings.length > 0 ? (
+            <div className="space-y-2">
+              {report.warnings.map((warning, i) => (
+                <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                  <p>
+                    <span className="font-medium">{ruleName(warning.ruleIndex)}</span>
+                    <Badge variant="outline" className="mx-1.5 text-amber-400 border-amber-400/30 text-[10px] py-0">
+                      {WARNING_LABELS[warning.kind]}
+                    </Badge>
+                    {warning.message}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-neutral-500">No conflicts found between the rules.</p>
+          )}
+
+          {report.results.map((result, i) => {
+            const [answering, ...others] = result.matches;
+            return (
+              <div key={i} className="bg-neutral-900 border border-neutral-800 rounded-md p-3 space-y-1.5">
+                <p className="text-sm text-neutral-200">
+                  <HighlightedMessage message={result.message} match={answering} />
+                </p>
+                {answering ? (
+                  <p className="text-xs text-neutral-400">
+                    Answered by <span className="text-primary font-medium">{answering.name}</span>
+                    {" "}(priority {answering.priority}{answering.matchType === "intent" && `, similarity ${answering.score.toFixed(2)}`})
+                    {answering.hasSessionCondition && " · only when its session conditions hold"}
+                  </p>
+                ) : (
+                  <p className="text-xs text-neutral-500">No rule matches; the AI answers.</p>
+                )}
+                {others.length > 0 && (
+                  <p className="text-xs text-neutral-500">
+                    Also matched: {others.map(match => `${match.name} (priority ${match.priority})`).join(", ")}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useFormContext, useFieldArray } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import {
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Loader } from "@/components/ui/loader";
+import { Plus, Trash2 } from "lucide-react";
+import { ChatbotTool } from "@shared/schema";
+
+interface AvailableTool {
+  name: string;
+  label: string;
+  description: string;
+}
+
+const inputClassName = "bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500 focus:ring-primary";
+
+function ClinicHoursSettings({ index }: { index: number }) {
+  const form = useFormContext();
+
+  return (
+    <FormField
+      control={form.control}
+      name={`tools.${index}.config.hours`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-neutral-300">Opening Hours</FormLabel>
+          <FormControl>
+            <Textarea
+              placeholder={"Monday: 8:00 AM - 5:00 PM\nTuesday: 8:00 AM - 5:00 PM\nSaturday: Closed"}
+              className={`${inputClassName} resize-none`}
+              rows={7}
+              {...field}
+              value={field.value || ""}
+            />
+          </FormControl>
+          <FormDescription className="text-neutral-500 text-xs">
+            One line per day, e.g. "Monday: 8:00 AM - 5:00 PM". Other lines are passed along as notes.
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function LocationSettings({ index }: { index: number }) {
+  const form = useFormContext();
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `tools.${index}.config.locations`,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <FormLabel className="text-neutral-300">Locations</FormLabel>
+        <Button
+          type="button"
+          onClick={() => append({ name: "", address: "", postalCode: "", phone: "" })}
+          variant="outline"
+          size="sm"
+          className="bg-transparent border-neutral-700 hover:bg-neutral-800 text-white"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Location
+        </Button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-neutral-500 text-xs">
+          No locations yet. Add the clinics patients can be directed to.
+        </p>
+      ) : (
+        fields.map((field, locationIndex) => (
+          <div key={field.id} className="grid grid-cols-2 gap-3 border border-neutral-800 rounded-lg p-3">
+            {(["name", "address", "postalCode", "phone"] as const).map(key => (
+              <FormField
+                key={key}
+                control={form.control}
+                name={`tools.${index}.config.locations.${locationIndex}.${key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        placeholder={{ name: "Name", address: "Address", postalCode: "Postal code", phone: "Phone (optional)" }[key]}
+                        className={inputClassName}
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <div className="col-span-2 flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(locationIndex)}
+                className="text-neutral-400 hover:text-red-500"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function Tools() {
+  const form = useFormContext();
+  const enabledTools: ChatbotTool[] = form.watch("tools") || [];
+
+  const { data: availableTools, isLoading } = useQuery<AvailableTool[]>({
+    queryKey: ["/api/tools"],
+  });
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    const current: ChatbotTool[] = form.getValues("tools") || [];
+    form.setValue(
+      "tools",
+      enabled ? [...current, { name, config: {} }] : current.filter(tool => tool.name !== name),
+      { shouldDirty: true }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-white mb-4">Tools</h3>
+        <p className="text-neutral-400 text-sm mb-6">
+          Let the chatbot look things up and take actions during a conversation.
+          The chatbot decides when to use an enabled tool based on the user's question.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader size="md" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {(availableTools || []).map(tool => {
+              const index = enabledTools.findIndex(t => t.name === tool.name);
+
+              return (
+                <div key={tool.name} className="rounded-lg border border-neutral-800 p-4 space-y-4">
+                  <div className="flex flex-row items-center justify-between">
+                    <div className="space-y-0.5">
+                      <p className="text-base text-white">{tool.label.replace(/…$/, "")}</p>
+                      <p className="text-sm text-neutral-500">{tool.description}</p>
+                    </div>
+                    <Switch
+                      checked={index !== -1}
+                      onCheckedChange={(checked) => toggleTool(tool.name, checked)}
+                    />
+                  </div>
+
+                  {index !== -1 && tool.name === "clinic_hours" && <ClinicHoursSettings index={index} />}
+                  {index !== -1 && tool.name === "find_nearest_location" && <LocationSettings index={index} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
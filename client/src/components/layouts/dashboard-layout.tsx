@@ -1,6 +1,6 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "wouter";
-import { Loader2, TrendingUp, MessageSquare, Settings, LogOut, FileText, Database, BarChart2, Users } from "lucide-react";
+import { Loader2, TrendingUp, MessageSquare, Settings, LogOut, FileText, Database, BarChart2, Users, ClipboardCheck } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
@@ -82,6 +82,12 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                   <span className="ml-3 hidden md:block">Knowledge Base</span>
                 </Link>
               </li>
+              <li>
+                <Link href="/content-review" className={`flex items-center p-3 rounded-lg text-sm font-medium transition-colors ${isActive("/content-review")}`}>
+                  <ClipboardCheck className="h-5 w-5 stroke-2" />
+                  <span className="ml-3 hidden md:block">Content Review</span>
+                </Link>
+              </li>
               <li>
                 <Link href="/analytics" className={`flex items-center p-3 rounded-lg text-sm font-medium transition-colors ${isActive("/analytics")}`}>
                   <BarChart2 className="h-5 w-5 stroke-2" />
@@ -155,6 +161,10 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             <Database className="h-5 w-5 stroke-2" />
             <span className="text-xs mt-1 font-medium">Knowledge</span>
           </Link>
+          <Link href="/content-review" className={`flex flex-col items-center p-2 rounded-lg transition-colors ${location === "/content-review" ? "text-primary bg-primary/10" : "text-slate-600"}`}>
+            <ClipboardCheck className="h-5 w-5 stroke-2" />
+            <span className="text-xs mt-1 font-medium">Review</span>
+          </Link>
           <Link href="/analytics" className={`flex flex-col items-center p-2 rounded-lg transition-colors ${location === "/analytics" ? "text-primary bg-primary/10" : "text-slate-600"}`}>
             <BarChart2 className="h-5 w-5 stroke-2" />
             <span className="text-xs mt-1 font-medium">Analytics</span>
@@ -7,7 +7,7 @@ import { Form } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Loader } from "@/components/ui/loader";
-import { insertChatbotSchema, behaviorRuleSchema, type Chatbot } from "@shared/schema";
+import { insertChatbotSchema, behaviorRuleSchema, chatbotToolSchema, type Chatbot } from "@shared/schema";
 import FormTabs from "@/components/forms/chatbot-form/form-tabs";
 import ChatbotPreviewWrapper from "./chatbot-preview-wrapper";
 
@@ -42,8 +42,14 @@ export default function ChatbotFormWithPreview({ chatbotId, onSuccess }: Chatbot
     model: "gpt-3.5-turbo",
     temperature: 70,
     maxTokens: 500,
+    contextTokenBudget: 4000,
+    keywordWeight: 50,
+    monthlyBudgetUsd: null,
+    knowledgeFileLimit: 500,
+    knowledgeStorageLimitMb: 100,
     ragEnabled: true,
     behaviorRules: [],
+    tools: [],
     fallbackResponse: "I'm sorry, I don't have enough information to answer that question.",
     welcomeMessage: "Hello! How can I assist you today?",
     welcomeMessages: ["Hello! How can I assist you today?"],
@@ -67,8 +73,14 @@ export default function ChatbotFormWithPreview({ chatbotId, onSuccess }: Chatbot
         model: chatbotData.model,
         temperature: chatbotData.temperature,
         maxTokens: chatbotData.maxTokens,
+        contextTokenBudget: chatbotData.contextTokenBudget,
+        keywordWeight: chatbotData.keywordWeight,
+        monthlyBudgetUsd: chatbotData.monthlyBudgetUsd,
+        knowledgeFileLimit: chatbotData.knowledgeFileLimit,
+        knowledgeStorageLimitMb: chatbotData.knowledgeStorageLimitMb,
         ragEnabled: chatbotData.ragEnabled,
-        behaviorRules: chatbotData.behaviorRules as z.infer<typeof behaviorRuleSchema>[],
+        behaviorRules: z.array(behaviorRuleSchema).parse(chatbotData.behaviorRules),
+        tools: chatbotData.tools as z.infer<typeof chatbotToolSchema>[],
         fallbackResponse: chatbotData.fallbackResponse || "",
         welcomeMessage: chatbotData.welcomeMessage || "Hello! How can I assist you today?",
         welcomeMessages: chatbotData.welcomeMessages || [chatbotData.welcomeMessage || "Hello! How can I assist you today?"],
@@ -1,58 +1,88 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { X, Upload, File, FileText, FileArchive, Trash2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { X, Upload, File, FileText, FileArchive, Folder, Trash2, Check, Copy, AlertCircle } from "lucide-react";
 import { useState, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Document } from "@shared/schema";
+import { BulkImportResult, Document } from "@shared/schema";
 import { Loader } from "@/components/ui/loader";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BULK_UPLOAD_EXTENSIONS, filesFromDataTransfer, isBulkUploadFile, uploadDocumentsBulk } from "@/lib/bulk-upload";
 import { useToast } from "@/hooks/use-toast";
+import DocumentStatus, { documentsRefetchInterval } from "@/components/documents/document-status";
 
 interface DocumentUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  chatbotId: number;
+  // Documents are uploaded to the chatbot, or to the shared collection when one is given
+  chatbotId?: number;
+  collectionId?: number;
 }
 
-export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: DocumentUploadModalProps) {
+// Files sent per request, so a large folder doesn't become one huge upload
+const UPLOAD_BATCH_SIZE = 20;
+
+export default function DocumentUploadModal({ isOpen, onClose, chatbotId, collectionId }: DocumentUploadModalProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  // Bytes sent of each selected file
+  const [sentBytes, setSentBytes] = useState<number[]>([]);
+  const [importResults, setImportResults] = useState<BulkImportResult[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const documentsKey = collectionId
+    ? `/api/knowledge-collections/${collectionId}/documents`
+    : `/api/chatbots/${chatbotId}/documents`;
+
   const { data: documents, isLoading } = useQuery<Document[]>({
-    queryKey: [`/api/chatbots/${chatbotId}/documents`],
-    enabled: isOpen && !!chatbotId,
+    queryKey: [documentsKey],
+    enabled: isOpen && !!(chatbotId || collectionId),
+    refetchInterval: documentsRefetchInterval,
   });
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async (files: File[]) => {
       setUploading(true);
-      const formData = new FormData();
-      formData.append("file", file);
-      
-      const response = await fetch(`/api/chatbots/${chatbotId}/documents`, {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to upload document");
+      setSentBytes(files.map(() => 0));
+      setImportResults([]);
+
+      const results: BulkImportResult[] = [];
+      for (let start = 0; start < files.length; start += UPLOAD_BATCH_SIZE) {
+        const batch = files.slice(start, start + UPLOAD_BATCH_SIZE);
+        const batchResults = await uploadDocumentsBulk(documentsKey, batch, (sent) => {
+          setSentBytes(previous => {
+            const next = [...previous];
+            sent.forEach((bytes, i) => { next[start + i] = bytes; });
+            return next;
+          });
+        });
+        results.push(...batchResults);
+        setImportResults([...results]);
       }
-      
-      return await response.json();
+      return results;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/chatbots/${chatbotId}/documents`] });
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: [documentsKey] });
+      setSelectedFiles([]);
+      setSentBytes([]);
+
+      const count = (status: BulkImportResult["status"]) => results.filter(result => result.status === status).length;
+      const skipped = [
+        count("duplicate") > 0 && `${count("duplicate")} duplicate${count("duplicate") === 1 ? "" : "s"} skipped`,
+        count("rejected") > 0 && `${count("rejected")} rejected`,
+      ].filter(Boolean);
       toast({
-        title: "Document uploaded",
-        description: "Your document has been uploaded and processed successfully.",
+        title: "Documents uploaded",
+        description: `${count("queued")} ${count("queued") === 1 ? "document is" : "documents are"} being processed` +
+          (skipped.length > 0 ? `; ${skipped.join(", ")}.` : "."),
+        variant: count("queued") === 0 && results.length > 0 ? "destructive" : "default",
       });
     },
     onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: [documentsKey] });
       toast({
         title: "Upload failed",
         description: error.message,
@@ -61,6 +91,9 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
     },
     onSettled: () => {
       setUploading(false);
+      if (collectionId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/knowledge-collections"] });
+      }
     }
   });
 
@@ -69,10 +102,15 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
       await apiRequest("DELETE", `/api/documents/${documentId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/chatbots/${chatbotId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: [documentsKey] });
+      if (collectionId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/knowledge-collections"] });
+      }
       toast({
         title: "Document deleted",
-        description: "The document has been removed from your chatbot.",
+        description: collectionId
+          ? "The document has been removed from the collection."
+          : "The document has been removed from your chatbot.",
       });
     },
     onError: (error) => {
@@ -84,31 +122,53 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
     }
   });
 
+  // Adds files to the selection, skipping unsupported types and files already selected
+  const addFiles = (files: File[]) => {
+    const supported = files.filter(isBulkUploadFile);
+    const skipped = files.length - supported.length;
+    if (skipped > 0) {
+      toast({
+        title: `${skipped} ${skipped === 1 ? "file" : "files"} skipped`,
+        description: "Only PDF, DOCX, TXT, RTF and ZIP files can be uploaded.",
+      });
+    }
+
+    setImportResults([]);
+    setSentBytes([]);
+    setSelectedFiles(previous => [
+      ...previous,
+      ...supported.filter(file => !previous.some(selected => selected.name === file.name && selected.size === file.size)),
+    ]);
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      const filesArray = Array.from(event.target.files);
-      setSelectedFiles(filesArray);
+      addFiles(Array.from(event.target.files));
+    }
+    // Allow selecting the same files again
+    event.target.value = "";
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (uploading) return;
+
+    try {
+      addFiles(await filesFromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      toast({
+        title: "Could not read dropped files",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
     }
   };
 
   const handleUpload = async () => {
     if (selectedFiles.length > 0) {
       try {
-        setUploadProgress(0);
-        
-        // Upload files one by one
-        for (let i = 0; i < selectedFiles.length; i++) {
-          const file = selectedFiles[i];
-          await uploadMutation.mutateAsync(file);
-          
-          // Update progress
-          setUploadProgress(Math.round(((i + 1) / selectedFiles.length) * 100));
-        }
-        
-        // Clear selection after all uploads complete
-        setSelectedFiles([]);
-        setUploadProgress(0);
-        
+        await uploadMutation.mutateAsync(selectedFiles);
       } catch (error) {
         // Error is handled in the mutation
       }
@@ -127,6 +187,10 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
     fileInputRef.current?.click();
   };
 
+  const openFolderSelector = () => {
+    folderInputRef.current?.click();
+  };
+
   const getFileIcon = (type: string) => {
     switch(type) {
       case "pdf":
@@ -135,6 +199,8 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
         return <FileArchive className="text-primary-light" />;
       case "rtf":
         return <FileText className="text-primary-light" />;
+      case "zip":
+        return <FileArchive className="text-primary-light" />;
       default:
         return <File className="text-primary-light" />;
     }
@@ -164,25 +230,24 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
         
         <div className="p-6">
           <div 
-            className="border-2 border-dashed border-neutral-700 rounded-lg p-8 text-center bg-neutral-900"
-            onDragOver={(e) => e.preventDefault()}
-            onDrop={(e) => {
+            className={`border-2 border-dashed rounded-lg p-8 text-center bg-neutral-900 ${
+              isDragging ? "border-primary" : "border-neutral-700"
+            }`}
+            onDragOver={(e) => {
               e.preventDefault();
-              if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-                // Filter for supported file types
-                const validFileTypes = [".pdf", ".docx", ".txt", ".rtf"];
-                const filesArray = Array.from(e.dataTransfer.files).filter(file => {
-                  const ext = "." + file.name.split('.').pop()?.toLowerCase();
-                  return validFileTypes.includes(ext);
-                });
-                setSelectedFiles(filesArray);
-              }
+              setIsDragging(true);
             }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
           >
             <div className="space-y-4">
               <Upload className="h-14 w-14 mx-auto text-neutral-500" />
-              <h3 className="text-lg font-medium text-white">Drag files here or click to upload</h3>
-              <p className="text-neutral-400 text-sm">Supports PDF, DOCX, TXT, and RTF files (max 10MB per file)</p>
+              <h3 className="text-lg font-medium text-white">
+                {isDragging ? "Drop your files here" : "Drag files or folders here or click to upload"}
+              </h3>
+              <p className="text-neutral-400 text-sm">
+                Supports PDF, DOCX, TXT, and RTF files (max 10MB per file) and ZIP archives of them
+              </p>
               <div className="flex justify-center space-x-4">
                 <Button 
                   onClick={openFileSelector}
@@ -196,7 +261,25 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
                     type="file"
                     multiple
                     className="hidden"
-                    accept=".pdf,.docx,.txt,.rtf,application/rtf,text/rtf"
+                    accept={`${BULK_UPLOAD_EXTENSIONS.join(",")},application/rtf,text/rtf,application/zip`}
+                    onChange={handleFileChange}
+                    disabled={uploading}
+                  />
+                </Button>
+                <Button
+                  onClick={openFolderSelector}
+                  disabled={uploading}
+                  variant="outline"
+                  className="border-neutral-700 hover:bg-neutral-800 text-white"
+                >
+                  <Folder className="mr-2 h-4 w-4" />
+                  Choose Folder
+                  <input
+                    ref={folderInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    {...{ webkitdirectory: "" }}
                     onChange={handleFileChange}
                     disabled={uploading}
                   />
@@ -210,7 +293,7 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
                     {uploading ? (
                       <>
                         <Loader size="sm" className="mr-2" />
-                        Uploading... {uploadProgress > 0 && `(${uploadProgress}%)`}
+                        Uploading...
                       </>
                     ) : (
                       <>
@@ -222,28 +305,65 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
                 )}
               </div>
               {selectedFiles.length > 0 && (
-                <div className="mt-3 max-h-40 overflow-y-auto bg-neutral-800 rounded-md p-2">
+                <div className="mt-3 max-h-48 overflow-y-auto bg-neutral-800 rounded-md p-2">
+                  <div className="space-y-1">
+                    {selectedFiles.map((file, index) => {
+                      const progress = file.size > 0 ? Math.round(((sentBytes[index] ?? 0) / file.size) * 100) : 0;
+                      return (
+                        <div key={`${file.name}-${index}`} className="text-sm text-neutral-300 p-1 hover:bg-neutral-700 rounded">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-2 min-w-0">
+                              <span>{getFileIcon(file.name.split('.').pop()?.toLowerCase() || '')}</span>
+                              <span className="truncate max-w-xs">{file.name}</span>
+                              <span className="text-xs text-neutral-500">{formatFileSize(file.size)}</span>
+                            </div>
+                            {uploading ? (
+                              <span className="text-xs text-neutral-400 shrink-0">
+                                {progress >= 100 ? <Check className="h-3 w-3 text-green-500" /> : `${progress}%`}
+                              </span>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0 text-neutral-400 hover:text-neutral-200"
+                                onClick={() => {
+                                  const newFiles = [...selectedFiles];
+                                  newFiles.splice(index, 1);
+                                  setSelectedFiles(newFiles);
+                                }}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                          {uploading && <Progress value={progress} className="h-1 mt-1" />}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {importResults.length > 0 && (
+                <div className="mt-3 max-h-48 overflow-y-auto bg-neutral-800 rounded-md p-2 text-left">
                   <div className="space-y-1">
-                    {selectedFiles.map((file, index) => (
-                      <div key={index} className="flex items-center justify-between text-sm text-neutral-300 p-1 hover:bg-neutral-700 rounded">
-                        <div className="flex items-center space-x-2">
-                          <span>{getFileIcon(file.name.split('.').pop() || '')}</span>
-                          <span className="truncate max-w-xs">{file.name}</span>
-                          <span className="text-xs text-neutral-500">{formatFileSize(file.size)}</span>
+                    {importResults.map((result, index) => (
+                      <div key={index} className="flex items-start space-x-2 text-sm p-1">
+                        {result.status === "queued" ? (
+                          <Check className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                        ) : result.status === "duplicate" ? (
+                          <Copy className="h-4 w-4 mt-0.5 shrink-0 text-amber-400" />
+                        ) : (
+                          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-400" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-neutral-200 truncate">
+                            {result.name}
+                            {result.archive && <span className="text-neutral-500"> in {result.archive}</span>}
+                          </p>
+                          <p className="text-xs text-neutral-400">
+                            {result.status === "queued" ? "Queued for processing" : result.message}
+                          </p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 w-6 p-0 text-neutral-400 hover:text-neutral-200"
-                          onClick={() => {
-                            const newFiles = [...selectedFiles];
-                            newFiles.splice(index, 1);
-                            setSelectedFiles(newFiles);
-                          }}
-                          disabled={uploading}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
                       </div>
                     ))}
                   </div>
@@ -274,6 +394,7 @@ export default function DocumentUploadModal({ isOpen, onClose, chatbotId }: Docu
                       <div className="ml-3">
                         <p className="text-white text-sm font-medium">{doc.name}</p>
                         <p className="text-neutral-500 text-xs">{formatFileSize(doc.size)}</p>
+                        <DocumentStatus document={doc} />
                       </div>
                     </div>
                     <Button 
@@ -0,0 +1,98 @@
+import { BulkImportResult } from "@shared/schema";
+
+// Document formats the server accepts, plus ZIP archives of them
+export const BULK_UPLOAD_EXTENSIONS = [".pdf", ".docx", ".txt", ".rtf", ".zip"];
+
+export function isBulkUploadFile(file: File) {
+  const extension = "." + file.name.split(".").pop()?.toLowerCase();
+  return BULK_UPLOAD_EXTENSIONS.includes(extension) && !file.name.startsWith(".");
+}
+
+/**
+ * Files dropped on a drop zone, including the contents of dropped folders
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only expose top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...await readEntry(entry));
+  }
+  return files;
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns folder contents in batches until it returns an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      files.push(...await readEntry(child));
+    }
+  }
+  return files;
+}
+
+/**
+ * Uploads files to a chatbot's or collection's bulk import endpoint in one request
+ * @param documentsPath The chatbot's or collection's documents path, e.g. /api/chatbots/1/documents
+ * @param onProgress Called with the bytes sent of each file, in input order
+ * @returns The server's result for every file (ZIP archives expand to one result per entry)
+ */
+export function uploadDocumentsBulk(
+  documentsPath: string,
+  files: File[],
+  onProgress: (sentBytes: number[]) => void
+): Promise<BulkImportResult[]> {
+  const formData = new FormData();
+  files.forEach(file => formData.append("files", file));
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${documentsPath}/bulk`);
+    xhr.withCredentials = true;
+
+    // Files are sent in order, so overall progress maps onto each file's share of the body
+    xhr.upload.onprogress = (event) => {
+      const total = event.lengthComputable ? event.total : files.reduce((sum, file) => sum + file.size, 0);
+      const scale = total > 0 ? files.reduce((sum, file) => sum + file.size, 0) / total : 1;
+      let remaining = event.loaded * scale;
+      onProgress(files.map(file => {
+        const sent = Math.min(file.size, Math.max(0, remaining));
+        remaining -= file.size;
+        return sent;
+      }));
+    };
+
+    xhr.onload = () => {
+      let body: any;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        body = {};
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(body.results ?? []);
+      } else {
+        reject(new Error(body.message || "Failed to upload documents"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading documents"));
+
+    xhr.send(formData);
+  });
+}
@@ -1,11 +1,16 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import DashboardLayout from "@/components/layouts/dashboard-layout";
+import KnowledgeGaps from "@/components/analytics/knowledge-gaps";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader } from "@/components/ui/loader";
-import { Chatbot } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { BudgetAlert, Chatbot } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 
 interface CareAidStats {
@@ -28,6 +33,31 @@ interface OverallStats {
   }[];
 }
 
+interface CostStats {
+  totalCostUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  chatbotBreakdown: {
+    chatbotId: number;
+    chatbotName: string;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    monthToDateUsd: number;
+    monthlyBudgetUsd: number | null;
+  }[];
+  modelBreakdown: {
+    model: string;
+    responses: number;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+}
+
+const formatUsd = (value: number) => `$${value < 1 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658', '#8dd1e1'];
 
 export default function AnalyticsPage() {
@@ -42,12 +72,28 @@ export default function AnalyticsPage() {
   // Fetch analytics data
   const { data: analyticsData, isLoading: analyticsLoading } = useQuery<{
     overallStats: OverallStats,
-    careAidStats: CareAidStats[]
+    careAidStats: CareAidStats[],
+    costStats: CostStats
   }>({
     queryKey: ['/api/analytics', selectedChatbotId, timeframe],
     enabled: !!selectedChatbotId,
   });
 
+  // Chatbots that went over their monthly budget
+  const { data: budgetAlerts } = useQuery<(BudgetAlert & { chatbotName: string })[]>({
+    queryKey: ['/api/budget-alerts'],
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      const response = await apiRequest("POST", `/api/budget-alerts/${alertId}/acknowledge`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/budget-alerts'] });
+    },
+  });
+
   if (chatbotsLoading || analyticsLoading) {
     return (
       <DashboardLayout>
@@ -60,6 +106,8 @@ export default function AnalyticsPage() {
 
   const overallStats = analyticsData?.overallStats;
   const careAidStats = analyticsData?.careAidStats;
+  const costStats = analyticsData?.costStats;
+  const openBudgetAlerts = budgetAlerts?.filter(alert => !alert.acknowledged) || [];
 
   // Prepare data for charts
   const sessionsData = careAidStats?.map(stat => ({
@@ -103,6 +151,28 @@ export default function AnalyticsPage() {
           </div>
         </div>
 
+        {/* Budget Alerts */}
+        {openBudgetAlerts.map(alert => (
+          <Alert key={alert.id} variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{alert.chatbotName} is over its monthly budget</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                Spent {formatUsd(alert.spentUsd)} of {formatUsd(alert.budgetUsd)} in {alert.period}.
+                It is answering with its fallback response until next month or until the budget is raised.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => acknowledgeMutation.mutate(alert.id)}
+                disabled={acknowledgeMutation.isPending}
+              >
+                Dismiss
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ))}
+
         {/* Overview Cards */}
         <div className="grid gap-4 grid-cols-1 md:grid-cols-3 mb-6">
           <Card>
@@ -148,6 +218,7 @@ export default function AnalyticsPage() {
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="sessions">Sessions</TabsTrigger>
             <TabsTrigger value="queries">Queries</TabsTrigger>
+            <TabsTrigger value="gaps">Knowledge Gaps</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -245,6 +316,10 @@ export default function AnalyticsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="gaps">
+            <KnowledgeGaps chatbots={chatbots || []} timeframe={timeframe} />
+          </TabsContent>
         </Tabs>
         
         {/* Care Aid Specific Stats Table */}
@@ -332,6 +407,74 @@ export default function AnalyticsPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Cost and Usage */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Cost & Usage</CardTitle>
+            <CardDescription>
+              {formatUsd(costStats?.totalCostUsd || 0)} across {(costStats?.inputTokens || 0).toLocaleString()} input
+              and {(costStats?.outputTokens || 0).toLocaleString()} output tokens
+              ({(costStats?.cachedTokens || 0).toLocaleString()} input tokens served from cache)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-neutral-300">
+                    <th className="text-left p-3 text-sm font-medium">Care Aid</th>
+                    <th className="text-right p-3 text-sm font-medium">Input Tokens</th>
+                    <th className="text-right p-3 text-sm font-medium">Output Tokens</th>
+                    <th className="text-right p-3 text-sm font-medium">Cost</th>
+                    <th className="text-right p-3 text-sm font-medium">This Month / Budget</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {costStats?.chatbotBreakdown.map((stat) => (
+                    <tr key={stat.chatbotId} className="border-b border-neutral-300">
+                      <td className="text-left p-3">{stat.chatbotName}</td>
+                      <td className="text-right p-3">{stat.inputTokens.toLocaleString()}</td>
+                      <td className="text-right p-3">{stat.outputTokens.toLocaleString()}</td>
+                      <td className="text-right p-3">{formatUsd(stat.costUsd)}</td>
+                      <td className={`text-right p-3 ${stat.monthlyBudgetUsd !== null && stat.monthToDateUsd >= stat.monthlyBudgetUsd ? 'text-red-500 font-medium' : ''}`}>
+                        {formatUsd(stat.monthToDateUsd)}
+                        {stat.monthlyBudgetUsd !== null ? ` / ${formatUsd(stat.monthlyBudgetUsd)}` : " / No limit"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {costStats && costStats.modelBreakdown.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-neutral-300">
+                      <th className="text-left p-3 text-sm font-medium">Model</th>
+                      <th className="text-right p-3 text-sm font-medium">Responses</th>
+                      <th className="text-right p-3 text-sm font-medium">Input Tokens</th>
+                      <th className="text-right p-3 text-sm font-medium">Output Tokens</th>
+                      <th className="text-right p-3 text-sm font-medium">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {costStats.modelBreakdown.map((stat) => (
+                      <tr key={stat.model} className="border-b border-neutral-300">
+                        <td className="text-left p-3">{stat.model}</td>
+                        <td className="text-right p-3">{stat.responses}</td>
+                        <td className="text-right p-3">{stat.inputTokens.toLocaleString()}</td>
+                        <td className="text-right p-3">{stat.outputTokens.toLocaleString()}</td>
+                        <td className="text-right p-3">{formatUsd(stat.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </DashboardLayout>
   );
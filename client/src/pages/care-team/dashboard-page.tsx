@@ -1,11 +1,11 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { Chatbot } from "@shared/schema";
+import { Chatbot, HandoffSummary } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader } from "@/components/ui/loader";
 import CareTeamLayout from "@/components/layouts/care-team-layout";
-import { MessageSquare, Users, Activity } from "lucide-react";
+import { MessageSquare, Users, Activity, UserRoundCheck } from "lucide-react";
 
 export default function CareTeamDashboardPage() {
   // Get assigned chatbots
@@ -13,6 +13,11 @@ export default function CareTeamDashboardPage() {
     queryKey: ["/api/care-team/chatbots"],
   });
 
+  // Conversations behavior rules handed off to the care team
+  const { data: handoffs } = useQuery<HandoffSummary[]>({
+    queryKey: ["/api/care-team/handoffs"],
+  });
+
   if (isLoading) {
     return (
       <CareTeamLayout>
@@ -49,6 +54,41 @@ export default function CareTeamDashboardPage() {
           <h1 className="text-2xl font-bold text-primary">Patient Care Dashboard</h1>
         </div>
         
+        {handoffs && handoffs.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-white mb-4">Handed Off Conversations</h2>
+            <div className="bg-background-light border border-neutral-800 rounded-lg divide-y divide-neutral-800">
+              {handoffs.map((handoff) => (
+                <div key={`${handoff.chatbotId}-${handoff.sessionId}`} className="flex items-start justify-between gap-4 p-4">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <UserRoundCheck className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white">
+                        {handoff.reason || "Handoff requested"}
+                        <span className="text-neutral-500 font-normal"> · {handoff.chatbotName}</span>
+                      </p>
+                      {handoff.message && (
+                        <p className="text-sm text-neutral-400 truncate">"{handoff.message}"</p>
+                      )}
+                      <p className="text-xs text-neutral-500 font-mono">Session {handoff.sessionId}</p>
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className="text-xs text-neutral-500">{new Date(handoff.handoffAt).toLocaleString()}</span>
+                    <Link
+                      href={`/care-team/logs?chatbotId=${handoff.chatbotId}`}
+                      className="flex items-center text-xs text-neutral-400 hover:text-primary"
+                    >
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      Chat Logs
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="mb-8">
           <h2 className="text-xl font-semibold text-white mb-4">Your Assigned Care Aids</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
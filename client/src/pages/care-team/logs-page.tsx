@@ -22,6 +22,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Chatbot, Message } from "@shared/schema";
 import { Loader } from "@/components/ui/loader";
+import MessageCitations from "@/components/chat/message-citations";
+import MessagePayloadView from "@/components/chat/message-payload";
 import CareTeamLayout from "@/components/layouts/care-team-layout";
 import { formatDate } from "@/lib/utils";
 import { SearchIcon, UserCircle, BotIcon, Filter, Download, ShieldAlert } from "lucide-react";
@@ -435,6 +437,9 @@ export default function CareTeamLogsPage() {
                                 <div className="text-sm whitespace-pre-wrap break-words">
                                   {pair.userMessage.content}
                                 </div>
+                                {pair.userMessage.quickReply && (
+                                  <p className="mt-1 text-xs text-white/70">Selected from the quick replies</p>
+                                )}
                               </div>
                               {pair.userMessage.isUser && (
                                 <UserCircle className="h-8 w-8 text-primary ml-2 mt-0.5 shrink-0" />
@@ -451,6 +456,8 @@ export default function CareTeamLogsPage() {
                                   <div className="text-sm whitespace-pre-wrap break-words">
                                     {pair.botResponse.content}
                                   </div>
+                                  <MessageCitations citations={pair.botResponse.citations} className="text-neutral-300" />
+                                  <MessagePayloadView payload={pair.botResponse.payload} />
                                 </div>
                               </div>
                             </div>
@@ -21,6 +21,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Chatbot, Message } from "@shared/schema";
 import { Loader } from "@/components/ui/loader";
+import MessageCitations from "@/components/chat/message-citations";
+import MessagePayloadView from "@/components/chat/message-payload";
 import DashboardLayout from "@/components/layouts/dashboard-layout";
 import { formatDate } from "@/lib/utils";
 import { SearchIcon, UserCircle, BotIcon, Filter, Download, ShieldAlert } from "lucide-react";
@@ -461,6 +463,9 @@ export default function ChatLogsPage() {
                               <div className="text-gray-800 text-sm whitespace-pre-wrap">
                                 {pair.userMessage.content}
                               </div>
+                              {pair.userMessage.quickReply && (
+                                <p className="mt-1 text-xs text-gray-500">Selected from the quick replies</p>
+                              )}
                             </div>
                           </div>
 
@@ -480,6 +485,8 @@ export default function ChatLogsPage() {
                                 <div className="text-gray-800 text-sm whitespace-pre-wrap">
                                   {pair.botResponse.content}
                                 </div>
+                                <MessageCitations citations={pair.botResponse.citations} className="text-gray-600" />
+                                <MessagePayloadView payload={pair.botResponse.payload} className="max-w-sm" />
                               </div>
                             </div>
                           )}
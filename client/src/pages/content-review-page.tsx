@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DocumentReviewItem } from "@shared/schema";
+import { CalendarX, ClipboardCheck, FileText, User } from "lucide-react";
+import DashboardLayout from "@/components/layouts/dashboard-layout";
+import DocumentReviewDialog, { ReviewableDocument } from "@/components/documents/document-review-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader } from "@/components/ui/loader";
+import { formatDate } from "@/lib/utils";
+
+const SECTIONS: { status: DocumentReviewItem["reviewStatus"]; title: string; description: string }[] = [
+  { status: "overdue", title: "Overdue", description: "Past their review-by date" },
+  { status: "due", title: "Due soon", description: "Review-by date within the next 30 days" },
+  { status: "unscheduled", title: "Not scheduled", description: "Missing a content owner or review-by date" },
+];
+
+const STATUS_BADGE_CLASSES: Record<DocumentReviewItem["reviewStatus"], string> = {
+  overdue: "text-red-400 border-red-400/30",
+  due: "text-amber-400 border-amber-400/30",
+  unscheduled: "text-neutral-300 border-neutral-600",
+};
+
+const toReviewable = (item: DocumentReviewItem): ReviewableDocument => ({
+  id: item.documentId,
+  name: item.name,
+  reviewOwner: item.reviewOwner,
+  effectiveDate: item.effectiveDate,
+  reviewByDate: item.reviewByDate,
+  excludeWhenExpired: item.excludeWhenExpired,
+});
+
+export default function ContentReviewPage() {
+  const [reviewDocument, setReviewDocument] = useState<ReviewableDocument | null>(null);
+
+  const { data: items, isLoading } = useQuery<DocumentReviewItem[]>({
+    queryKey: ["/api/content-review"],
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader size="lg" variant="primary" withText text="Loading review queue..." />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-primary mb-1">Content Review</h1>
+          <p className="text-neutral-300">
+            Documents that are due or overdue for clinical review, or still need an owner and review date
+          </p>
+        </div>
+
+        {!items || items.length === 0 ? (
+          <div className="bg-background-light border border-neutral-800 rounded-lg p-8 text-center">
+            <ClipboardCheck className="h-12 w-12 text-neutral-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-primary mb-2">All content is up to date</h3>
+            <p className="text-neutral-300">No documents are due for review in the next 30 days.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {SECTIONS.map(section => {
+              const sectionItems = items.filter(item => item.reviewStatus === section.status);
+              if (sectionItems.length === 0) return null;
+
+              return (
+                <section key={section.status}>
+                  <div className="flex items-baseline gap-2 mb-3">
+                    <h2 className="text-lg font-semibold text-white">{section.title}</h2>
+                    <Badge variant="outline" className={STATUS_BADGE_CLASSES[section.status]}>
+                      {sectionItems.length}
+                    </Badge>
+                    <span className="text-sm text-neutral-400">{section.description}</span>
+                  </div>
+                  <div className="bg-background-light border border-neutral-800 rounded-lg divide-y divide-neutral-800">
+                    {sectionItems.map(item => (
+                      <div key={item.documentId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4">
+                        <div className="min-w-0 space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <FileText className="h-4 w-4 text-primary shrink-0" />
+                            <span className="font-medium text-white truncate">{item.name}</span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-400">
+                            <Badge variant="outline" className="text-primary border-primary/30">
+                              {item.knowledgeBaseName}
+                            </Badge>
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {item.reviewOwner ?? "No owner"}
+                            </span>
+                            <span>Review by {item.reviewByDate ? formatDate(item.reviewByDate) : "not set"}</span>
+                            {item.effectiveDate && <span>· Effective {formatDate(item.effectiveDate)}</span>}
+                            {item.lastReviewedAt && <span>· Last reviewed {formatDate(item.lastReviewedAt)}</span>}
+                            {item.excluded && (
+                              <Badge variant="outline" className="text-amber-400 border-amber-400/30">
+                                <CalendarX className="mr-1 h-3 w-3" />
+                                Excluded from answers
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0 text-xs text-neutral-300"
+                          onClick={() => setReviewDocument(toReviewable(item))}
+                        >
+                          <ClipboardCheck className="mr-1 h-3 w-3" />
+                          Review
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <DocumentReviewDialog document={reviewDocument} onClose={() => setReviewDocument(null)} />
+    </DashboardLayout>
+  );
+}
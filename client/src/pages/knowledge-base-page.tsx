@@ -20,16 +20,20 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { formatDate } from "@/lib/utils";
-import { File, Search, FileText, Tag } from "lucide-react";
+import { File, Search, FileText, Tag, History, ClipboardCheck } from "lucide-react";
 import { Link } from "wouter";
 import DashboardLayout from "@/components/layouts/dashboard-layout";
 import { Badge } from "@/components/ui/badge";
-import { useToast } from "@/hooks/use-toast";
+import DocumentStatus, { documentsRefetchInterval } from "@/components/documents/document-status";
+import DocumentHistoryDialog from "@/components/documents/document-history-dialog";
+import DocumentReviewDialog from "@/components/documents/document-review-dialog";
+import KnowledgeCollections from "@/components/documents/knowledge-collections";
 
 export default function KnowledgeBasePage() {
-  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCareAid, setSelectedCareAid] = useState<string>("all");
+  const [historyDocumentId, setHistoryDocumentId] = useState<number | null>(null);
+  const [reviewDocumentId, setReviewDocumentId] = useState<number | null>(null);
   
   // Fetch all chatbots/care aids
   const { data: careAids, isLoading: careAidsLoading } = useQuery<Chatbot[]>({
@@ -39,7 +43,12 @@ export default function KnowledgeBasePage() {
   // Fetch all documents
   const { data: allDocuments, isLoading: documentsLoading } = useQuery<Document[]>({
     queryKey: ["/api/documents"],
+    refetchInterval: documentsRefetchInterval,
   });
+
+  // Looked up from the polled list so the dialog shows processing progress
+  const historyDocument = allDocuments?.find(document => document.id === historyDocumentId) ?? null;
+  const reviewDocument = allDocuments?.find(document => document.id === reviewDocumentId) ?? null;
   
   // Filter documents based on search query and selected care aid
   const filteredDocuments = allDocuments?.filter(document => {
@@ -47,13 +56,13 @@ export default function KnowledgeBasePage() {
       document.name.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesCareAid = selectedCareAid === "all" || 
-      document.chatbotId.toString() === selectedCareAid;
+      String(document.chatbotId) === selectedCareAid;
     
     return matchesSearch && matchesCareAid;
   });
   
   // Get care aid name by id
-  const getCareAidNameById = (id: number): string => {
+  const getCareAidNameById = (id: number | null): string => {
     const careAid = careAids?.find(c => c.id === id);
     return careAid ? careAid.name : "Unknown Care Aid";
   };
@@ -103,6 +112,8 @@ export default function KnowledgeBasePage() {
           </div>
         </div>
         
+        <KnowledgeCollections careAids={careAids ?? []} />
+        
         {/* Filters */}
         <div className="bg-background-light border border-neutral-800 rounded-lg p-4 mb-6">
           <div className="flex flex-col md:flex-row gap-4">
@@ -157,7 +168,11 @@ export default function KnowledgeBasePage() {
                 <CardContent className="flex-1">
                   <div className="text-sm text-neutral-300 mb-2">
                     Added on {formatDate(document.createdAt)}
+                    {document.version > 1 && (
+                      <> · Version {document.version}, updated {formatDate(document.uploadedAt ?? document.createdAt)}</>
+                    )}
                   </div>
+                  <DocumentStatus document={document} />
                   <div className="flex items-center mt-3">
                     <Tag className="h-4 w-4 text-primary mr-2" />
                     <Badge variant="outline" className="text-primary border-primary/30">
@@ -176,19 +191,26 @@ export default function KnowledgeBasePage() {
                         View Care Aid
                       </Button>
                     </Link>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-xs text-neutral-300"
-                      onClick={() => {
-                        toast({
-                          title: "Document details",
-                          description: `Filename: ${document.name}, Size: ${document.size} bytes`,
-                        });
-                      }}
-                    >
-                      Details
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-xs text-neutral-300"
+                        onClick={() => setReviewDocumentId(document.id)}
+                      >
+                        <ClipboardCheck className="mr-1 h-3 w-3" />
+                        Review
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-xs text-neutral-300"
+                        onClick={() => setHistoryDocumentId(document.id)}
+                      >
+                        <History className="mr-1 h-3 w-3" />
+                        History
+                      </Button>
+                    </div>
                   </div>
                 </CardFooter>
               </Card>
@@ -206,11 +228,14 @@ export default function KnowledgeBasePage() {
           </div>
         )}
       </div>
+
+      <DocumentHistoryDialog document={historyDocument} onClose={() => setHistoryDocumentId(null)} />
+      <DocumentReviewDialog document={reviewDocument} onClose={() => setReviewDocumentId(null)} />
     </DashboardLayout>
   );
   
   // Helper function to get care aid by id
-  function getCareAidById(id: number): Chatbot | undefined {
+  function getCareAidById(id: number | null): Chatbot | undefined {
     return careAids?.find(c => c.id === id);
   }
 }
\ No newline at end of file
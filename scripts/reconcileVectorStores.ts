@@ -0,0 +1,44 @@
+import { config } from 'dotenv';
+import { llm } from '../server/client';
+import { waitForIngestionQueue } from '../server/ingestion';
+import { reconcileVectorStores, hasDrift, formatReconciliationReport } from '../server/reconciliation';
+
+// Load environment variables
+config();
+
+// Usage: npx tsx scripts/reconcileVectorStores.ts [--repair]
+const repair = process.argv.includes('--repair');
+
+async function reconcile() {
+  try {
+    console.log(`Reconciling vector stores with ${llm.name} provider${repair ? ' (repairing drift)' : ''}...`);
+
+    const report = await reconcileVectorStores({ repair });
+
+    if (!hasDrift(report)) {
+      console.log('No drift found');
+      return;
+    }
+
+    formatReconciliationReport(report).forEach(line => console.log(`- ${line}`));
+    console.log(
+      `Found ${report.orphanedVectorStores.length} orphaned vector store(s), ${report.orphanedFiles.length} orphaned file(s), ` +
+      `${report.orphanedDocuments.length} orphaned document(s), ${report.missingVectorStores.length} missing vector store(s) ` +
+      `and ${report.missingFiles.length} missing file(s)`
+    );
+
+    if (repair) {
+      // Documents queued for re-upload are ingested by this process before it exits
+      await waitForIngestionQueue();
+      console.log(report.errors.length > 0 ? `Repaired with ${report.errors.length} error(s)` : 'Repaired all drift');
+    } else {
+      console.log('Run again with --repair to fix it');
+    }
+  } catch (error) {
+    console.error('Error reconciling vector stores:', error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+reconcile();
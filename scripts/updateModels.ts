@@ -1,7 +1,8 @@
 import { config } from 'dotenv';
 import { db } from '../server/db';
-import { openaiModels } from '../shared/schema';
-import { openai } from '../server/client';
+import { openaiModels, modelPricing } from '../shared/schema';
+import { llm } from '../server/client';
+import { knownContextWindow, knownModelPricing } from '../server/models';
 
 // Load environment variables
 config();
@@ -14,14 +15,14 @@ const ALIAS: Record<string, string> = {
 
 async function updateModels() {
   try {
-    console.log('Fetching models from OpenAI...');
+    console.log(`Fetching models from ${llm.name} provider...`);
     
-    const list = await openai.models.list();
+    const list = await llm.listModels();
     
     // Deduplicate using a Map keyed by canonical ID
     const modelMap = new Map<string, any>();
 
-    list.data
+    list
       .filter(m => 
         !m.id.startsWith('ft-') && 
         (m.id.includes('gpt') || m.id.includes('chat')) &&
@@ -34,9 +35,10 @@ async function updateModels() {
           modelMap.set(canonical, {
             id: canonical,
             created: m.created ?? 0,
-            ownedBy: (m as any).owned_by ?? 'openai',
+            ownedBy: m.ownedBy,
             object: m.object,
             isChat: true,
+            contextWindow: knownContextWindow(canonical),
             updatedAt: new Date(),
           });
         }
@@ -57,6 +59,7 @@ async function updateModels() {
             ownedBy: model.ownedBy,
             object: model.object,
             isChat: model.isChat,
+            contextWindow: model.contextWindow,
             updatedAt: model.updatedAt,
           }
         });
@@ -64,6 +67,20 @@ async function updateModels() {
 
     console.log(`Successfully upserted ${chatModels.length} models to database`);
     
+    // Seed prices for newly cached models; existing rows are kept so manual edits survive
+    let pricedModels = 0;
+    for (const model of chatModels) {
+      const pricing = knownModelPricing(model.id);
+      if (!pricing) continue;
+      
+      await db.insert(modelPricing)
+        .values({ modelId: model.id, ...pricing })
+        .onConflictDoNothing();
+      pricedModels++;
+    }
+    
+    console.log(`Seeded pricing for ${pricedModels} models`);
+    
     // Log model IDs for verification
     console.log('Models updated:', chatModels.map(m => m.id).sort().join(', '));
     
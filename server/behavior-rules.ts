@@ -0,0 +1,320 @@
+import { behaviorRuleSchema, type BehaviorRule, type ChatSession, type Chatbot, type Message, type MessagePayload } from "@shared/schema";
+import { storage } from "./storage";
+import { embeddingBackend, cosineSimilarity, type EmbeddingUsageHandler } from "./retrieval";
+import { normalizeText } from "./retrieval/terms";
+import { redactPII } from "./redaction";
+import { mergePayloads } from "./message-payload";
+import { embeddingUsageRecorder } from "./usage";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+// Intent example embeddings kept between messages; cleared when full
+const MAX_CACHED_EMBEDDINGS = 500;
+// Keyword and regex rules only look at the start of very long messages, bounding the matching time
+const MAX_MATCH_INPUT_LENGTH = 2000;
+// A negation directly before a keyword, e.g. "no pain", "not bleeding", "denies fever".
+// Only the word right before counts: "I can't handle the pain" must still match "pain".
+const NEGATION_BEFORE_MATCH = /\b(no|not|never|without|nor|deny|denies|denied)\s+$/i;
+// Text before a match searched for a negation; enough for the word right before it
+const NEGATION_LOOKBEHIND = 32;
+
+export type RuleMatchSpan = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type RuleMatch = {
+  rule: BehaviorRule;
+  // Position of the rule in the chatbot's list
+  index: number;
+  // Parts of the message that matched; the whole message for exact and intent rules
+  spans: RuleMatchSpan[];
+  // 1 except for intent rules, where it is the best example similarity
+  score: number;
+};
+
+export type RuleSessionState = {
+  // Patient messages sent before the current one
+  userMessageCount: number;
+  handedOff: boolean;
+};
+
+export type RuleOutcome = {
+  response: string;
+  // Buttons, quick replies and cards added by the rule's actions
+  payload: MessagePayload | null;
+  sessionEnded: boolean;
+};
+
+/**
+ * Rules stored on a chatbot, with defaults filled in for rules saved before match
+ * types existed. Rules that no longer validate are skipped.
+ */
+export function parseBehaviorRules(value: unknown): BehaviorRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap(rule => {
+    const parsed = behaviorRuleSchema.safeParse(rule);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * State of a conversation that rule session conditions are checked against
+ */
+export function ruleSessionState(chatSession: ChatSession | undefined, previousMessages: Message[]): RuleSessionState {
+  return {
+    userMessageCount: previousMessages.filter(message => message.isUser).length,
+    handedOff: !!chatSession?.handoffAt,
+  };
+}
+
+/**
+ * Every enabled rule that matches a message, in the order they fire: highest priority
+ * first, then list order. Session conditions are only checked when a state is given.
+ * @param onUsage Receives the usage of provider embeddings for intent rules
+ */
+export async function evaluateBehaviorRules(
+  rules: BehaviorRule[],
+  message: string,
+  state?: RuleSessionState,
+  onUsage?: EmbeddingUsageHandler
+): Promise<RuleMatch[]> {
+  const matches: RuleMatch[] = [];
+  let messageVector: number[] | undefined;
+
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    if (!rule.enabled || !rule.condition.trim() || (state && !meetsSessionCondition(rule, state))) {
+      continue;
+    }
+    if (rule.excludeKeywords.some(keyword => findPhrase(message, keyword, false).length > 0)) {
+      continue;
+    }
+
+    if (rule.matchType === "intent") {
+      messageVector ??= (await embeddingBackend.embed([message], onUsage))[0];
+      const score = await intentScore(rule, messageVector, onUsage);
+      if (score >= rule.intentThreshold) {
+        matches.push({ rule, index, spans: [wholeMessage(message)], score });
+      }
+      continue;
+    }
+
+    const spans = matchSpans(rule, message);
+    if (spans) {
+      matches.push({ rule, index, spans, score: 1 });
+    }
+  }
+
+  return matches.sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index);
+}
+
+/**
+ * The behavior rule that answers a patient message, if any
+ */
+export async function matchBehaviorRule(chatbot: Chatbot, message: string, state: RuleSessionState): Promise<RuleMatch | null> {
+  const rules = parseBehaviorRules(chatbot.behaviorRules);
+  if (rules.length === 0) {
+    return null;
+  }
+  const [match] = await evaluateBehaviorRules(rules, message, state, embeddingUsageRecorder(chatbot.id));
+  return match ?? null;
+}
+
+/**
+ * Name of a rule as shown in logs, handoffs and warnings, e.g. "Rule 3" when unnamed
+ */
+export function ruleDisplayName(rule: BehaviorRule, index: number): string {
+  return rule.name || `Rule ${index + 1}`;
+}
+
+/**
+ * Runs a matched rule's actions and builds the response sent to the patient, with
+ * any buttons, quick replies and cards. Webhooks are called in the background with
+ * PII redacted from the message.
+ */
+export async function applyRuleActions(chatbot: Chatbot, sessionId: string, message: string, match: RuleMatch): Promise<RuleOutcome> {
+  const { rule } = match;
+  const ruleName = ruleDisplayName(rule, match.index);
+  const payload: MessagePayload = { quickReplies: [], buttons: [], cards: [] };
+  let sessionEnded = false;
+
+  for (const action of rule.actions) {
+    switch (action.type) {
+      case "handoff":
+        await storage.saveChatSession({
+          chatbotId: chatbot.id,
+          sessionId,
+          handoffAt: new Date(),
+          handoffReason: action.reason || ruleName,
+        });
+        break;
+      case "links":
+        payload.buttons.push(...action.links.map(link => ({ type: "link" as const, label: link.label || link.url, url: link.url })));
+        break;
+      case "call":
+        payload.buttons.push({ type: "call", label: action.label, phone: action.phone });
+        break;
+      case "quick_replies":
+        payload.quickReplies.push(...action.replies);
+        break;
+      case "card":
+        payload.cards.push(action.card);
+        break;
+      case "webhook":
+        void callWebhook(action.url, {
+          event: "behavior_rule",
+          chatbotId: chatbot.id,
+          chatbotSlug: chatbot.slug,
+          sessionId,
+          rule: ruleName,
+          message: redactPII(message),
+          timestamp: new Date().toISOString(),
+        });
+        break;
+      case "end_session":
+        await storage.saveChatSession({ chatbotId: chatbot.id, sessionId, endedAt: new Date() });
+        sessionEnded = true;
+        break;
+    }
+  }
+
+  return {
+    response: rule.response,
+    payload: mergePayloads(payload),
+    sessionEnded,
+  };
+}
+
+function meetsSessionCondition(rule: BehaviorRule, state: RuleSessionState): boolean {
+  const { minUserMessages, maxUserMessages, handedOff } = rule.session;
+  return (minUserMessages === undefined || state.userMessageCount >= minUserMessages)
+    && (maxUserMessages === undefined || state.userMessageCount <= maxUserMessages)
+    && (handedOff === undefined || state.handedOff === handedOff);
+}
+
+/**
+ * Spans of a keyword, contains, exact or regex rule's match, or null when it doesn't match.
+ * Intent rules need embeddings and always return null here.
+ */
+export function matchSpans(rule: BehaviorRule, message: string): RuleMatchSpan[] | null {
+  switch (rule.matchType) {
+    case "keywords_any": {
+      const spans = splitList(rule.condition).flatMap(keyword => findPhrase(message, keyword, rule.ignoreNegated));
+      return spans.length > 0 ? spans.sort((a, b) => a.start - b.start) : null;
+    }
+    case "keywords_all": {
+      const spans: RuleMatchSpan[] = [];
+      for (const keyword of splitList(rule.condition)) {
+        const found = findPhrase(message, keyword, rule.ignoreNegated);
+        if (found.length === 0) return null;
+        spans.push(...found);
+      }
+      return spans.sort((a, b) => a.start - b.start);
+    }
+    case "contains": {
+      const spans = findAll(message, new RegExp(escapeRegExp(rule.condition), "gi"), rule.ignoreNegated);
+      return spans.length > 0 ? spans : null;
+    }
+    case "exact": {
+      const text = normalizeText(message);
+      return rule.condition.split("\n").some(wording => wording.trim() && normalizeText(wording) === text)
+        ? [wholeMessage(message)]
+        : null;
+    }
+    case "regex": {
+      const spans = findAll(message, new RegExp(rule.condition, "gi"), rule.ignoreNegated);
+      return spans.length > 0 ? spans : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whole-word occurrences of a word or phrase, ignoring case and spacing
+ */
+export function findPhrase(message: string, phrase: string, ignoreNegated: boolean): RuleMatchSpan[] {
+  const words = phrase.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) {
+    return [];
+  }
+  const pattern = words.join("\\s+");
+  const start = /^\w/.test(phrase.trim()) ? "\\b" : "";
+  const end = /\w$/.test(phrase.trim()) ? "\\b" : "";
+  return findAll(message, new RegExp(`${start}${pattern}${end}`, "gi"), ignoreNegated);
+}
+
+function findAll(message: string, pattern: RegExp, ignoreNegated: boolean): RuleMatchSpan[] {
+  const text = message.slice(0, MAX_MATCH_INPUT_LENGTH);
+  const spans: RuleMatchSpan[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Empty matches (e.g. /a*/) would loop forever and match everything
+      pattern.lastIndex++;
+      continue;
+    }
+    const before = text.slice(Math.max(0, match.index - NEGATION_LOOKBEHIND), match.index);
+    if (!(ignoreNegated && NEGATION_BEFORE_MATCH.test(before))) {
+      spans.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+    }
+  }
+  return spans;
+}
+
+const exampleEmbeddings = new Map<string, number[]>();
+
+// Best similarity between the message and the rule's example phrasings
+async function intentScore(rule: BehaviorRule, messageVector: number[], onUsage?: EmbeddingUsageHandler): Promise<number> {
+  const examples = splitLines(rule.condition);
+  const missing = examples.filter(example => !exampleEmbeddings.has(example));
+  if (missing.length > 0) {
+    if (exampleEmbeddings.size + missing.length > MAX_CACHED_EMBEDDINGS) {
+      exampleEmbeddings.clear();
+    }
+    const vectors = await embeddingBackend.embed(missing, onUsage);
+    missing.forEach((example, i) => exampleEmbeddings.set(example, vectors[i]));
+  }
+  return Math.max(0, ...examples.map(example => cosineSimilarity(messageVector, exampleEmbeddings.get(example)!)));
+}
+
+async function callWebhook(url: string, payload: Record<string, unknown>) {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Behavior rule webhook ${url} responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Behavior rule webhook ${url} failed:`, error);
+  }
+}
+
+function wholeMessage(message: string): RuleMatchSpan {
+  return { start: 0, end: message.length, text: message };
+}
+
+/**
+ * Keywords of a keyword rule or excluded words: one per line or comma-separated
+ */
+export function splitList(text: string): string[] {
+  return text.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Wordings of an exact rule or examples of an intent rule: one per line
+ */
+export function splitLines(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
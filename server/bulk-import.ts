@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { pipeline } from "stream/promises";
+import yauzl from "yauzl";
+import type { BulkImportResult, Chatbot, KnowledgeCollection } from "@shared/schema";
+import { storage } from "./storage";
+import { documentTypeOf, isSupportedMimeType } from "./document-text";
+import { enqueueDocument } from "./ingestion";
+import { checkKnowledgeCapacity } from "./knowledge-usage";
+
+const unlink = promisify(fs.unlink);
+const openZip = promisify<string, yauzl.Options, yauzl.ZipFile>(yauzl.open);
+
+// Same limit as single document uploads
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+// Keep a malicious or mistaken archive from filling the disk
+const MAX_ARCHIVE_ENTRIES = 500;
+const MAX_ARCHIVE_EXTRACTED_SIZE = 200 * 1024 * 1024; // 200MB
+
+const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+const UNSUPPORTED_TYPE_MESSAGE = "Invalid file type. Only PDF, DOCX, TXT, and RTF are allowed.";
+
+// Documents are imported into a chatbot's own knowledge base or into a shared collection
+export type ImportTarget = { chatbot: Chatbot } | { collection: KnowledgeCollection };
+
+type ImportFile = {
+  // Name in the upload, or path within the archive
+  name: string;
+  archive?: string;
+  path: string;
+  size: number;
+  // Sent by the browser; files from archives are checked by extension only
+  mimeType?: string;
+};
+
+/**
+ * Imports uploaded files and the documents inside uploaded ZIP archives into a chatbot or collection.
+ * Every file is validated on its own and files whose content matches an existing
+ * document (or an earlier file in the same import) are skipped, so one bad file
+ * doesn't fail the batch. Accepted files are queued for ingestion.
+ * @returns One result per file, in upload order
+ */
+export async function importDocuments(
+  target: ImportTarget,
+  uploads: Express.Multer.File[],
+  uploadedBy: number
+): Promise<BulkImportResult[]> {
+  const existing = "chatbot" in target
+    ? await storage.getDocumentsByChatbotId(target.chatbot.id)
+    : await storage.getDocumentsByCollectionId(target.collection.id);
+
+  // Checksum -> name of the document with that content
+  const checksums = new Map<string, string>();
+  for (const document of existing) {
+    if (document.checksum) checksums.set(document.checksum, document.name);
+  }
+
+  const results: BulkImportResult[] = [];
+  for (const upload of uploads) {
+    if (isZipArchive(upload)) {
+      results.push(...await importArchive(target, upload, checksums, uploadedBy));
+    } else {
+      results.push(await importFile(target, uploadedBy, {
+        name: upload.originalname,
+        path: upload.path,
+        size: upload.size,
+        mimeType: upload.mimetype,
+      }, checksums));
+    }
+  }
+  return results;
+}
+
+/**
+ * SHA-256 of a file's contents
+ */
+export async function fileChecksum(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+function isZipArchive(upload: Express.Multer.File) {
+  return ZIP_MIME_TYPES.includes(upload.mimetype) || path.extname(upload.originalname).toLowerCase() === ".zip";
+}
+
+async function importFile(target: ImportTarget, uploadedBy: number, file: ImportFile, checksums: Map<string, string>): Promise<BulkImportResult> {
+  const result = { name: file.name, archive: file.archive };
+  const fileName = path.posix.basename(file.name);
+  const type = documentTypeOf(fileName);
+
+  try {
+    if (!type || (file.mimeType && !isSupportedMimeType(file.mimeType))) {
+      await removeFile(file.path);
+      return { ...result, status: "rejected", message: UNSUPPORTED_TYPE_MESSAGE };
+    }
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      await removeFile(file.path);
+      return { ...result, status: "rejected", message: "File exceeds the 10MB limit." };
+    }
+    if (file.size === 0) {
+      await removeFile(file.path);
+      return { ...result, status: "rejected", message: "File is empty." };
+    }
+
+    const checksum = await fileChecksum(file.path);
+    const duplicateOf = checksums.get(checksum);
+    if (duplicateOf) {
+      await removeFile(file.path);
+      return { ...result, status: "duplicate", message: `Same content as "${duplicateOf}"` };
+    }
+
+    // Files queued earlier in this import count towards the limits as pending documents.
+    // Collections have no limits of their own.
+    if ("chatbot" in target) {
+      const capacityError = await checkKnowledgeCapacity(target.chatbot, { files: 1, bytes: file.size });
+      if (capacityError) {
+        await removeFile(file.path);
+        return { ...result, status: "rejected", message: capacityError };
+      }
+    }
+
+    const document = await storage.createDocument({
+      chatbotId: "chatbot" in target ? target.chatbot.id : null,
+      collectionId: "collection" in target ? target.collection.id : null,
+      name: fileName,
+      type,
+      content: "",
+      size: file.size,
+      status: "queued",
+      filePath: file.path,
+      checksum,
+      uploadedBy,
+      uploadedAt: new Date(),
+    });
+    checksums.set(checksum, document.name);
+    enqueueDocument(document.id);
+
+    return { ...result, status: "queued", documentId: document.id };
+  } catch (error) {
+    console.error(`Error importing ${file.name}:`, error);
+    await removeFile(file.path);
+    return { ...result, status: "rejected", message: "Failed to process document" };
+  }
+}
+
+// Extracts the archive's files next to it, one at a time, and imports each as it lands
+async function importArchive(
+  target: ImportTarget,
+  archive: Express.Multer.File,
+  checksums: Map<string, string>,
+  uploadedBy: number
+): Promise<BulkImportResult[]> {
+  const results: BulkImportResult[] = [];
+  const reject = (name: string, message: string) => {
+    results.push({ name, archive: archive.originalname, status: "rejected", message });
+  };
+  const rejectArchive = (message: string) => {
+    results.push({ name: archive.originalname, status: "rejected", message });
+  };
+
+  let zip: yauzl.ZipFile | undefined;
+  try {
+    zip = await openZip(archive.path, { lazyEntries: true });
+    if (zip.entryCount > MAX_ARCHIVE_ENTRIES) {
+      rejectArchive(`Archive contains more than ${MAX_ARCHIVE_ENTRIES} entries.`);
+      return results;
+    }
+
+    let extractedSize = 0;
+    for (let entry = await nextEntry(zip); entry; entry = await nextEntry(zip)) {
+      const name = entry.fileName;
+      const fileName = path.posix.basename(name);
+
+      // Folders and OS metadata such as __MACOSX/ and .DS_Store aren't user files
+      if (name.endsWith("/") || name.startsWith("__MACOSX/") || fileName.startsWith(".")) {
+        continue;
+      }
+      if (!documentTypeOf(fileName)) {
+        reject(name, UNSUPPORTED_TYPE_MESSAGE);
+        continue;
+      }
+      if (entry.isEncrypted()) {
+        reject(name, "Encrypted files are not supported.");
+        continue;
+      }
+      if (entry.uncompressedSize > MAX_DOCUMENT_SIZE) {
+        reject(name, "File exceeds the 10MB limit.");
+        continue;
+      }
+      if (extractedSize + entry.uncompressedSize > MAX_ARCHIVE_EXTRACTED_SIZE) {
+        reject(name, "Archive exceeds the 200MB extraction limit.");
+        continue;
+      }
+      extractedSize += entry.uncompressedSize;
+
+      const filePath = path.join(path.dirname(archive.path), `${Date.now()}-${Math.round(Math.random() * 1e9)}-${fileName}`);
+      try {
+        // yauzl checks the extracted size against the entry header
+        await pipeline(await openEntryStream(zip, entry), fs.createWriteStream(filePath));
+      } catch (error: any) {
+        await removeFile(filePath);
+        reject(name, `Could not extract file: ${error?.message || "corrupt entry"}`);
+        continue;
+      }
+
+      results.push(await importFile(target, uploadedBy, {
+        name,
+        archive: archive.originalname,
+        path: filePath,
+        size: entry.uncompressedSize,
+      }, checksums));
+    }
+  } catch (error: any) {
+    console.error(`Error reading archive ${archive.originalname}:`, error);
+    rejectArchive(`Could not read ZIP archive: ${error?.message || "invalid archive"}`);
+  } finally {
+    zip?.close();
+    await removeFile(archive.path);
+  }
+
+  return results;
+}
+
+// Reads the next entry of a lazily read archive; null at the end
+function nextEntry(zip: yauzl.ZipFile): Promise<yauzl.Entry | null> {
+  return new Promise((resolve, reject) => {
+    const onEntry = (entry: yauzl.Entry) => { cleanup(); resolve(entry); };
+    const onEnd = () => { cleanup(); resolve(null); };
+    const onError = (error: Error) => { cleanup(); reject(error); };
+    const cleanup = () => {
+      zip.off("entry", onEntry);
+      zip.off("end", onEnd);
+      zip.off("error", onError);
+    };
+
+    zip.on("entry", onEntry);
+    zip.on("end", onEnd);
+    zip.on("error", onError);
+    zip.readEntry();
+  });
+}
+
+function openEntryStream(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<NodeJS.ReadableStream> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => (error ? reject(error) : resolve(stream)));
+  });
+}
+
+async function removeFile(filePath: string) {
+  try {
+    await unlink(filePath);
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      console.error("Error deleting file:", error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { Chatbot, Message, MessagePayload } from "@shared/schema";
+import { storage } from "./storage";
+import { faqAnswerText, matchFaq } from "./faq";
+import { applyRuleActions, matchBehaviorRule, ruleDisplayName, ruleSessionState } from "./behavior-rules";
+import { answerFlow, type FlowReply } from "./flows";
+
+export type PresetAnswer = {
+  content: string;
+  // Stored on the bot message to record where the answer came from, with the
+  // quick replies, buttons and cards shown under it
+  fields: { faqEntryId: number } | { behaviorRule: string; payload: MessagePayload | null } | { flowNode: string; payload: MessagePayload | null };
+  // A rule action ended the conversation
+  sessionEnded: boolean;
+};
+
+/**
+ * Answers a patient message with approved content instead of a model call: the
+ * conversation flow when one is running or starts, then a matching FAQ entry, then
+ * the highest-priority behavior rule, whose actions run here. Used by both the
+ * regular and the streaming chat endpoints.
+ * @param previousMessages The session's messages before this one
+ * @returns null when the message needs a generated answer
+ */
+export async function findPresetAnswer(
+  chatbot: Chatbot,
+  sessionId: string,
+  message: string,
+  previousMessages: Message[]
+): Promise<PresetAnswer | null> {
+  const chatSession = await storage.getChatSession(chatbot.id, sessionId);
+
+  // A message that doesn't answer the current flow question still goes to the
+  // behavior rules, so an urgent symptom reaches the care team; otherwise the
+  // question is asked again
+  const flowReply = await answerFlow(chatbot, sessionId, chatSession, message, previousMessages);
+  if (flowReply && !flowReply.invalid) {
+    return flowAnswer(flowReply);
+  }
+
+  if (!flowReply) {
+    const faqMatch = await matchFaq(chatbot.id, message);
+    if (faqMatch) {
+      console.log(`FAQ hit for chatbot ${chatbot.id}: entry ${faqMatch.entry.id} ("${faqMatch.question}", score ${faqMatch.score.toFixed(2)})`);
+      return {
+        content: faqAnswerText(faqMatch.entry),
+        fields: { faqEntryId: faqMatch.entry.id },
+        sessionEnded: false,
+      };
+    }
+  }
+
+  const ruleMatch = await matchBehaviorRule(chatbot, message, ruleSessionState(chatSession, previousMessages));
+  if (ruleMatch) {
+    const behaviorRule = ruleDisplayName(ruleMatch.rule, ruleMatch.index);
+    console.log(`Behavior rule hit for chatbot ${chatbot.id}: "${behaviorRule}" (${ruleMatch.rule.matchType}, priority ${ruleMatch.rule.priority})`);
+    const outcome = await applyRuleActions(chatbot, sessionId, message, ruleMatch);
+    // A rule without a response or buttons only runs its actions and lets the model answer
+    if (outcome.response.trim() || outcome.payload || outcome.sessionEnded) {
+      return {
+        content: outcome.response,
+        fields: { behaviorRule, payload: outcome.payload },
+        sessionEnded: outcome.sessionEnded,
+      };
+    }
+  }
+
+  return flowReply && flowAnswer(flowReply);
+}
+
+function flowAnswer(reply: FlowReply): PresetAnswer {
+  return {
+    content: reply.content,
+    fields: { flowNode: reply.nodeId, payload: reply.payload },
+    sessionEnded: false,
+  };
+}
@@ -1,6 +1,4 @@
-import OpenAI from "openai";
+import { createLLMProvider } from "./llm";
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  // organization: process.env.OPENAI_ORG_ID, // optional
-});
\ No newline at end of file
+// Shared LLM provider, selected with LLM_PROVIDER (defaults to OpenAI)
+export const llm = createLLMProvider();
@@ -0,0 +1,109 @@
+import type { Document, DocumentReviewItem, User } from "@shared/schema";
+import { storage } from "./storage";
+import { excludeFromRetrieval, isExpired, restoreToRetrieval } from "./ingestion";
+
+// Documents whose review-by date falls within this many days are listed as due
+export const REVIEW_DUE_WINDOW_DAYS = 30;
+// How often the scheduler looks for documents that have just expired
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Documents the user can review that are overdue, due within the review window, or
+ * still missing an owner or review-by date; overdue documents first
+ */
+export async function getReviewQueue(user: User): Promise<DocumentReviewItem[]> {
+  const [chatbots, collections] = await Promise.all([
+    user.role === 'admin' ? storage.getAllChatbots() : storage.getChatbots(user.id),
+    user.role === 'admin' ? storage.getAllKnowledgeCollections() : storage.getKnowledgeCollections(user.id),
+  ]);
+  const chatbotNames = new Map(chatbots.map(chatbot => [chatbot.id, chatbot.name]));
+  const collectionNames = new Map(collections.map(collection => [collection.id, collection.name]));
+
+  const now = new Date();
+  const dueBy = new Date(now.getTime() + REVIEW_DUE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const documents = await storage.getDocumentsDueForReview(Array.from(chatbotNames.keys()), Array.from(collectionNames.keys()), dueBy);
+
+  const statusOrder = { overdue: 0, due: 1, unscheduled: 2 };
+  return documents
+    .map(document => ({
+      documentId: document.id,
+      name: document.name,
+      chatbotId: document.chatbotId,
+      collectionId: document.collectionId,
+      knowledgeBaseName: (document.collectionId
+        ? collectionNames.get(document.collectionId)
+        : chatbotNames.get(document.chatbotId!)) ?? "Unknown",
+      reviewOwner: document.reviewOwner,
+      effectiveDate: document.effectiveDate?.toISOString() ?? null,
+      reviewByDate: document.reviewByDate?.toISOString() ?? null,
+      lastReviewedAt: document.lastReviewedAt?.toISOString() ?? null,
+      excludeWhenExpired: document.excludeWhenExpired,
+      excluded: !!document.excludedAt,
+      reviewStatus: reviewStatus(document, now, dueBy),
+    }))
+    .sort((a, b) => statusOrder[a.reviewStatus] - statusOrder[b.reviewStatus]);
+}
+
+/**
+ * Brings a document's retrieval in line with its review dates: an expired document
+ * set to leave retrieval is excluded, and an excluded one that is no longer expired
+ * (e.g. after its review-by date was moved) is restored
+ */
+export async function applyReviewState(document: Document): Promise<Document | undefined> {
+  if (document.status !== "ready") {
+    // The ingestion worker checks expiry before uploading or indexing
+    return document;
+  }
+  if (isExpired(document) && !document.excludedAt) {
+    return await excludeFromRetrieval(document);
+  }
+  if (!isExpired(document) && document.excludedAt) {
+    return await restoreToRetrieval(document);
+  }
+  return document;
+}
+
+/**
+ * Re-approves a document's content: records the reviewer, sets the next review-by
+ * date and returns the document to retrieval if it was excluded
+ */
+export async function approveDocument(
+  document: Document,
+  reviewer: User,
+  approval: { reviewByDate: Date; effectiveDate?: Date | null }
+): Promise<Document | undefined> {
+  const approved = await storage.updateDocument(document.id, {
+    ...approval,
+    lastReviewedAt: new Date(),
+    lastReviewedBy: reviewer.id,
+  });
+  return approved && await applyReviewState(approved);
+}
+
+/**
+ * Periodically takes documents out of retrieval once they pass their review-by date
+ */
+export function startContentReviewScheduler() {
+  const run = () => {
+    excludeExpiredDocuments().catch(error => console.error("Error excluding expired documents:", error));
+  };
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+  setTimeout(run, 2 * 60 * 1000).unref();
+}
+
+async function excludeExpiredDocuments() {
+  const expired = await storage.getExpiredSearchableDocuments(new Date());
+  if (expired.length > 0) {
+    console.log(`Excluding ${expired.length} document(s) past their review date from retrieval`);
+  }
+  for (const document of expired) {
+    await excludeFromRetrieval(document);
+  }
+}
+
+// Documents without an owner are listed as unscheduled until their review-by date comes close
+function reviewStatus(document: Document, now: Date, dueBy: Date): DocumentReviewItem["reviewStatus"] {
+  if (document.reviewByDate && document.reviewByDate <= now) return "overdue";
+  if (document.reviewByDate && document.reviewByDate <= dueBy) return "due";
+  return "unscheduled";
+}
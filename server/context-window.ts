@@ -0,0 +1,148 @@
+import type { Chatbot, Message } from "@shared/schema";
+import { storage } from "./storage";
+import { createResponseWithFallback } from "./openai-responses";
+import { getContextWindow } from "./models";
+import { recordModelUsage } from "./usage";
+
+type HistoryMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type ContextWindow = {
+  // Rolling summary of turns that no longer fit the budget, if any
+  summary: string | null;
+  // Most recent turns that fit the budget, oldest first
+  messages: HistoryMessage[];
+  // True when older turns were left out (summarized) of this request
+  truncated: boolean;
+};
+
+// Average characters per token for English text with OpenAI tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role and formatting tokens added around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Never let the summary take more than this share of the budget
+const SUMMARY_SHARE = 0.25;
+
+/**
+ * Estimates the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function messageTokens(message: { content: string }): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Computes the history budget for a chatbot: its configured budget, capped so that
+ * system prompt + history + answer still fit the model's context window.
+ */
+async function historyBudget(chatbot: Chatbot, model: string): Promise<number> {
+  const contextWindow = await getContextWindow(model);
+  const reserved = estimateTokens(chatbot.systemPrompt || "") + chatbot.maxTokens;
+  return Math.max(0, Math.min(chatbot.contextTokenBudget, contextWindow - reserved));
+}
+
+/**
+ * Builds the conversation context for the next request.
+ * The most recent turns are kept verbatim within the chatbot's token budget; older
+ * turns are folded into a rolling summary stored on the chat session.
+ * @param chatbot Chatbot being chatted with
+ * @param sessionId Conversation session ID
+ * @param history Prior messages in the session, oldest first (excluding the new turn)
+ * @param model Model that will answer, used for its context window
+ */
+export async function buildContextWindow(
+  chatbot: Chatbot,
+  sessionId: string,
+  history: Message[],
+  model: string
+): Promise<ContextWindow> {
+  const session = await storage.getChatSession(chatbot.id, sessionId);
+  const summarizedThrough = session?.summarizedThroughMessageId ?? 0;
+  let summary = session?.summary ?? null;
+
+  const budget = await historyBudget(chatbot, model);
+  const unsummarized = history.filter(msg => msg.id > summarizedThrough && msg.content.trim() !== "");
+
+  // Keep turns from newest to oldest until the budget is spent
+  let remaining = budget - (summary ? Math.min(estimateTokens(summary), budget * SUMMARY_SHARE) : 0);
+  let firstKept = unsummarized.length;
+  while (firstKept > 0 && messageTokens(unsummarized[firstKept - 1]) <= remaining) {
+    remaining -= messageTokens(unsummarized[firstKept - 1]);
+    firstKept--;
+  }
+
+  const overflow = unsummarized.slice(0, firstKept);
+  const recent = unsummarized.slice(firstKept);
+
+  if (overflow.length > 0) {
+    try {
+      summary = await summarizeConversation(chatbot, summary, overflow, model, Math.floor(budget * SUMMARY_SHARE));
+      await storage.saveChatSession({
+        chatbotId: chatbot.id,
+        sessionId,
+        summary,
+        summarizedThroughMessageId: overflow[overflow.length - 1].id,
+      });
+    } catch (error) {
+      // Drop the overflow for this request and try summarizing again next turn
+      console.error("Error summarizing conversation history:", error);
+    }
+  }
+
+  return {
+    summary,
+    messages: recent.map(msg => ({
+      role: msg.isUser ? "user" : "assistant",
+      content: msg.content,
+    })),
+    truncated: summarizedThrough > 0 || overflow.length > 0,
+  };
+}
+
+/**
+ * Folds older turns into the rolling conversation summary, billed to the chatbot
+ */
+async function summarizeConversation(
+  chatbot: Chatbot,
+  previousSummary: string | null,
+  messages: Message[],
+  model: string,
+  maxTokens: number
+): Promise<string> {
+  const transcript = messages
+    .map(msg => `${msg.isUser ? "User" : "Assistant"}: ${msg.content}`)
+    .join("\n");
+
+  const response = await createResponseWithFallback({
+    model,
+    instructions:
+      "You maintain a running summary of a conversation between a patient and a healthcare assistant. " +
+      "Update the summary with the new messages. Keep facts the assistant needs to continue the conversation " +
+      "(questions asked, answers given, stated preferences and circumstances). Be concise and factual.",
+    input: [
+      {
+        role: "user",
+        content: `Current summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    max_output_tokens: Math.max(maxTokens, 64),
+  });
+  await recordModelUsage(chatbot.id, "summary", model, response.usage);
+
+  return response.output_text.trim() || previousSummary || "";
+}
+
+/**
+ * Appends the conversation summary to the system prompt
+ */
+export function withConversationSummary(systemPrompt: string | undefined, summary: string | null): string | undefined {
+  if (!summary) {
+    return systemPrompt;
+  }
+  return `${systemPrompt ? `${systemPrompt}\n\n` : ""}Summary of the earlier conversation:\n${summary}`;
+}
@@ -0,0 +1,553 @@
+import crypto from "crypto";
+import dns from "dns/promises";
+import net from "net";
+import { parse, HTMLElement, Node, NodeType, TextNode } from "node-html-parser";
+import type { Document, UrlSource } from "@shared/schema";
+import { storage } from "./storage";
+import { enqueueDocument, removeDocument, supersedeVectorStoreFile } from "./ingestion";
+
+const USER_AGENT = "AidifyCrawler/1.0";
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_PAGES_PER_CRAWL = 200;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_REDIRECTS = 5;
+// Pause between requests so a crawl doesn't hammer the site
+const CRAWL_DELAY_MS = 200;
+// How often the scheduler looks for sources due a re-crawl
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+
+// Links to these are never pages worth fetching
+const NON_PAGE_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|rar|jpe?g|png|gif|webp|svg|ico|mp3|mp4|mov|avi|css|js|json|xml|woff2?|ttf)$/i;
+
+// Page chrome that isn't content; removed before the text is extracted
+const BOILERPLATE_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form", "button",
+  "nav", "header", "footer", "aside",
+  "[role=navigation]", "[role=banner]", "[role=contentinfo]", "[role=complementary]", "[role=search]",
+  "[aria-hidden=true]", "[hidden]",
+].join(", ");
+const BOILERPLATE_CLASS = /(^|[\s_-])(nav|navbar|navigation|menu|breadcrumbs?|sidebar|footer|header|cookie|consent|banner|skip|social|share|pagination)([\s_-]|$)/i;
+
+const BLOCK_TAGS = new Set([
+  "html", "body", "main", "article", "section", "div", "p", "ul", "ol", "dl", "dt", "dd",
+  "table", "thead", "tbody", "blockquote", "pre", "figure", "figcaption", "address", "details", "summary", "hr",
+]);
+
+export type ExtractedPage = {
+  title: string;
+  // Page text as Markdown-style paragraphs, with headings marked by "#"
+  content: string;
+  // Absolute http(s) links found anywhere on the page, including its navigation
+  links: string[];
+};
+
+export type CrawlSummary = {
+  pages: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+};
+
+// Raised for pages that no longer exist (404/410), which removes their documents
+class PageGoneError extends Error {
+  constructor(url: string) {
+    super(`Page not found: ${url}`);
+    this.name = "PageGoneError";
+  }
+}
+
+// Sources being crawled right now
+const activeCrawls = new Set<number>();
+
+export function isCrawling(sourceId: number) {
+  return activeCrawls.has(sourceId);
+}
+
+/**
+ * Crawls a URL source and syncs its pages into the chatbot's documents: new pages are
+ * added, pages whose text changed are replaced and re-indexed, and pages that are gone
+ * or no longer match the source's settings are removed. Failures are recorded on the source.
+ * @returns The crawl counts, or undefined if the source is missing, already crawling or the crawl failed
+ */
+export async function crawlUrlSource(sourceId: number): Promise<CrawlSummary | undefined> {
+  if (activeCrawls.has(sourceId)) {
+    return;
+  }
+  activeCrawls.add(sourceId);
+
+  try {
+    const source = await storage.getUrlSource(sourceId);
+    if (!source) {
+      return;
+    }
+
+    await storage.updateUrlSource(sourceId, { status: "crawling", error: null });
+    const summary = await syncPages(source);
+    await storage.updateUrlSource(sourceId, {
+      status: "idle",
+      pageCount: summary.pages,
+      lastCrawledAt: new Date(),
+    });
+
+    console.log(`Crawled ${source.url}: ${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.removed} removed`);
+    return summary;
+  } catch (error: any) {
+    console.error(`Error crawling URL source ${sourceId}:`, error);
+    await storage.updateUrlSource(sourceId, {
+      status: "failed",
+      error: error?.message || "Crawl failed",
+      // Counts as an attempt, so the scheduler waits a full interval before trying again
+      lastCrawledAt: new Date(),
+    }).catch(() => {});
+  } finally {
+    activeCrawls.delete(sourceId);
+  }
+}
+
+/**
+ * Deletes a URL source and the documents crawled from it
+ */
+export async function removeUrlSource(source: UrlSource) {
+  for (const document of await storage.getDocumentsByUrlSource(source.id)) {
+    await removeDocument(document);
+  }
+  await storage.deleteUrlSource(source.id);
+}
+
+/**
+ * Periodically re-crawls sources with a re-crawl interval once it has elapsed.
+ * Sources left mid-crawl by a restart are picked up on the first run.
+ */
+export function startRecrawlScheduler() {
+  const run = () => {
+    recrawlDueSources().catch(error => console.error("Error running scheduled re-crawls:", error));
+  };
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+  setTimeout(run, 60 * 1000).unref();
+}
+
+async function recrawlDueSources() {
+  for (const source of await storage.getScheduledUrlSources()) {
+    const interrupted = source.status === "crawling" && !activeCrawls.has(source.id);
+    const due = !source.lastCrawledAt ||
+      Date.now() - source.lastCrawledAt.getTime() >= source.recrawlIntervalHours! * 60 * 60 * 1000;
+    if (interrupted || due) {
+      await crawlUrlSource(source.id);
+    }
+  }
+}
+
+async function syncPages(source: UrlSource): Promise<CrawlSummary> {
+  const { pages, gone } = await crawl(source);
+  const existing = await storage.getDocumentsByUrlSource(source.id);
+  const summary: CrawlSummary = { pages: 0, added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  // Pages from earlier crawls that weren't reached this time (e.g. unlinked) are re-checked directly
+  for (const document of existing) {
+    const url = document.sourceUrl!;
+    if (pages.has(url) || gone.has(url) || !isInScope(new URL(url), source)) continue;
+    try {
+      const page = await fetchPage(url);
+      if (page) pages.set(url, extractPage(page.html, page.url));
+    } catch (error) {
+      if (error instanceof PageGoneError) gone.add(url);
+      // Otherwise keep the stored copy until the page can be fetched again
+      else pages.set(url, null);
+    }
+  }
+
+  const documentsByUrl = new Map(existing.map(document => [document.sourceUrl!, document]));
+  // Existing documents kept, replaced or removed while going through the pages
+  const handled = new Set<number>();
+  const checksums = new Set<string>();
+
+  for (const [url, page] of Array.from(pages.entries())) {
+    const document = documentsByUrl.get(url);
+    if (document) handled.add(document.id);
+    if (!page) {
+      if (document) summary.pages++;
+      continue;
+    }
+
+    // Pages without text, or with the same text as another page (e.g. "/" and "/index.html"), aren't stored
+    const checksum = crypto.createHash("sha256").update(page.content).digest("hex");
+    if (!page.content.trim() || checksums.has(checksum)) {
+      if (document) {
+        await removeDocument(document);
+        summary.removed++;
+      }
+      continue;
+    }
+    checksums.add(checksum);
+    summary.pages++;
+
+    const fields = {
+      name: page.title || url,
+      content: page.content,
+      size: Buffer.byteLength(page.content),
+      checksum,
+    };
+
+    if (!document) {
+      const created = await storage.createDocument({
+        ...fields,
+        chatbotId: source.chatbotId,
+        type: "url",
+        status: "queued",
+        uploadedAt: new Date(),
+        sourceUrl: url,
+        urlSourceId: source.id,
+      });
+      enqueueDocument(created.id);
+      summary.added++;
+    } else if (document.checksum !== checksum) {
+      await replacePage(document, fields);
+      summary.updated++;
+    } else {
+      summary.unchanged++;
+    }
+  }
+
+  // Whatever is left is gone from the site or outside the source's current settings
+  for (const document of existing) {
+    if (!handled.has(document.id)) {
+      await removeDocument(document);
+      summary.removed++;
+    }
+  }
+
+  return summary;
+}
+
+// Swaps in a changed page's text and queues it for re-indexing; the old vector
+// store file stays searchable until the new text is indexed
+async function replacePage(document: Document, fields: Pick<Document, "name" | "content" | "size" | "checksum">) {
+  await storage.updateDocument(document.id, {
+    ...fields,
+    sections: [],
+    openaiFileId: null,
+    supersededFileId: await supersedeVectorStoreFile(document),
+    uploadedAt: new Date(),
+    status: "queued",
+    error: null,
+  });
+  enqueueDocument(document.id);
+}
+
+// Breadth-first crawl from the start page, following in-scope links up to the source's depth
+async function crawl(source: UrlSource): Promise<{ pages: Map<string, ExtractedPage | null>; gone: Set<string> }> {
+  const start = normalizeUrl(source.url);
+  const pages = new Map<string, ExtractedPage | null>();
+  const gone = new Set<string>();
+  const seen = new Set<string>([start]);
+  const queue: { url: string; depth: number }[] = [{ url: start, depth: 0 }];
+  const robots = await fetchRobotsRules(new URL(start));
+
+  while (queue.length > 0 && pages.size < MAX_PAGES_PER_CRAWL) {
+    const { url, depth } = queue.shift()!;
+    if (url !== start && isDisallowed(new URL(url), robots)) continue;
+
+    let page;
+    try {
+      page = await fetchPage(url);
+    } catch (error: any) {
+      // Without the start page nothing can be synced, so keep the stored pages
+      if (url === start) {
+        throw new Error(`Could not fetch ${url}: ${error?.message || error}`);
+      }
+      if (error instanceof PageGoneError) gone.add(url);
+      else console.warn(`Skipping ${url}: ${error?.message || error}`);
+      continue;
+    }
+    if (!page) continue;
+
+    // A redirect may land outside the source's scope, or on a page already fetched
+    const finalUrl = normalizeUrl(page.url);
+    if ((url !== start && !isInScope(new URL(finalUrl), source)) || (finalUrl !== url && pages.has(finalUrl))) continue;
+
+    const extracted = extractPage(page.html, finalUrl);
+    pages.set(finalUrl, extracted);
+
+    if (depth < source.maxDepth) {
+      for (const link of extracted.links) {
+        const normalized = normalizeUrl(link);
+        const linkUrl = new URL(normalized);
+        if (seen.has(normalized) || !isInScope(linkUrl, source) || NON_PAGE_EXTENSIONS.test(linkUrl.pathname)) continue;
+        seen.add(normalized);
+        queue.push({ url: normalized, depth: depth + 1 });
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, CRAWL_DELAY_MS));
+  }
+
+  return { pages, gone };
+}
+
+/**
+ * Whether a URL falls under a source: http(s), on the start page's site when
+ * restricted to the same domain, and matching its include/exclude path patterns
+ */
+export function isInScope(url: URL, source: Pick<UrlSource, "url" | "sameDomain" | "includePatterns" | "excludePatterns">): boolean {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  if (source.sameDomain && siteHost(url) !== siteHost(new URL(source.url))) return false;
+
+  const path = url.pathname + url.search;
+  if (source.includePatterns.length > 0 && !source.includePatterns.some(pattern => matchesPattern(path, pattern))) {
+    return false;
+  }
+  return !source.excludePatterns.some(pattern => matchesPattern(path, pattern));
+}
+
+// Path glob where "*" matches any run of characters, e.g. "/patients/*" or "*/print"
+function matchesPattern(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  const glob = trimmed.startsWith("/") || trimmed.startsWith("*") ? trimmed : `/${trimmed}`;
+  const regex = new RegExp("^" + glob.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$", "i");
+  return regex.test(path);
+}
+
+// "www.example.org" and "example.org" count as the same site
+function siteHost(url: URL) {
+  return url.hostname.toLowerCase().replace(/^www\./, "");
+}
+
+// Drops the fragment so "#section" links don't count as separate pages
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  return parsed.href;
+}
+
+/**
+ * Fetches an HTML page, following redirects
+ * @returns null for responses that aren't HTML
+ */
+async function fetchPage(url: string): Promise<{ url: string; html: string } | null> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(new URL(current));
+
+    const response = await fetch(current, {
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+      current = new URL(location, current).href;
+      continue;
+    }
+    if (response.status === 404 || response.status === 410) {
+      throw new PageGoneError(url);
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (Number(response.headers.get("content-length")) > MAX_PAGE_BYTES) {
+      await response.body?.cancel();
+      throw new Error("Page is too large");
+    }
+
+    // Servers can omit or understate content-length, so the body is capped as it is read
+    const html = await readLimitedText(response, MAX_PAGE_BYTES);
+    return { url: current, html };
+  }
+}
+
+// Reads a response body as UTF-8 text, aborting once it exceeds maxBytes
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      throw new Error("Page is too large");
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Blocks crawling internal services (cloud metadata, databases on localhost, etc.)
+// unless CRAWLER_ALLOW_PRIVATE_NETWORKS=true, e.g. to test against a local server
+async function assertPublicHost(url: URL) {
+  if (process.env.CRAWLER_ALLOW_PRIVATE_NETWORKS === "true") return;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true })).map(result => result.address);
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${url.hostname} is a private network address`);
+  }
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  const lower = address.toLowerCase();
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+// Disallowed path prefixes from robots.txt that apply to every crawler or to ours
+async function fetchRobotsRules(site: URL): Promise<string[]> {
+  try {
+    await assertPublicHost(site);
+    const response = await fetch(new URL("/robots.txt", site), {
+      headers: { "User-Agent": USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) return [];
+
+    const rules: string[] = [];
+    let applies = false;
+    let inAgentLines = false;
+    for (const rawLine of (await response.text()).split(/\r?\n/)) {
+      const [field, ...rest] = rawLine.replace(/#.*$/, "").split(":");
+      const key = field.trim().toLowerCase();
+      const value = rest.join(":").trim();
+
+      if (key === "user-agent") {
+        // Consecutive User-agent lines share one group of rules
+        const matches = value === "*" || USER_AGENT.toLowerCase().startsWith(value.toLowerCase());
+        applies = inAgentLines ? applies || matches : matches;
+        inAgentLines = true;
+      } else if (key) {
+        inAgentLines = false;
+        if (key === "disallow" && applies && value) rules.push(value);
+      }
+    }
+    return rules;
+  } catch {
+    return [];
+  }
+}
+
+function isDisallowed(url: URL, rules: string[]) {
+  return rules.some(rule => url.pathname.startsWith(rule));
+}
+
+/**
+ * Extracts a page's title, readable text and links. Navigation, headers, footers,
+ * sidebars and similar chrome are dropped; the main/article element is used when the
+ * page has one. Headings become "#" lines so chunks keep their section titles.
+ */
+export function extractPage(html: string, pageUrl: string): ExtractedPage {
+  const root = parse(html, {
+    blockTextElements: { script: false, style: false, noscript: false, pre: true },
+  });
+
+  const base = root.querySelector("base[href]")?.getAttribute("href");
+  const baseUrl = base ? new URL(base, pageUrl).href : pageUrl;
+  const links: string[] = [];
+  for (const anchor of root.querySelectorAll("a[href]")) {
+    if (/\bnofollow\b/i.test(anchor.getAttribute("rel") || "")) continue;
+    try {
+      const link = new URL(anchor.getAttribute("href")!, baseUrl);
+      if (link.protocol === "http:" || link.protocol === "https:") links.push(link.href);
+    } catch {
+      // Ignore malformed links
+    }
+  }
+
+  const title = collapseWhitespace(root.querySelector("title")?.text || root.querySelector("h1")?.text || "");
+
+  const content = root.querySelector("main") || root.querySelector("[role=main]") || root.querySelector("article") ||
+    root.querySelector("body") || root;
+  content.querySelectorAll(BOILERPLATE_SELECTOR).forEach(element => element.remove());
+  content.querySelectorAll("[class], [id]")
+    .filter(element => BOILERPLATE_CLASS.test(`${element.getAttribute("class") || ""} ${element.getAttribute("id") || ""}`))
+    .forEach(element => element.remove());
+
+  return { title, content: renderBlocks(content).join("\n\n"), links: Array.from(new Set(links)) };
+}
+
+// Walks the element tree collecting paragraphs, list items, table rows and "#" headings
+function renderBlocks(root: HTMLElement): string[] {
+  const blocks: string[] = [];
+  let line = "";
+
+  const flush = () => {
+    const text = collapseWhitespace(line);
+    // Skip markers left without text, e.g. an empty list item
+    if (text && !/^(-|#+)$/.test(text)) blocks.push(text);
+    line = "";
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      line += (node as TextNode).text;
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName?.toLowerCase() ?? "";
+
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      line = "#".repeat(Number(tag[1])) + " ";
+      element.childNodes.forEach(walk);
+      flush();
+    } else if (tag === "li") {
+      flush();
+      line = "- ";
+      element.childNodes.forEach(walk);
+      flush();
+    } else if (tag === "tr") {
+      flush();
+      line = element.querySelectorAll("th, td")
+        .map(cell => collapseWhitespace(cell.text))
+        .filter(Boolean)
+        .join(" | ");
+      flush();
+    } else if (tag === "br") {
+      flush();
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      element.childNodes.forEach(walk);
+      flush();
+    } else {
+      element.childNodes.forEach(walk);
+    }
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+}
+
+function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,349 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { DocumentSection } from "@shared/schema";
+
+export type ExtractedDocument = {
+  content: string;
+  // Page/section boundaries within `content`
+  sections: DocumentSection[];
+};
+
+// Block of extracted text; unlabelled blocks add no section boundary
+type TextPart = {
+  label?: string;
+  text: string;
+};
+
+// Accepted upload formats by file extension, with the MIME types browsers send for them
+const DOCUMENT_MIME_TYPES: Record<string, string[]> = {
+  pdf: ["application/pdf"],
+  docx: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  txt: ["text/plain"],
+  rtf: ["application/rtf", "text/rtf"],
+};
+
+export const SUPPORTED_DOCUMENT_TYPES = Object.keys(DOCUMENT_MIME_TYPES);
+
+/**
+ * Whether an upload's MIME type is one of the accepted document formats
+ */
+export function isSupportedMimeType(mimeType: string): boolean {
+  return Object.values(DOCUMENT_MIME_TYPES).some(types => types.includes(mimeType));
+}
+
+/**
+ * Document type (pdf, docx, txt or rtf) of a file name, or null if the extension isn't supported
+ */
+export function documentTypeOf(fileName: string): string | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return extension in DOCUMENT_MIME_TYPES && fileName.includes(".") ? extension : null;
+}
+
+/**
+ * Raised when an uploaded file cannot be turned into text; the message is safe to show to users
+ */
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+/**
+ * Extracts plain text from an uploaded document
+ * @param buffer Raw file contents
+ * @param fileType File extension without the dot (pdf, docx, rtf or txt)
+ * @param fileName Original file name, used in error messages
+ */
+export async function processDocumentText(
+  buffer: Buffer,
+  fileType: string,
+  fileName: string = "The file"
+): Promise<ExtractedDocument> {
+  let parts: TextPart[];
+
+  switch (fileType) {
+    case "pdf":
+      parts = await extractPdf(buffer, fileName);
+      break;
+    case "docx":
+      parts = await extractDocx(buffer, fileName);
+      break;
+    case "rtf":
+      parts = extractRtf(buffer.toString("latin1"));
+      break;
+    case "txt":
+      parts = [{ text: buffer.toString("utf8").replace(/^\ufeff/, "") }];
+      break;
+    default:
+      throw new DocumentExtractionError(`Unsupported file type ".${fileType}".`);
+  }
+
+  const extracted = joinParts(parts);
+  if (!extracted.content) {
+    throw new DocumentExtractionError(
+      fileType === "pdf"
+        ? `${fileName} contains no selectable text. Scanned PDFs must be run through OCR before uploading.`
+        : `${fileName} contains no text.`
+    );
+  }
+
+  return extracted;
+}
+
+/**
+ * Collapses runs of spaces and blank lines and strips control characters
+ */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000b\u000e-\u001f\u007f\u200b\ufeff]/g, "")
+    .replace(/[ \t\f\u00a0\u2000-\u200a\u3000]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Normalizes each part and joins them with blank lines, recording where labelled parts start and end
+function joinParts(parts: TextPart[]): ExtractedDocument {
+  let content = "";
+  const sections: DocumentSection[] = [];
+
+  for (const part of parts) {
+    const text = normalizeWhitespace(part.text);
+    if (!text) continue;
+
+    if (content) content += "\n\n";
+    const start = content.length;
+    content += text;
+
+    if (part.label) {
+      sections.push({ label: part.label, start, end: content.length });
+    }
+  }
+
+  return { content, sections };
+}
+
+async function extractPdf(buffer: Buffer, fileName: string): Promise<TextPart[]> {
+  let pages: string[];
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    ({ text: pages } = await extractText(pdf, { mergePages: false }));
+  } catch (error: any) {
+    if (error?.name === "PasswordException") {
+      throw new DocumentExtractionError(`${fileName} is password protected.`);
+    }
+    console.error("Error reading PDF:", error);
+    throw new DocumentExtractionError(`${fileName} is not a readable PDF.`);
+  }
+
+  return pages.map((text, i) => ({ label: `Page ${i + 1}`, text }));
+}
+
+async function extractDocx(buffer: Buffer, fileName: string): Promise<TextPart[]> {
+  let html: string;
+  try {
+    ({ value: html } = await mammoth.convertToHtml(
+      { buffer },
+      // Images carry no text; skip encoding them into the HTML
+      { convertImage: mammoth.images.imgElement(async () => ({ src: "" })) }
+    ));
+  } catch (error) {
+    console.error("Error reading DOCX:", error);
+    throw new DocumentExtractionError(`${fileName} is not a readable Word document.`);
+  }
+
+  return docxHtmlToParts(html);
+}
+
+/**
+ * Flattens mammoth's HTML into text: each heading starts a new section,
+ * paragraphs and list items become lines, and table rows become "cell | cell" lines
+ */
+function docxHtmlToParts(html: string): TextPart[] {
+  const parts: TextPart[] = [{ text: "" }];
+  let heading: string | null = null;
+  let cellDepth = 0;
+
+  const append = (text: string) => {
+    if (heading !== null) heading += text;
+    parts[parts.length - 1].text += text;
+  };
+
+  for (const token of html.split(/(<[^>]*>)/)) {
+    if (!token) continue;
+
+    const tag = token.match(/^<(\/?)([a-z0-9]+)/i);
+    if (!tag) {
+      append(decodeHtmlEntities(token));
+      continue;
+    }
+
+    const closing = tag[1] === "/";
+    const name = tag[2].toLowerCase();
+
+    if (/^h[1-6]$/.test(name) && cellDepth === 0) {
+      if (!closing) {
+        parts.push({ text: "" });
+        heading = "";
+      } else {
+        parts[parts.length - 1].label = normalizeWhitespace(heading || "") || undefined;
+        heading = null;
+        append("\n");
+      }
+    } else if (name === "td" || name === "th") {
+      cellDepth += closing ? -1 : 1;
+      if (closing) append(" | ");
+    } else if (name === "tr" && closing) {
+      append("\n");
+    } else if (name === "br") {
+      append(cellDepth > 0 ? " " : "\n");
+    } else if ((name === "p" || name === "li") && closing) {
+      append(cellDepth > 0 ? " " : "\n");
+    } else if (name === "table" && closing) {
+      append("\n");
+    }
+  }
+
+  // Drop the separator after the last cell of each row
+  return parts.map(part => ({ ...part, text: part.text.replace(/ *\| *(\n|$)/g, "$1") }));
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " } as Record<string, string>)[lower] ?? entity;
+  });
+}
+
+// Groups whose contents are formatting or metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "listtable", "listoverridetable", "revtbl", "rsidtbl",
+  "info", "generator", "xmlnstbl", "latentstyles", "themedata", "colorschememapping", "datastore",
+  "pict", "object", "nonshppict", "fldinst", "header", "headerl", "headerr", "headerf",
+  "footer", "footerl", "footerr", "footerf", "filetbl", "pgdsctbl", "mmathPr",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n", line: "\n", row: "\n", cell: " | ", tab: " ",
+  emdash: "—", endash: "–", bullet: "•",
+  lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”",
+};
+
+/**
+ * Strips RTF control words and groups, keeping the document text.
+ * Page and section breaks split the text into numbered sections.
+ */
+function extractRtf(rtf: string): TextPart[] {
+  const parts: TextPart[] = [{ text: "" }];
+  // Per-group state: whether the group is skipped and how many fallback characters follow \uN
+  const stack: { skip: boolean; uc: number }[] = [];
+  let state = { skip: false, uc: 1 };
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0;
+  let decoder = new TextDecoder("windows-1252");
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      parts[parts.length - 1].text += decoder.decode(new Uint8Array(pendingBytes));
+      pendingBytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) parts[parts.length - 1].text += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (ch === "}") {
+      flushBytes();
+      state = stack.pop() ?? { skip: false, uc: 1 };
+      fallbackToSkip = 0;
+      i++;
+    } else if (ch === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        const byte = parseInt(rtf.substr(i + 2, 2), 16);
+        i += 4;
+        if (fallbackToSkip > 0) {
+          fallbackToSkip--;
+        } else if (!state.skip && !Number.isNaN(byte)) {
+          pendingBytes.push(byte);
+        }
+        continue;
+      }
+
+      const word = rtf.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/);
+      if (!word) {
+        // Control symbol
+        i += 2;
+        if (next === "*") {
+          state.skip = true;
+        } else if (next === "\\" || next === "{" || next === "}") {
+          emit(next);
+        } else if (next === "~") {
+          emit(" ");
+        } else if (next === "_") {
+          emit("-");
+        } else if (next === "\n" || next === "\r") {
+          emit("\n");
+        }
+        continue;
+      }
+
+      i += 1 + word[0].length;
+      const [, name, param] = word;
+
+      if (RTF_SKIPPED_DESTINATIONS.has(name)) {
+        state.skip = true;
+      } else if (name === "u" && param !== undefined) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        fallbackToSkip = state.uc;
+      } else if (name === "uc" && param !== undefined) {
+        state.uc = Number(param);
+      } else if (name === "ansicpg" && param !== undefined) {
+        try {
+          decoder = new TextDecoder(`windows-${param}`);
+        } catch {
+          // Unknown code page; keep decoding as Windows-1252
+        }
+      } else if ((name === "page" || name === "sect") && !state.skip) {
+        flushBytes();
+        parts.push({ text: "" });
+      } else if (RTF_SYMBOLS[name]) {
+        emit(RTF_SYMBOLS[name]);
+      }
+    } else {
+      i++;
+      if (ch === "\n" || ch === "\r") continue;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+        continue;
+      }
+      emit(ch);
+    }
+  }
+  flushBytes();
+
+  const sections = parts
+    .map(part => ({ text: part.text.replace(/ *\| *(\n|$)/g, "$1") }))
+    .filter(part => part.text.trim());
+  if (sections.length <= 1) {
+    return sections;
+  }
+
+  return sections.map((part, index) => ({ ...part, label: `Section ${index + 1}` }));
+}
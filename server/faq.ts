@@ -0,0 +1,229 @@
+import { insertFaqEntrySchema, type FaqEntry, type FaqEntrySummary, type FaqImportResult, type FaqLink } from "@shared/schema";
+import { z } from "zod";
+import { storage } from "./storage";
+import { analyzeTerms, normalizeText } from "./retrieval/terms";
+
+// Share of stemmed terms a message must have in common with a question variant (Dice coefficient)
+const FAQ_MATCH_THRESHOLD = 0.8;
+// Separates question variants, and links, within a CSV cell
+const CSV_LIST_SEPARATOR = "|";
+const CSV_COLUMNS = ["id", "questions", "answer", "links"] as const;
+// Words that turn a question into its opposite; stopword removal would drop them.
+// "t" is what remains of "can't", "don't" and "isn't" after normalization.
+const NEGATIONS = new Set(["no", "not", "never", "nor", "none", "nothing", "without", "cannot", "t", "cant", "dont", "doesnt", "isnt", "arent", "shouldnt", "wont", "wouldnt", "didnt"]);
+
+export type FaqMatch = {
+  entry: FaqEntry;
+  // Question variant the message matched
+  question: string;
+  // 1 for an exact match after normalization
+  score: number;
+};
+
+/**
+ * Finds the FAQ entry whose question variants best match a patient message.
+ * Messages are compared after normalization (lowercase, punctuation, stopwords and
+ * word endings removed), so "What time should I arrive?" matches "what time do I arrive".
+ * A negated message only matches negated variants and vice versa, so "When can't I
+ * drive?" doesn't get the answer to "When can I drive?".
+ * @returns The best match at or above the threshold, or null
+ */
+export async function matchFaq(chatbotId: number, message: string): Promise<FaqMatch | null> {
+  const entries = await storage.getFaqEntries(chatbotId);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const messageText = normalizeText(message);
+  const messageTerms = analyzeTerms(message);
+  const messageNegated = isNegated(messageText);
+  let best: FaqMatch | null = null;
+
+  for (const entry of entries) {
+    for (const question of entry.questions) {
+      if (isNegated(normalizeText(question)) !== messageNegated) continue;
+      const score = normalizeText(question) === messageText
+        ? 1
+        : diceCoefficient(messageTerms, analyzeTerms(question));
+      if (score >= FAQ_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { entry, question, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * A chatbot's FAQ entries with how often each answer was sent
+ */
+export async function listFaqEntries(chatbotId: number): Promise<FaqEntrySummary[]> {
+  const [entries, hits] = await Promise.all([storage.getFaqEntries(chatbotId), storage.getFaqHitCounts(chatbotId)]);
+  const hitsByEntry = new Map(hits.map(hit => [hit.faqEntryId, hit]));
+  return entries.map(entry => {
+    const hit = hitsByEntry.get(entry.id);
+    return {
+      ...entry,
+      hitCount: hit?.hitCount ?? 0,
+      lastHitAt: hit ? hit.lastHitAt.toISOString() : null,
+    };
+  });
+}
+
+/**
+ * The approved answer as sent to the patient, with the entry's links listed below it
+ */
+export function faqAnswerText(entry: FaqEntry): string {
+  const links = (entry.links || []).map(link => `- [${link.label || link.url}](${link.url})`);
+  return links.length > 0 ? `${entry.answer}\n\n${links.join("\n")}` : entry.answer;
+}
+
+/**
+ * A chatbot's FAQ entries as CSV: one row per entry, question variants and links
+ * separated by "|", links written as "Label https://…"
+ */
+export function formatFaqCsv(entries: FaqEntry[]): string {
+  const rows = entries.map(entry => [
+    String(entry.id),
+    entry.questions.join(` ${CSV_LIST_SEPARATOR} `),
+    entry.answer,
+    (entry.links || []).map(link => link.label ? `${link.label} ${link.url}` : link.url).join(` ${CSV_LIST_SEPARATOR} `),
+  ]);
+  return [CSV_COLUMNS as readonly string[], ...rows]
+    .map(row => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+/**
+ * Imports FAQ entries from CSV in the export format. Rows with the ID of one of the
+ * chatbot's entries update it, other rows create new entries; invalid rows are skipped
+ * and reported.
+ */
+export async function importFaqCsv(chatbotId: number, csv: string): Promise<FaqImportResult> {
+  const result: FaqImportResult = { created: 0, updated: 0, errors: [] };
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    result.errors.push({ row: 1, message: "The file is empty" });
+    return result;
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const column = (row: string[], name: typeof CSV_COLUMNS[number]) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? (row[index] ?? "").trim() : "";
+  };
+  if (!columns.includes("questions") || !columns.includes("answer")) {
+    result.errors.push({ row: 1, message: "The header must include \"questions\" and \"answer\" columns" });
+    return result;
+  }
+
+  const existingIds = new Set((await storage.getFaqEntries(chatbotId)).map(entry => entry.id));
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    // Row numbers as a spreadsheet shows them: the header is row 1
+    const rowNumber = i + 2;
+    if (row.every(cell => !cell.trim())) continue;
+
+    try {
+      const data = insertFaqEntrySchema.parse({
+        chatbotId,
+        questions: splitList(column(row, "questions")),
+        answer: column(row, "answer"),
+        links: splitList(column(row, "links")).map(parseLink),
+      });
+
+      const id = Number(column(row, "id"));
+      if (id && existingIds.has(id)) {
+        await storage.updateFaqEntry(id, data);
+        result.updated++;
+      } else {
+        await storage.createFaqEntry(data);
+        result.created++;
+      }
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.errors.map(issue => issue.message).join("; ")
+        : error instanceof Error ? error.message : String(error);
+      result.errors.push({ row: rowNumber, message });
+    }
+  }
+
+  return result;
+}
+
+function isNegated(normalized: string): boolean {
+  return normalized.split(" ").some(word => NEGATIONS.has(word));
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const remaining = [...b];
+  let shared = 0;
+  for (const term of a) {
+    const index = remaining.indexOf(term);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+function splitList(cell: string): string[] {
+  return cell.split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+}
+
+// "Label https://…" or a bare URL
+function parseLink(text: string): FaqLink {
+  const match = text.match(/^(.*?)\s*(https?:\/\/\S+)$/i);
+  return match ? { label: match[1], url: match[2] } : { label: "", url: text };
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180: quoted cells may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,270 @@
+import { conversationFlowSchema, type ChatSession, type Chatbot, type ConversationFlowDefinition, type ConversationFlowVersionSummary, type FlowCondition, type FlowNode, type Message, type MessageButton, type MessagePayload } from "@shared/schema";
+import { storage } from "./storage";
+import { findPhrase } from "./behavior-rules";
+import { normalizeText } from "./retrieval/terms";
+import { mergePayloads } from "./message-payload";
+
+// Message and branch steps run one after another without waiting for the patient;
+// a flow that loops through them longer than this is stopped
+const MAX_STEPS_PER_MESSAGE = 50;
+const YES_ANSWER = /^(y|yes|yeah|yep|yup|sure|correct|right|i do|i have|i am)\b/i;
+const NO_ANSWER = /^(n|no|nope|nah|never|none|not really|i do not|i don'?t|i did not|i didn'?t|i have not|i have no|i haven'?t|i'?ve not|i'?m not|i am not)\b/i;
+const UNSURE_ANSWER = /\b(not sure|unsure|not certain|maybe|don'?t know|do not know|no idea)\b/i;
+// A negation anywhere in a yes answer makes it ambiguous: "yes, I don't think so"
+const NEGATION = /\b(no|not|never|none|nothing|without|cannot|(?:do|does|did|is|are|was|were|have|has|had|ca|could|wo|would|should)n'?t)\b/i;
+
+type FlowQuestion = Extract<FlowNode, { type: "question" }>;
+
+export type FlowReply = {
+  content: string;
+  // Last step that ran, recorded on the bot message
+  nodeId: string;
+  // Answers to the question now awaiting one, offered as quick replies, and the
+  // buttons of the message steps that ran
+  payload: MessagePayload | null;
+  // The message didn't answer the current question, which is asked again
+  invalid: boolean;
+};
+
+/**
+ * Runs a chatbot's conversation flow for a patient message: answers the question the
+ * conversation is waiting on, or starts the flow when the message triggers it.
+ * @param previousMessages The session's messages before this one
+ * @returns null when no flow is running or starting, or when the flow hands the
+ * message to the assistant
+ */
+export async function answerFlow(
+  chatbot: Chatbot,
+  sessionId: string,
+  chatSession: ChatSession | undefined,
+  message: string,
+  previousMessages: Message[]
+): Promise<FlowReply | null> {
+  if (chatSession?.flowNodeId && chatSession.flowVersion !== null) {
+    const flow = await storage.getConversationFlow(chatbot.id, chatSession.flowVersion);
+    const definition = flow && parseFlow(flow.definition);
+    const question = definition?.nodes.find(node => node.id === chatSession.flowNodeId);
+    if (definition && question?.type === "question") {
+      const answer = readAnswer(question, message);
+      if (answer === null) {
+        return {
+          content: `${invalidAnswerHint(question)}\n\n${question.text}`,
+          nodeId: question.id,
+          payload: questionPayload(question),
+          invalid: true,
+        };
+      }
+
+      const answers = { ...chatSession.flowAnswers, [question.id]: answer.value };
+      return runFlow(chatbot, sessionId, definition, chatSession.flowVersion, answer.next, answers);
+    }
+    // The step was removed from the flow; leave it rather than leave the patient stuck
+    await storage.saveChatSession({ chatbotId: chatbot.id, sessionId, flowNodeId: null });
+  }
+
+  const flow = await storage.getConversationFlow(chatbot.id);
+  const definition = flow && parseFlow(flow.definition);
+  if (!flow || !definition?.enabled) {
+    return null;
+  }
+  const isFirstMessage = !previousMessages.some(previous => previous.isUser);
+  const triggered = (definition.startOnFirstMessage && isFirstMessage)
+    || definition.startKeywords.some(keyword => findPhrase(message, keyword, false).length > 0);
+  if (!triggered) {
+    return null;
+  }
+
+  console.log(`Starting conversation flow v${flow.version} for chatbot ${chatbot.id}, session ${sessionId}`);
+  return runFlow(chatbot, sessionId, definition, flow.version, definition.startNodeId, {});
+}
+
+/**
+ * Flow stored on a chatbot, or null when it no longer validates
+ */
+export function parseFlow(value: unknown): ConversationFlowDefinition | null {
+  const parsed = conversationFlowSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Saved versions of a chatbot's flow, newest (live) first
+ */
+export async function listFlowVersions(chatbotId: number): Promise<ConversationFlowVersionSummary[]> {
+  const versions = await storage.getConversationFlowVersions(chatbotId);
+  const creators = new Map<number, string>();
+  for (const id of Array.from(new Set(versions.map(version => version.createdBy)))) {
+    if (id === null) continue;
+    const user = await storage.getUser(id);
+    if (user) creators.set(id, user.username);
+  }
+
+  return versions.map((version, index) => ({
+    version: version.version,
+    stepCount: Array.isArray(version.definition.nodes) ? version.definition.nodes.length : 0,
+    createdAt: version.createdAt.toISOString(),
+    creatorName: version.createdBy !== null ? creators.get(version.createdBy) ?? null : null,
+    current: index === 0,
+  }));
+}
+
+// Runs steps from `startId` until a question waits for an answer or the flow ends,
+// and records where the conversation stands
+async function runFlow(
+  chatbot: Chatbot,
+  sessionId: string,
+  definition: ConversationFlowDefinition,
+  version: number,
+  startId: string | null,
+  answers: Record<string, string>
+): Promise<FlowReply | null> {
+  const nodes = new Map(definition.nodes.map(node => [node.id, node]));
+  const texts: string[] = [];
+  const buttons: MessageButton[] = [];
+  let waitingOn: FlowQuestion | null = null;
+  let lastNodeId = startId ?? "";
+  let handoff: { reason: string } | null = null;
+
+  let nodeId = startId;
+  let step = 0;
+  for (; nodeId !== null && step < MAX_STEPS_PER_MESSAGE; step++) {
+    const node = nodes.get(nodeId);
+    if (!node) {
+      console.error(`Conversation flow v${version} of chatbot ${chatbot.id} points to missing step "${nodeId}"`);
+      break;
+    }
+    lastNodeId = node.id;
+
+    if (node.type === "message") {
+      texts.push(node.text);
+      buttons.push(...node.buttons);
+      nodeId = node.next;
+    } else if (node.type === "branch") {
+      const condition = node.conditions.find(condition => conditionHolds(condition, answers));
+      nodeId = condition ? condition.next : node.defaultNext;
+    } else if (node.type === "question") {
+      texts.push(node.text);
+      waitingOn = node;
+      break;
+    } else if (node.type === "handoff") {
+      if (node.text.trim()) texts.push(node.text);
+      buttons.push(...node.buttons);
+      handoff = { reason: node.reason || "Conversation flow" };
+      break;
+    } else {
+      // LLM step: the flow ends here
+      break;
+    }
+  }
+  // Every step ran without reaching a question or the end of the flow
+  if (nodeId !== null && step === MAX_STEPS_PER_MESSAGE) {
+    console.error(`Conversation flow v${version} of chatbot ${chatbot.id} stopped after ${MAX_STEPS_PER_MESSAGE} steps without a question; check it for loops`);
+  }
+
+  await storage.saveChatSession({
+    chatbotId: chatbot.id,
+    sessionId,
+    flowVersion: version,
+    flowNodeId: waitingOn?.id ?? null,
+    flowAnswers: answers,
+    ...(handoff && { handoffAt: new Date(), handoffReason: handoff.reason }),
+  });
+
+  if (texts.length === 0) {
+    return null;
+  }
+  return {
+    content: texts.join("\n\n"),
+    nodeId: lastNodeId,
+    payload: mergePayloads({ quickReplies: [], buttons, cards: [] }, waitingOn && questionPayload(waitingOn)),
+    invalid: false,
+  };
+}
+
+// The answer to a question and the step it leads to, or null when the message doesn't answer it
+function readAnswer(question: FlowQuestion, message: string): { value: string; next: string | null } | null {
+  const text = message.trim();
+  switch (question.answerType) {
+    case "choice":
+    case "yes_no": {
+      const choice = matchChoice(question, text);
+      return choice ? { value: choice.label, next: choice.next } : null;
+    }
+    case "number": {
+      const match = text.match(/-?\d+(?:[.,]\d+)?/);
+      const value = match ? Number(match[0].replace(",", ".")) : NaN;
+      if (isNaN(value) || (question.min !== undefined && value < question.min) || (question.max !== undefined && value > question.max)) {
+        return null;
+      }
+      return { value: String(value), next: question.next };
+    }
+    default:
+      return text ? { value: text, next: question.next } : null;
+  }
+}
+
+// A choice by its label, its number in the list, or (for yes/no questions) a yes or no wording
+function matchChoice(question: FlowQuestion, text: string) {
+  const normalized = normalizeText(text);
+  const byLabel = question.choices.find(choice => normalizeText(choice.label) === normalized);
+  if (byLabel) return byLabel;
+
+  if (/^\d+$/.test(normalized)) {
+    return question.choices[Number(normalized) - 1];
+  }
+
+  if (question.answerType === "yes_no") {
+    // "No" wordings first: "I am not" starts like "I am". Unsure answers and a yes
+    // wording with a negation later on are asked again rather than guessed.
+    if (UNSURE_ANSWER.test(text)) return undefined;
+    const wanted = NO_ANSWER.test(text) ? "no" : YES_ANSWER.test(text) && !NEGATION.test(text) ? "yes" : null;
+    if (!wanted) return undefined;
+    return question.choices.find(choice => normalizeText(choice.label) === wanted)
+      ?? question.choices[wanted === "yes" ? 0 : 1];
+  }
+
+  // A message naming exactly one choice, e.g. "the second option, morning"
+  const mentioned = question.choices.filter(choice => findPhrase(text, choice.label, false).length > 0);
+  return mentioned.length === 1 ? mentioned[0] : undefined;
+}
+
+function conditionHolds(condition: FlowCondition, answers: Record<string, string>): boolean {
+  const answer = answers[condition.questionId];
+  if (answer === undefined) {
+    return false;
+  }
+  const a = normalizeText(answer);
+  const b = normalizeText(condition.value);
+  switch (condition.operator) {
+    case "equals":
+      return a === b;
+    case "not_equals":
+      return a !== b;
+    case "contains":
+      return a.includes(b);
+    case "greater_than":
+      return Number(answer) > Number(condition.value);
+    case "less_than":
+      return Number(answer) < Number(condition.value);
+  }
+}
+
+function questionPayload(question: FlowQuestion): MessagePayload | null {
+  return question.answerType === "choice" || question.answerType === "yes_no"
+    ? mergePayloads({ quickReplies: question.choices.map(choice => choice.label), buttons: [], cards: [] })
+    : null;
+}
+
+function invalidAnswerHint(question: FlowQuestion): string {
+  switch (question.answerType) {
+    case "choice":
+    case "yes_no":
+      return "Sorry, I didn't catch that. Please choose one of the options.";
+    case "number":
+      if (question.min !== undefined && question.max !== undefined) {
+        return `Please answer with a number from ${question.min} to ${question.max}.`;
+      }
+      return "Please answer with a number.";
+    default:
+      return "Please type your answer.";
+  }
+}
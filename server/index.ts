@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { resumeDocumentIngestion } from "./ingestion";
+import { startRecrawlScheduler } from "./crawler";
+import { startReconciliationScheduler } from "./reconciliation";
+import { startContentReviewScheduler } from "./content-review";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
 
@@ -42,6 +46,14 @@ app.use((req, res, next) => {
   try {
     const server = await registerRoutes(app);
 
+    // Pick up documents a previous run left mid-ingestion
+    resumeDocumentIngestion().catch(error => {
+      console.error("Error resuming document ingestion:", error);
+    });
+    startRecrawlScheduler();
+    startReconciliationScheduler();
+    startContentReviewScheduler();
+
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
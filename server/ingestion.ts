@@ -0,0 +1,382 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { Chatbot, Document, DocumentStatus, InsertDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { llm } from "./client";
+import { checkVectorStoreCapacity, invalidateKnowledgeUsage } from "./knowledge-usage";
+import { processDocumentText } from "./document-text";
+import { indexDocument, removeFromKeywordIndex } from "./retrieval";
+
+const readFile = promisify(fs.readFile);
+const unlink = promisify(fs.unlink);
+const writeFile = promisify(fs.writeFile);
+
+// Statuses of documents still being worked on; these are resumed after a restart
+export const PENDING_DOCUMENT_STATUSES: DocumentStatus[] = ["queued", "extracting", "uploading", "indexing"];
+
+const INDEXING_POLL_INTERVAL_MS = 2000;
+const INDEXING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Document IDs waiting for the worker, oldest first
+const queue: number[] = [];
+// Settles once the queue has been drained; null while the worker is idle
+let running: Promise<void> | null = null;
+
+/**
+ * Queues a document for background ingestion
+ */
+export function enqueueDocument(documentId: number) {
+  if (!queue.includes(documentId)) {
+    queue.push(documentId);
+  }
+  void drainQueue();
+}
+
+/**
+ * Resolves once every queued document has been processed, e.g. before a script that queued documents exits
+ */
+export async function waitForIngestionQueue() {
+  while (running) {
+    await running;
+  }
+}
+
+/**
+ * Re-queues documents left mid-ingestion when the server stopped
+ */
+export async function resumeDocumentIngestion() {
+  const pending = await storage.getDocumentsByStatus(PENDING_DOCUMENT_STATUSES);
+  if (pending.length > 0) {
+    console.log(`Resuming ingestion of ${pending.length} document(s)`);
+  }
+  pending.forEach(document => enqueueDocument(document.id));
+}
+
+/**
+ * Deletes the uploaded file kept for a document, if any
+ */
+export async function removeUploadedFile(document: Document) {
+  if (document.filePath) {
+    try {
+      await unlink(document.filePath);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error("Error deleting uploaded file:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Deletes a document along with its vector store file, kept upload, chunks and keyword index entries
+ */
+export async function removeDocument(document: Document) {
+  for (const fileId of [document.openaiFileId, document.supersededFileId]) {
+    if (!fileId) continue;
+    try {
+      await llm.deleteFile(fileId);
+      console.log("Deleted OpenAI file:", fileId);
+    } catch (error) {
+      // Continue with document deletion even if file cleanup fails
+      console.error("Error deleting OpenAI file:", error);
+    }
+  }
+
+  await storage.deleteDocument(document.id);
+  await removeUploadedFile(document);
+  await removeFromKeywordIndex(document, document.id);
+  invalidateKnowledgeUsage(document.chatbotId);
+}
+
+/**
+ * Whether a document is past its review-by date and set to leave retrieval until re-approved
+ */
+export function isExpired(document: Document, now = new Date()): boolean {
+  return document.excludeWhenExpired && !!document.reviewByDate && document.reviewByDate <= now;
+}
+
+/**
+ * Takes a document out of retrieval without deleting it: its vector store files are
+ * deleted and its chunks and keyword index entries removed. The content is kept, so
+ * restoring it only needs another ingestion run.
+ */
+export async function excludeFromRetrieval(document: Document): Promise<Document | undefined> {
+  for (const fileId of [document.openaiFileId, document.supersededFileId]) {
+    if (!fileId) continue;
+    try {
+      await llm.deleteFile(fileId);
+    } catch (error) {
+      // Unreferenced files are removed by the next reconciliation
+      console.error("Error deleting OpenAI file:", error);
+    }
+  }
+
+  await storage.replaceDocumentChunks(document.id, []);
+  await removeFromKeywordIndex(document, document.id);
+  invalidateKnowledgeUsage(document.chatbotId);
+  console.log(`Excluded document ${document.id} from retrieval`);
+  return await storage.updateDocument(document.id, { openaiFileId: null, supersededFileId: null, excludedAt: new Date() });
+}
+
+/**
+ * Returns an excluded document to retrieval by queueing it to be uploaded or indexed again
+ */
+export async function restoreToRetrieval(document: Document): Promise<Document | undefined> {
+  const restored = await storage.updateDocument(document.id, { status: "queued", error: null });
+  if (restored) {
+    enqueueDocument(restored.id);
+  }
+  return restored;
+}
+
+/**
+ * Vector store file to keep while a document's new content is ingested: the last
+ * indexed file stays in the store until its replacement is indexed. Files that will
+ * never be needed again (an unindexed upload from a failed replacement, or a leftover
+ * superseded file) are deleted here.
+ */
+export async function supersedeVectorStoreFile(document: Document): Promise<string | null> {
+  const deleteFile = (fileId: string) => llm.deleteFile(fileId)
+    .catch(error => console.error("Error deleting OpenAI file:", error));
+
+  if (document.status === "ready" || !document.supersededFileId) {
+    if (document.supersededFileId && document.openaiFileId) {
+      await deleteFile(document.supersededFileId);
+    }
+    return document.openaiFileId ?? document.supersededFileId;
+  }
+
+  // A replacement that failed: the superseded file is still the last indexed one
+  if (document.openaiFileId) {
+    await deleteFile(document.openaiFileId);
+  }
+  return document.supersededFileId;
+}
+
+/**
+ * Makes new content the current version of a document, archiving the previous one,
+ * and queues it for ingestion
+ * @param updates New version's fields, e.g. an uploaded file's name, size and filePath, or a restored version's content
+ */
+export async function replaceDocumentVersion(document: Document, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+  const supersededFileId = await supersedeVectorStoreFile(document);
+  const replaced = await storage.replaceDocumentVersion(document.id, {
+    ...updates,
+    openaiFileId: null,
+    supersededFileId,
+    status: "queued",
+    error: null,
+    uploadedAt: new Date(),
+  });
+  if (replaced) {
+    enqueueDocument(replaced.id);
+  }
+  return replaced;
+}
+
+// Documents are processed one at a time so large uploads don't compete for memory
+function drainQueue(): Promise<void> {
+  if (!running) {
+    running = (async () => {
+      while (queue.length > 0) {
+        await ingestDocument(queue.shift()!);
+      }
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Runs the ingestion steps a document still needs: text extraction, then either
+ * upload and vector store indexing (chatbots with a vector store) or local chunk
+ * indexing. Each step saves its result, so a retried document resumes where it failed.
+ */
+async function ingestDocument(documentId: number) {
+  let document = await storage.getDocument(documentId);
+  if (!document || document.status === "ready") {
+    return;
+  }
+
+  const update = async (updates: Partial<InsertDocument>) => {
+    const updated = await storage.updateDocument(documentId, updates);
+    if (!updated) {
+      throw new DocumentDeletedError();
+    }
+    document = updated;
+    return updated;
+  };
+  const setStatus = (status: DocumentStatus) => update({ status, error: null });
+
+  try {
+    const { chatbot, vectorStoreId } = await documentKnowledgeBase(document);
+
+    if (!document.content) {
+      await setStatus("extracting");
+      if (!document.filePath || !fs.existsSync(document.filePath)) {
+        throw new Error("The uploaded file is no longer available. Delete the document and upload it again.");
+      }
+      const { content, sections } = await processDocumentText(await readFile(document.filePath), document.type, document.name);
+      await update({ content, sections });
+    }
+
+    // Expired documents stay out of retrieval until they are re-approved
+    if (isExpired(document)) {
+      await excludeFromRetrieval(document);
+      await removeUploadedFile(document);
+      await update({ status: "ready", error: null, filePath: null });
+      return;
+    }
+
+    if (vectorStoreId && llm.supportsVectorStores) {
+      if (!document.openaiFileId) {
+        await setStatus("uploading");
+        const fileId = await uploadToVectorStore(vectorStoreId, document, chatbot);
+        await update({ openaiFileId: fileId }).catch(async (error) => {
+          await llm.deleteFile(fileId).catch(() => {});
+          throw error;
+        });
+      }
+
+      await setStatus("indexing");
+      await waitForVectorStoreIndexing(vectorStoreId, document, update);
+    } else {
+      await setStatus("indexing");
+      const chunkCount = await indexDocument(document);
+      console.log(`Indexed document ${documentId} into ${chunkCount} chunks`);
+    }
+
+    // The new content is searchable, so the previous version's file can go
+    if (document.supersededFileId) {
+      try {
+        await llm.deleteFile(document.supersededFileId);
+        await update({ supersededFileId: null });
+      } catch (error) {
+        // Kept on the document and deleted with it, or after its next ingestion
+        console.error("Error deleting superseded OpenAI file:", error);
+      }
+    }
+
+    await removeUploadedFile(document);
+    await update({ status: "ready", error: null, filePath: null, excludedAt: null });
+    invalidateKnowledgeUsage(document.chatbotId);
+  } catch (error: any) {
+    if (error instanceof DocumentDeletedError) {
+      // Deleted mid-ingestion; drop any chunks indexed after the delete route cleaned up
+      await storage.replaceDocumentChunks(documentId, []).catch(() => {});
+      await removeFromKeywordIndex(document, documentId);
+      return;
+    }
+
+    console.error(`Error ingesting document ${documentId}:`, error);
+    invalidateKnowledgeUsage(document.chatbotId);
+    try {
+      await storage.updateDocument(documentId, {
+        status: "failed",
+        error: error?.message || "Document processing failed",
+      });
+    } catch (updateError) {
+      console.error("Error recording document ingestion failure:", updateError);
+    }
+  }
+}
+
+// The vector store a document's file goes to, and the chatbot whose limits apply (collections have none)
+async function documentKnowledgeBase(document: Document): Promise<{ chatbot?: Chatbot; vectorStoreId: string | null }> {
+  if (document.collectionId) {
+    const collection = await storage.getKnowledgeCollection(document.collectionId);
+    if (!collection) {
+      throw new Error("The collection for this document no longer exists");
+    }
+    return { vectorStoreId: collection.vectorStoreId };
+  }
+
+  const chatbot = document.chatbotId ? await storage.getChatbot(document.chatbotId) : undefined;
+  if (!chatbot) {
+    throw new Error("The chatbot for this document no longer exists");
+  }
+  return { chatbot, vectorStoreId: chatbot.vectorStoreId };
+}
+
+async function uploadToVectorStore(vectorStoreId: string, document: Document, chatbot?: Chatbot): Promise<string> {
+  const capacityError = chatbot ? await checkVectorStoreCapacity(chatbot, document) : null;
+  if (capacityError) {
+    throw new Error(capacityError);
+  }
+
+  // Documents without a kept upload (crawled pages, restored versions) send their text as a Markdown file
+  const hasUpload = !!document.filePath && fs.existsSync(document.filePath);
+  const contentFile = !hasUpload && document.content
+    ? path.join(os.tmpdir(), `aidify-document-${document.id}-${Date.now()}.md`)
+    : null;
+  if (contentFile) {
+    await writeFile(contentFile, document.content);
+  } else if (!hasUpload) {
+    throw new Error("The uploaded file is no longer available. Delete the document and upload it again.");
+  }
+  const filePath = contentFile ?? document.filePath;
+
+  let fileId: string;
+  try {
+    fileId = (await llm.uploadFile({ path: filePath!, name: document.name })).id;
+  } catch (error: any) {
+    if (error.status === 413 || error.message?.includes("size limit")) {
+      throw new Error("File is too large for vector store upload.");
+    }
+    if (error.status === 429) {
+      throw new Error("Rate limit exceeded while uploading. Retry in a few moments.");
+    }
+    throw error;
+  } finally {
+    if (contentFile) {
+      await unlink(contentFile).catch(() => {});
+    }
+  }
+
+  try {
+    await llm.addFilesToVectorStore(vectorStoreId, [fileId]);
+  } catch (error) {
+    // Don't leave an orphaned file behind; the retry uploads it again
+    await llm.deleteFile(fileId).catch(() => {});
+    throw error;
+  }
+
+  console.log(`Uploaded document ${document.id} to vector store ${vectorStoreId} as ${fileId}`);
+  return fileId;
+}
+
+// Polls until the vector store has indexed the file. A file that fails to index is
+// removed so that retrying the document uploads it afresh.
+async function waitForVectorStoreIndexing(
+  vectorStoreId: string,
+  document: Document,
+  update: (updates: Partial<InsertDocument>) => Promise<Document>
+) {
+  const fileId = document.openaiFileId!;
+  const deadline = Date.now() + INDEXING_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const { status, error } = await llm.getVectorStoreFileStatus(vectorStoreId, fileId);
+    if (status === "completed") {
+      return;
+    }
+    if (status === "failed" || status === "cancelled") {
+      await llm.deleteFile(fileId).catch(() => {});
+      await update({ openaiFileId: null });
+      throw new Error(`Vector store indexing ${status}${error ? `: ${error}` : ""}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, INDEXING_POLL_INTERVAL_MS));
+  }
+
+  throw new Error("Timed out waiting for the vector store to index the file");
+}
+
+class DocumentDeletedError extends Error {
+  constructor() {
+    super("Document was deleted during ingestion");
+    this.name = "DocumentDeletedError";
+  }
+}
@@ -0,0 +1,115 @@
+import type { Chatbot, KnowledgeGap, Message } from "@shared/schema";
+import { storage } from "./storage";
+import { cosineSimilarity, embeddingBackend } from "./retrieval";
+import { embeddingUsageRecorder } from "./usage";
+
+// Phrasings of answers that admit the bot couldn't help, rather than answering
+const REFUSAL_PATTERNS = [
+  /\bI (?:don't|do not) (?:have|know)\b.{0,40}\b(?:information|details|answer|data)\b/i,
+  /\bI (?:can't|cannot|couldn't|could not|am unable to|am not able to|'m unable to|'m not able to) (?:find|answer|locate|provide|help with)\b/i,
+  /\b(?:I'm|I am) not sure\b/i,
+  /\b(?:no|not any) (?:information|details|mention)\b.{0,40}\b(?:documents?|knowledge base|provided|available|files?)\b/i,
+  /\b(?:isn't|is not|wasn't|was not|aren't|are not) (?:covered|mentioned|included|addressed)\b/i,
+  /\boutside (?:of )?(?:my|the) (?:knowledge|scope|information)\b/i,
+];
+
+// Questions at least this similar to a cluster's centroid are counted as the same gap
+const CLUSTER_SIMILARITY = 0.5;
+const MAX_EXAMPLES = 5;
+// Newest gap answers clustered per report, bounding the query and embedding work
+const MAX_GAP_MESSAGES = 2000;
+
+type Cluster = {
+  members: number[];
+  // Sum of the members' vectors, and the same direction at unit length for comparisons
+  sum: number[];
+  centroid: number[];
+};
+
+/**
+ * Whether an answer's wording says it couldn't answer the question
+ */
+export function isRefusal(content: string): boolean {
+  return REFUSAL_PATTERNS.some(pattern => pattern.test(content));
+}
+
+/**
+ * Message columns recording whether an answer points to a gap in the knowledge base
+ * @param content The answer sent to the patient
+ * @param signals Whether the fallback response was sent, and how many knowledge base
+ * results the answer had to work with (null when the knowledge base wasn't searched)
+ */
+export function gapFields(
+  content: string,
+  signals: { usedFallback: boolean; searchResultCount: number | null }
+): Pick<Message, "usedFallback" | "searchResultCount" | "refusal"> {
+  return {
+    usedFallback: signals.usedFallback,
+    searchResultCount: signals.searchResultCount,
+    // The fallback response is the chatbot's own wording, not the model admitting a gap
+    refusal: !signals.usedFallback && isRefusal(content),
+  };
+}
+
+/**
+ * Clusters the questions behind fallback, empty-search and refusal answers into gaps,
+ * per chatbot, ranked by how often they were asked
+ */
+export async function buildKnowledgeGaps(chatbots: Chatbot[], timeFilter?: any): Promise<KnowledgeGap[]> {
+  const allRows = (await storage.getKnowledgeGapMessages(chatbots.map(chatbot => chatbot.id), MAX_GAP_MESSAGES, timeFilter))
+    .filter((row): row is { answer: Message; question: string } => !!row.question?.trim());
+  const gaps: KnowledgeGap[] = [];
+
+  for (const chatbot of chatbots) {
+    // Rows are newest first, so each cluster's first member is its latest question
+    const rows = allRows.filter(row => row.answer.chatbotId === chatbot.id);
+    if (rows.length === 0) continue;
+
+    const vectors = await embeddingBackend.embed(rows.map(row => row.question), embeddingUsageRecorder(chatbot.id));
+    const clusters: Cluster[] = [];
+    rows.forEach((_row, i) => {
+      let best: Cluster | undefined;
+      let bestSimilarity = CLUSTER_SIMILARITY;
+      for (const cluster of clusters) {
+        const similarity = cosineSimilarity(cluster.centroid, vectors[i]);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        best.members.push(i);
+        best.sum = best.sum.map((value, d) => value + vectors[i][d]);
+        best.centroid = normalize(best.sum);
+      } else {
+        clusters.push({ members: [i], sum: [...vectors[i]], centroid: vectors[i] });
+      }
+    });
+
+    for (const cluster of clusters) {
+      const members = cluster.members.map(i => rows[i]);
+      const typical = cluster.members.reduce((best, i) =>
+        cosineSimilarity(vectors[i], cluster.centroid) > cosineSimilarity(vectors[best], cluster.centroid) ? i : best);
+
+      gaps.push({
+        chatbotId: chatbot.id,
+        chatbotName: chatbot.name,
+        question: rows[typical].question.trim(),
+        count: members.length,
+        examples: Array.from(new Set(members.map(row => row.question.trim()))).slice(0, MAX_EXAMPLES),
+        fallbackCount: members.filter(row => row.answer.usedFallback).length,
+        noResultsCount: members.filter(row => row.answer.searchResultCount === 0).length,
+        refusalCount: members.filter(row => row.answer.refusal).length,
+        lastAskedAt: members[0].answer.timestamp.toISOString(),
+      });
+    }
+  }
+
+  return gaps.sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
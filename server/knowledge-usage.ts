@@ -0,0 +1,148 @@
+import type { Chatbot, Document, KnowledgeUsage, KnowledgeUsageFile } from "@shared/schema";
+import type { LLMVectorStoreFile } from "./llm/types";
+import { storage } from "./storage";
+import { llm } from "./client";
+
+// Listing a vector store pages through every file, so results are reused for a while
+const USAGE_CACHE_TTL_MS = 60 * 1000;
+
+// Chatbot ID -> listing of its vector store's files
+const fileListCache = new Map<number, { vectorStoreId: string; files: LLMVectorStoreFile[]; checkedAt: Date }>();
+
+/**
+ * Knowledge base usage of a chatbot: the files in its vector store with their indexing
+ * status and size (or its documents, for chatbots that retrieve from local chunks),
+ * plus documents still waiting to be uploaded
+ * @param refresh List the vector store again instead of using a cached listing
+ */
+export async function getKnowledgeUsage(chatbot: Chatbot, refresh = false): Promise<KnowledgeUsage> {
+  const documents = await storage.getDocumentsByChatbotId(chatbot.id);
+  const limits = {
+    fileLimit: chatbot.knowledgeFileLimit,
+    storageLimitBytes: chatbot.knowledgeStorageLimitMb * 1024 * 1024,
+  };
+
+  if (!chatbot.vectorStoreId || !llm.supportsVectorStores) {
+    const files = documents.map(documentUsageFile);
+    return {
+      fileCount: files.length,
+      totalBytes: sumBytes(files),
+      pendingCount: 0,
+      pendingBytes: 0,
+      ...limits,
+      files,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  const { files: storeFiles, checkedAt } = await listVectorStoreFiles(chatbot.id, chatbot.vectorStoreId, refresh);
+  const documentsByFileId = new Map<string, Document>();
+  for (const document of documents) {
+    if (document.openaiFileId) documentsByFileId.set(document.openaiFileId, document);
+    if (document.supersededFileId) documentsByFileId.set(document.supersededFileId, document);
+  }
+
+  const files: KnowledgeUsageFile[] = storeFiles.map(file => {
+    const document = documentsByFileId.get(file.id);
+    return {
+      fileId: file.id,
+      documentId: document?.id ?? null,
+      name: document?.name ?? null,
+      status: file.status,
+      // Files still being indexed don't report their size yet
+      bytes: file.bytes || (file.status === "in_progress" ? document?.size ?? 0 : 0),
+      error: file.error ?? null,
+    };
+  });
+
+  // Documents whose file isn't in the store yet, e.g. queued uploads
+  const storedFileIds = new Set(storeFiles.map(file => file.id));
+  const pending = documents.filter(document =>
+    document.status !== "ready" && document.status !== "failed" &&
+    (!document.openaiFileId || !storedFileIds.has(document.openaiFileId)));
+
+  return {
+    fileCount: files.length,
+    totalBytes: sumBytes(files),
+    pendingCount: pending.length,
+    pendingBytes: pending.reduce((sum, document) => sum + document.size, 0),
+    ...limits,
+    files,
+    checkedAt: checkedAt.toISOString(),
+  };
+}
+
+/**
+ * Checks whether new documents fit within a chatbot's knowledge base limits,
+ * counting documents already waiting to be uploaded
+ * @returns Why the upload is refused, or null if it fits
+ */
+export async function checkKnowledgeCapacity(chatbot: Chatbot, incoming: { files: number; bytes: number }): Promise<string | null> {
+  const usage = await getKnowledgeUsage(chatbot);
+  return capacityError(
+    usage,
+    usage.fileCount + usage.pendingCount + incoming.files,
+    usage.totalBytes + usage.pendingBytes + incoming.bytes
+  );
+}
+
+/**
+ * Checks whether a document fits in the chatbot's vector store right before it is
+ * uploaded. Pending documents aren't counted here: they were checked on upload, and
+ * this one is among them. A new version takes the place of the file it supersedes.
+ */
+export async function checkVectorStoreCapacity(chatbot: Chatbot, document: Document): Promise<string | null> {
+  const usage = await getKnowledgeUsage(chatbot, true);
+  const superseded = usage.files.find(file => file.fileId && file.fileId === document.supersededFileId);
+  return capacityError(
+    usage,
+    usage.fileCount + (superseded ? 0 : 1),
+    usage.totalBytes - (superseded?.bytes ?? 0) + document.size
+  );
+}
+
+/**
+ * Drops a chatbot's cached vector store listing after its files change
+ */
+export function invalidateKnowledgeUsage(chatbotId: number | null) {
+  if (chatbotId) {
+    fileListCache.delete(chatbotId);
+  }
+}
+
+function capacityError(usage: KnowledgeUsage, fileCount: number, totalBytes: number): string | null {
+  if (fileCount > usage.fileLimit) {
+    return `Knowledge base limit reached: this chatbot can hold at most ${usage.fileLimit} documents.`;
+  }
+  if (totalBytes > usage.storageLimitBytes) {
+    return `Knowledge base limit reached: this chatbot can store at most ${Math.round(usage.storageLimitBytes / (1024 * 1024))}MB of documents.`;
+  }
+  return null;
+}
+
+async function listVectorStoreFiles(chatbotId: number, vectorStoreId: string, refresh: boolean) {
+  const cached = fileListCache.get(chatbotId);
+  if (cached && !refresh && cached.vectorStoreId === vectorStoreId &&
+      Date.now() - cached.checkedAt.getTime() < USAGE_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const listing = { vectorStoreId, files: await llm.listVectorStoreFiles(vectorStoreId), checkedAt: new Date() };
+  fileListCache.set(chatbotId, listing);
+  return listing;
+}
+
+function documentUsageFile(document: Document): KnowledgeUsageFile {
+  return {
+    fileId: null,
+    documentId: document.id,
+    name: document.name,
+    status: document.status,
+    bytes: document.size,
+    error: document.error,
+  };
+}
+
+function sumBytes(files: KnowledgeUsageFile[]) {
+  return files.reduce((sum, file) => sum + file.bytes, 0);
+}
@@ -0,0 +1,31 @@
+import { MockProvider } from "./mock-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import { OpenAIProvider } from "./openai-provider";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+export { MockProvider, OpenAICompatibleProvider, OpenAIProvider };
+
+/**
+ * Creates the LLM provider selected by the LLM_PROVIDER environment variable:
+ * - "openai" (default): OpenAI API using OPENAI_API_KEY
+ * - "openai-compatible": Chat Completions endpoint at LLM_BASE_URL, optional LLM_API_KEY
+ * - "mock": scripted offline provider, optional LLM_MOCK_SCRIPT JSON file
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = env.LLM_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: env.OPENAI_API_KEY });
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL must be set when LLM_PROVIDER is \"openai-compatible\"");
+      }
+      return new OpenAICompatibleProvider({ baseUrl: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY });
+    case "mock":
+      return new MockProvider({ scriptPath: env.LLM_MOCK_SCRIPT });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+}
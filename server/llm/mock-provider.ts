@@ -0,0 +1,264 @@
+import fs from "fs";
+import {
+  LLMProviderError,
+  type LLMEmbeddings,
+  type LLMFunctionCall,
+  type LLMModel,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMResponseRequest,
+  type LLMStreamEvent,
+  type LLMUploadedFile,
+  type LLMUsage,
+  type LLMVectorStore,
+  type LLMVectorStoreFile,
+  type LLMVectorStoreFileStatus,
+} from "./types";
+
+export type MockScriptEntry = {
+  // Case-insensitive substring (or /regex/flags) matched against the latest user message
+  match: string;
+  reply: string;
+  // Ask for this function tool first (when offered); the reply is sent once its output comes back
+  toolCall?: { name: string; arguments: Record<string, unknown> };
+};
+
+const MOCK_MODELS = ["gpt-4o", "gpt-4o-mini", "gpt-3.5-turbo"];
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Deterministic offline provider for development and tests.
+ * Replies come from a script of match/reply pairs, falling back to echoing the
+ * user's message. Files, vector stores and response IDs are kept in memory, so
+ * chaining from a response issued before a restart fails like an expired one.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly supportsVectorStores = true;
+  readonly supportsResponseChaining = true;
+  private script: MockScriptEntry[];
+  private files = new Map<string, LLMUploadedFile>();
+  // File IDs in each store map to when they were added (Unix seconds)
+  private vectorStores = new Map<string, { name: string; createdAt: number; fileIds: Map<string, number> }>();
+  private responseIds = new Set<string>();
+  private counter = 0;
+
+  constructor(options: { script?: MockScriptEntry[]; scriptPath?: string } = {}) {
+    this.script = options.script ?? (options.scriptPath ? loadScript(options.scriptPath) : []);
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}_mock_${this.counter}`;
+  }
+
+  private startResponse(request: LLMResponseRequest): string {
+    if (request.previous_response_id && !this.responseIds.has(request.previous_response_id)) {
+      throw new LLMProviderError(`Previous response with id '${request.previous_response_id}' not found.`, {
+        status: 404,
+        param: "previous_response_id",
+      });
+    }
+
+    const id = this.nextId("resp");
+    this.responseIds.add(id);
+    return id;
+  }
+
+  private reply(request: LLMResponseRequest): string {
+    const userMessage = latestUserMessage(request);
+    const entry = this.script.find(e => matches(e.match, userMessage));
+
+    if (entry) {
+      return entry.reply;
+    }
+
+    const lastItem = Array.isArray(request.input) ? request.input[request.input.length - 1] : undefined;
+    if (lastItem && "type" in lastItem && lastItem.type === "function_call_output") {
+      return `Mock response using tool output: ${lastItem.output}`;
+    }
+
+    return `Mock response to: ${userMessage}`;
+  }
+
+  // Returns the scripted function call for this turn, unless it was already answered
+  private toolCall(request: LLMResponseRequest): LLMFunctionCall | null {
+    const lastItem = Array.isArray(request.input) ? request.input[request.input.length - 1] : undefined;
+    if (!lastItem || !("role" in lastItem) || lastItem.role !== "user") {
+      return null;
+    }
+
+    const entry = this.script.find(e => e.toolCall && matches(e.match, lastItem.content));
+    const offered = request.tools?.some(tool => tool.type === "function" && tool.name === entry?.toolCall?.name);
+    if (!entry?.toolCall || !offered) {
+      return null;
+    }
+
+    return {
+      type: "function_call",
+      call_id: this.nextId("call"),
+      name: entry.toolCall.name,
+      arguments: JSON.stringify(entry.toolCall.arguments),
+    };
+  }
+
+  async createResponse(request: LLMResponseRequest): Promise<LLMResponse> {
+    const text = this.reply(request);
+    return {
+      id: this.startResponse(request),
+      model: request.model,
+      output_text: text,
+      usage: estimateUsage(request, text),
+    };
+  }
+
+  async streamResponse(request: LLMResponseRequest): Promise<AsyncIterable<LLMStreamEvent>> {
+    const id = this.startResponse(request);
+    const toolCall = this.toolCall(request);
+    const text = this.reply(request);
+    const usage = estimateUsage(request, toolCall ? toolCall.arguments : text);
+    const completed = {
+      type: "response.completed",
+      response: {
+        id,
+        usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens, input_tokens_details: { cached_tokens: 0 } },
+      },
+    };
+
+    async function* events(): AsyncGenerator<LLMStreamEvent> {
+      yield { type: "response.created", response: { id } };
+      if (toolCall) {
+        yield { type: "response.output_item.done", item: toolCall };
+        yield completed;
+        return;
+      }
+      // Emit word by word so clients exercise incremental rendering
+      for (const token of text.match(/\S+\s*/g) ?? []) {
+        yield { type: "response.output_text.delta", delta: token };
+      }
+      yield { type: "response.output_text.done", text };
+      yield completed;
+    }
+
+    return events();
+  }
+
+  async createEmbeddings(_model: string, input: string[]): Promise<LLMEmbeddings> {
+    return {
+      embeddings: input.map(mockEmbedding),
+      usage: { inputTokens: Math.ceil(input.join("").length / 4), outputTokens: 0, cachedTokens: 0 },
+    };
+  }
+
+  async uploadFile(file: { path: string; name: string }): Promise<LLMUploadedFile> {
+    const uploaded = { id: this.nextId("file"), bytes: fs.statSync(file.path).size };
+    this.files.set(uploaded.id, uploaded);
+    return uploaded;
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    this.files.delete(fileId);
+    this.vectorStores.forEach(store => store.fileIds.delete(fileId));
+  }
+
+  async createVectorStore(name: string): Promise<LLMVectorStore> {
+    const id = this.nextId("vs");
+    const createdAt = unixNow();
+    this.vectorStores.set(id, { name, createdAt, fileIds: new Map() });
+    return { id, name, createdAt };
+  }
+
+  async deleteVectorStore(vectorStoreId: string): Promise<void> {
+    this.vectorStores.delete(vectorStoreId);
+  }
+
+  async addFilesToVectorStore(vectorStoreId: string, fileIds: string[]): Promise<void> {
+    const store = this.vectorStores.get(vectorStoreId);
+    if (!store) {
+      throw new Error(`Vector store ${vectorStoreId} not found`);
+    }
+    fileIds.forEach(id => store.fileIds.set(id, unixNow()));
+  }
+
+  // Files are indexed as soon as they are added
+  async getVectorStoreFileStatus(vectorStoreId: string, fileId: string): Promise<LLMVectorStoreFileStatus> {
+    const store = this.vectorStores.get(vectorStoreId);
+    if (!store?.fileIds.has(fileId)) {
+      return { status: "failed", error: `File ${fileId} is not in vector store ${vectorStoreId}` };
+    }
+    return { status: "completed" };
+  }
+
+  async listVectorStores(): Promise<LLMVectorStore[]> {
+    return Array.from(this.vectorStores.entries()).map(([id, store]) => ({ id, name: store.name, createdAt: store.createdAt }));
+  }
+
+  async listVectorStoreFiles(vectorStoreId: string): Promise<LLMVectorStoreFile[]> {
+    const store = this.vectorStores.get(vectorStoreId);
+    if (!store) {
+      throw new LLMProviderError(`Vector store ${vectorStoreId} not found`, { status: 404 });
+    }
+    return Array.from(store.fileIds.entries()).map(([id, createdAt]) => ({
+      id,
+      status: "completed",
+      bytes: this.files.get(id)?.bytes,
+      createdAt,
+    }));
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    return MOCK_MODELS.map(id => ({ id, created: 0, ownedBy: "mock", object: "model" }));
+  }
+}
+
+function unixNow() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function loadScript(scriptPath: string): MockScriptEntry[] {
+  try {
+    return JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+  } catch (error) {
+    console.error(`Failed to load mock LLM script from ${scriptPath}:`, error);
+    return [];
+  }
+}
+
+// Rough token counts (4 characters per token) so usage accounting can be exercised offline
+function estimateUsage(request: LLMResponseRequest, output: string): LLMUsage {
+  const input = (request.instructions ?? "") + JSON.stringify(request.input);
+  return {
+    inputTokens: Math.ceil(input.length / 4),
+    outputTokens: Math.ceil(output.length / 4),
+    cachedTokens: 0,
+  };
+}
+
+// Bag-of-words vector hashed into a few dimensions, so texts sharing words come out similar
+function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const ch of word) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+    vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+}
+
+function latestUserMessage(request: LLMResponseRequest): string {
+  if (typeof request.input === "string") {
+    return request.input;
+  }
+  const userMessages = request.input.filter(item => "role" in item && item.role === "user");
+  const latest = userMessages[userMessages.length - 1];
+  return latest && "content" in latest ? latest.content : "";
+}
+
+function matches(pattern: string, text: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(text);
+  }
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
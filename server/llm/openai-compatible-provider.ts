@@ -0,0 +1,323 @@
+import { nanoid } from "nanoid";
+import {
+  LLMProviderError,
+  type LLMEmbeddings,
+  type LLMFunctionCall,
+  type LLMInputItem,
+  type LLMModel,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMResponseRequest,
+  type LLMStreamEvent,
+  type LLMUploadedFile,
+  type LLMUsage,
+  type LLMVectorStore,
+  type LLMVectorStoreFile,
+  type LLMVectorStoreFileStatus,
+} from "./types";
+
+/**
+ * Provider for any server exposing the OpenAI Chat Completions HTTP API
+ * (llama.cpp server, vLLM, Ollama, LM Studio...).
+ * These servers have no file or vector store endpoints, so knowledge retrieval
+ * through file_search is unavailable and file_search tools are dropped. Function
+ * tools are translated to Chat Completions tool calls. These servers are also
+ * stateless, so callers must always send the full conversation.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai-compatible";
+  readonly supportsVectorStores = false;
+  readonly supportsResponseChaining = false;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: this.headers(),
+    });
+
+    if (!response.ok) {
+      let message = `Request to ${path} failed with status ${response.status}`;
+      let param: string | null = null;
+      try {
+        const body = await response.json();
+        message = body?.error?.message || message;
+        param = body?.error?.param ?? null;
+      } catch {
+        // Body was not JSON, keep the generic message
+      }
+      throw new LLMProviderError(message, { status: response.status, param });
+    }
+
+    return response;
+  }
+
+  // Translates a Responses-style request into a Chat Completions request body
+  private toChatCompletionBody(request: LLMResponseRequest, stream: boolean) {
+    const messages: ChatCompletionMessage[] = [];
+
+    if (request.instructions) {
+      messages.push({ role: "system", content: request.instructions });
+    }
+
+    if (typeof request.input === "string") {
+      messages.push({ role: "user", content: request.input });
+    } else {
+      messages.push(...toChatCompletionMessages(request.input));
+    }
+
+    const tools = (request.tools ?? [])
+      .filter(tool => tool.type === "function")
+      .map(tool => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+
+    return {
+      model: request.model,
+      messages,
+      stream,
+      // Ask for a final usage chunk when streaming
+      ...(stream && { stream_options: { include_usage: true } }),
+      ...(tools.length > 0 && { tools }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.max_output_tokens !== undefined && { max_tokens: request.max_output_tokens }),
+    };
+  }
+
+  async createResponse(request: LLMResponseRequest): Promise<LLMResponse> {
+    const response = await this.request("/chat/completions", {
+      method: "POST",
+      body: JSON.stringify(this.toChatCompletionBody(request, false)),
+    });
+    const body = await response.json();
+
+    return {
+      id: body.id ?? `resp_${nanoid()}`,
+      model: body.model ?? request.model,
+      output_text: body.choices?.[0]?.message?.content ?? "",
+      usage: readChatCompletionUsage(body.usage),
+      raw: body,
+    };
+  }
+
+  async streamResponse(request: LLMResponseRequest): Promise<AsyncIterable<LLMStreamEvent>> {
+    const response = await this.request("/chat/completions", {
+      method: "POST",
+      body: JSON.stringify(this.toChatCompletionBody(request, true)),
+    });
+
+    if (!response.body) {
+      throw new LLMProviderError("Streaming response has no body");
+    }
+
+    return readChatCompletionStream(response.body, `resp_${nanoid()}`);
+  }
+
+  async createEmbeddings(model: string, input: string[]): Promise<LLMEmbeddings> {
+    const response = await this.request("/embeddings", {
+      method: "POST",
+      body: JSON.stringify({ model, input }),
+    });
+    const body = await response.json();
+
+    return {
+      embeddings: (body.data ?? [])
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item: any) => item.embedding as number[]),
+      usage: readChatCompletionUsage(body.usage),
+    };
+  }
+
+  async uploadFile(_file: { path: string; name: string }): Promise<LLMUploadedFile> {
+    throw new LLMProviderError("File uploads are not supported by OpenAI-compatible endpoints");
+  }
+
+  async deleteFile(_fileId: string): Promise<void> {
+    throw new LLMProviderError("File deletion is not supported by OpenAI-compatible endpoints");
+  }
+
+  async createVectorStore(_name: string): Promise<LLMVectorStore> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async deleteVectorStore(_vectorStoreId: string): Promise<void> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async addFilesToVectorStore(_vectorStoreId: string, _fileIds: string[]): Promise<void> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async getVectorStoreFileStatus(_vectorStoreId: string, _fileId: string): Promise<LLMVectorStoreFileStatus> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async listVectorStores(): Promise<LLMVectorStore[]> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async listVectorStoreFiles(_vectorStoreId: string): Promise<LLMVectorStoreFile[]> {
+    throw new LLMProviderError("Vector stores are not supported by OpenAI-compatible endpoints");
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    const response = await this.request("/models", { method: "GET" });
+    const body = await response.json();
+
+    return (body.data ?? []).map((m: any) => ({
+      id: m.id,
+      created: m.created ?? 0,
+      ownedBy: m.owned_by ?? this.name,
+      object: m.object ?? "model",
+    }));
+  }
+}
+
+type ChatCompletionMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ChatCompletionToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+type ChatCompletionToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+// Maps Responses input items to chat messages. Consecutive function calls become
+// one assistant message with tool_calls; their outputs become "tool" messages.
+function toChatCompletionMessages(input: LLMInputItem[]): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+
+  for (const item of input) {
+    if ("role" in item) {
+      messages.push(item.role === "assistant"
+        ? { role: "assistant", content: item.content }
+        : { role: item.role, content: item.content });
+    } else if (item.type === "function_call") {
+      const toolCall: ChatCompletionToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant" && last.tool_calls) {
+        last.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+      }
+    } else {
+      messages.push({ role: "tool", tool_call_id: item.call_id, content: item.output });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Reads a Chat Completions SSE stream and re-emits it as Responses API events
+ */
+async function* readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  responseId: string
+): AsyncGenerator<LLMStreamEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = "";
+  // Tool call fragments by index; names and arguments arrive in pieces
+  const toolCalls: { id?: string; name: string; arguments: string }[] = [];
+  let usage: LLMUsage | undefined;
+
+  yield { type: "response.created", response: { id: responseId } };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice("data:".length).trim();
+        if (data === "[DONE]") {
+          yield* finishStream(responseId, toolCalls, usage);
+          return;
+        }
+
+        const chunk = JSON.parse(data);
+        // The usage chunk has no choices
+        usage = readChatCompletionUsage(chunk.usage) ?? usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield { type: "response.output_text.delta", delta };
+        }
+
+        for (const fragment of chunk.choices?.[0]?.delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index ?? 0] ??= { name: "", arguments: "" });
+          call.id = fragment.id ?? call.id;
+          call.name += fragment.function?.name ?? "";
+          call.arguments += fragment.function?.arguments ?? "";
+        }
+      }
+    }
+
+    yield* finishStream(responseId, toolCalls, usage);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function* finishStream(
+  responseId: string,
+  toolCalls: { id?: string; name: string; arguments: string }[],
+  usage?: LLMUsage
+): Generator<LLMStreamEvent> {
+  for (const call of toolCalls.filter(Boolean)) {
+    const item: LLMFunctionCall = {
+      type: "function_call",
+      call_id: call.id ?? `call_${nanoid()}`,
+      name: call.name,
+      arguments: call.arguments || "{}",
+    };
+    yield { type: "response.output_item.done", item };
+  }
+  yield { type: "response.output_text.done" };
+  yield { type: "response.completed", response: { id: responseId, usage: toResponseUsage(usage) } };
+}
+
+function readChatCompletionUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+// Converts usage back to the Responses API shape carried by "response.completed"
+function toResponseUsage(usage?: LLMUsage) {
+  return usage && {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    input_tokens_details: { cached_tokens: usage.cachedTokens },
+  };
+}
@@ -0,0 +1,122 @@
+import OpenAI from "openai";
+import fs from "fs";
+import {
+  readResponseUsage,
+  type LLMEmbeddings,
+  type LLMModel,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMResponseRequest,
+  type LLMStreamEvent,
+  type LLMUploadedFile,
+  type LLMVectorStore,
+  type LLMVectorStoreFile,
+  type LLMVectorStoreFileStatus,
+} from "./types";
+
+/**
+ * Provider backed by the official OpenAI SDK (Responses API, files, vector stores)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly supportsVectorStores = true;
+  readonly supportsResponseChaining = true;
+  private client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY ?? "",
+      ...(options.baseURL && { baseURL: options.baseURL }),
+    });
+  }
+
+  async createResponse(request: LLMResponseRequest): Promise<LLMResponse> {
+    const response = await this.client.responses.create(request as any);
+    return {
+      id: response.id,
+      model: response.model,
+      output_text: response.output_text,
+      usage: readResponseUsage(response.usage),
+      raw: response,
+    };
+  }
+
+  async streamResponse(request: LLMResponseRequest): Promise<AsyncIterable<LLMStreamEvent>> {
+    const stream = await this.client.responses.create({ ...request, stream: true } as any);
+    return stream as unknown as AsyncIterable<LLMStreamEvent>;
+  }
+
+  async createEmbeddings(model: string, input: string[]): Promise<LLMEmbeddings> {
+    const response = await this.client.embeddings.create({ model, input });
+    return {
+      embeddings: response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding),
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: 0, cachedTokens: 0 }
+        : undefined,
+    };
+  }
+
+  async uploadFile(file: { path: string; name: string }): Promise<LLMUploadedFile> {
+    const uploaded = await this.client.files.create({
+      file: fs.createReadStream(file.path),
+      purpose: "assistants",
+    });
+    return { id: uploaded.id, bytes: uploaded.bytes };
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    await this.client.files.delete(fileId);
+  }
+
+  async createVectorStore(name: string): Promise<LLMVectorStore> {
+    const vectorStore = await this.client.vectorStores.create({ name });
+    return { id: vectorStore.id, name: vectorStore.name, createdAt: vectorStore.created_at };
+  }
+
+  async deleteVectorStore(vectorStoreId: string): Promise<void> {
+    await this.client.vectorStores.delete(vectorStoreId);
+  }
+
+  async addFilesToVectorStore(vectorStoreId: string, fileIds: string[]): Promise<void> {
+    await this.client.vectorStores.fileBatches.create(vectorStoreId, { file_ids: fileIds });
+  }
+
+  async getVectorStoreFileStatus(vectorStoreId: string, fileId: string): Promise<LLMVectorStoreFileStatus> {
+    const file = await this.client.vectorStores.files.retrieve(fileId, { vector_store_id: vectorStoreId });
+    return { status: file.status, error: file.last_error?.message };
+  }
+
+  async listVectorStores(): Promise<LLMVectorStore[]> {
+    const vectorStores: LLMVectorStore[] = [];
+    for await (const vectorStore of this.client.vectorStores.list({ limit: 100 })) {
+      vectorStores.push({ id: vectorStore.id, name: vectorStore.name, createdAt: vectorStore.created_at });
+    }
+    return vectorStores;
+  }
+
+  async listVectorStoreFiles(vectorStoreId: string): Promise<LLMVectorStoreFile[]> {
+    const files: LLMVectorStoreFile[] = [];
+    for await (const file of this.client.vectorStores.files.list(vectorStoreId, { limit: 100 })) {
+      files.push({
+        id: file.id,
+        status: file.status,
+        error: file.last_error?.message,
+        bytes: file.usage_bytes,
+        createdAt: file.created_at,
+      });
+    }
+    return files;
+  }
+
+  async listModels(): Promise<LLMModel[]> {
+    const list = await this.client.models.list();
+    return list.data.map(m => ({
+      id: m.id,
+      created: m.created ?? 0,
+      ownedBy: m.owned_by ?? "openai",
+      object: m.object,
+    }));
+  }
+}
@@ -0,0 +1,169 @@
+// Provider-neutral types shared by every LLM backend.
+// Requests and stream events follow the shape of the OpenAI Responses API so the
+// rest of the server can stay agnostic of which backend is answering.
+
+export type LLMRole = "system" | "user" | "assistant";
+
+export type LLMInputMessage = {
+  role: LLMRole;
+  content: string;
+};
+
+// A function call the model asked for, echoed back in the input of the follow-up request
+export type LLMFunctionCall = {
+  type: "function_call";
+  call_id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments
+};
+
+export type LLMFunctionCallOutput = {
+  type: "function_call_output";
+  call_id: string;
+  output: string;
+};
+
+export type LLMInputItem = LLMInputMessage | LLMFunctionCall | LLMFunctionCallOutput;
+
+export type LLMFileSearchTool = {
+  type: "file_search";
+  vector_store_ids: string[];
+};
+
+export type LLMFunctionTool = {
+  type: "function";
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema of the arguments
+};
+
+export type LLMTool = LLMFileSearchTool | LLMFunctionTool;
+
+export interface LLMResponseRequest {
+  model: string;
+  input: string | LLMInputItem[];
+  instructions?: string;
+  temperature?: number;
+  max_output_tokens?: number;
+  tools?: LLMTool[];
+  // Continue from a stored response instead of resending earlier turns
+  previous_response_id?: string;
+  // Extra output to include, e.g. "file_search_call.results" for citation snippets
+  include?: string[];
+}
+
+// Token usage reported for one response. Cached tokens are the part of the input
+// served from the provider's prompt cache (billed at a lower rate).
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+}
+
+// Embedding vectors, in input order, with the tokens billed for them
+export interface LLMEmbeddings {
+  embeddings: number[][];
+  usage?: LLMUsage;
+}
+
+export interface LLMResponse {
+  id: string;
+  model: string;
+  output_text: string;
+  usage?: LLMUsage;
+  raw?: unknown;
+}
+
+// Stream events mirror Responses API event names, e.g. "response.output_text.delta".
+// Function calls arrive as "response.output_item.done" events with an item of type "function_call",
+// and token usage with the final "response.completed" event (see readResponseUsage).
+export type LLMStreamEvent = {
+  type: string;
+  delta?: string;
+  [key: string]: any;
+};
+
+export interface LLMModel {
+  id: string;
+  created: number;
+  ownedBy: string;
+  object: string;
+}
+
+export interface LLMUploadedFile {
+  id: string;
+  bytes?: number;
+}
+
+export interface LLMVectorStore {
+  id: string;
+  name?: string;
+  createdAt?: number; // Unix seconds
+}
+
+// Indexing state of a file added to a vector store
+export interface LLMVectorStoreFileStatus {
+  status: "in_progress" | "completed" | "failed" | "cancelled";
+  error?: string;
+}
+
+// A file attached to a vector store
+export interface LLMVectorStoreFile extends LLMVectorStoreFileStatus {
+  id: string;
+  bytes?: number; // Storage used once indexed
+  createdAt: number; // Unix seconds
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Whether file upload and vector store operations are available
+  readonly supportsVectorStores: boolean;
+  // Whether previous_response_id can be used to continue a stored conversation
+  readonly supportsResponseChaining: boolean;
+
+  createResponse(request: LLMResponseRequest): Promise<LLMResponse>;
+  streamResponse(request: LLMResponseRequest): Promise<AsyncIterable<LLMStreamEvent>>;
+  // One embedding vector per input text, in input order
+  createEmbeddings(model: string, input: string[]): Promise<LLMEmbeddings>;
+
+  uploadFile(file: { path: string; name: string }): Promise<LLMUploadedFile>;
+  deleteFile(fileId: string): Promise<void>;
+
+  createVectorStore(name: string): Promise<LLMVectorStore>;
+  deleteVectorStore(vectorStoreId: string): Promise<void>;
+  addFilesToVectorStore(vectorStoreId: string, fileIds: string[]): Promise<void>;
+  getVectorStoreFileStatus(vectorStoreId: string, fileId: string): Promise<LLMVectorStoreFileStatus>;
+  listVectorStores(): Promise<LLMVectorStore[]>;
+  listVectorStoreFiles(vectorStoreId: string): Promise<LLMVectorStoreFile[]>;
+
+  listModels(): Promise<LLMModel[]>;
+}
+
+/**
+ * Error raised by providers, carrying the HTTP status and offending parameter
+ * when the backend reports them (same fields the OpenAI SDK exposes).
+ */
+export class LLMProviderError extends Error {
+  status?: number;
+  param?: string | null;
+
+  constructor(message: string, options: { status?: number; param?: string | null } = {}) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.status = options.status;
+    this.param = options.param;
+  }
+}
+
+/**
+ * Reads token usage from a Responses API usage object
+ * ({ input_tokens, output_tokens, input_tokens_details: { cached_tokens } })
+ */
+export function readResponseUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cachedTokens: usage.input_tokens_details?.cached_tokens ?? 0,
+  };
+}
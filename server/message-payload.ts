@@ -0,0 +1,51 @@
+import {
+  MAX_MESSAGE_BUTTONS,
+  MAX_MESSAGE_CARDS,
+  MAX_QUICK_REPLIES,
+  messagePayloadSchema,
+  type Message,
+  type MessagePayload,
+} from "@shared/schema";
+
+/**
+ * Payload from untrusted input (a model's tool arguments, stored JSON), or null when
+ * it doesn't validate or holds nothing to show
+ */
+export function parsePayload(value: unknown): MessagePayload | null {
+  const parsed = messagePayloadSchema.safeParse(value);
+  return parsed.success && !isEmptyPayload(parsed.data) ? parsed.data : null;
+}
+
+/**
+ * Payloads combined in order, e.g. the buttons of several flow steps sent as one
+ * message; null when there is nothing to show. Content past the limits of one
+ * message is dropped, keeping the earliest.
+ */
+export function mergePayloads(...payloads: (MessagePayload | null | undefined)[]): MessagePayload | null {
+  const merged: MessagePayload = { quickReplies: [], buttons: [], cards: [] };
+  for (const payload of payloads) {
+    if (!payload) continue;
+    for (const reply of payload.quickReplies) {
+      if (!merged.quickReplies.includes(reply)) merged.quickReplies.push(reply);
+    }
+    merged.buttons.push(...payload.buttons);
+    merged.cards.push(...payload.cards);
+  }
+  merged.quickReplies = merged.quickReplies.slice(0, MAX_QUICK_REPLIES);
+  merged.buttons = merged.buttons.slice(0, MAX_MESSAGE_BUTTONS);
+  merged.cards = merged.cards.slice(0, MAX_MESSAGE_CARDS);
+  return isEmptyPayload(merged) ? null : merged;
+}
+
+/**
+ * Whether a patient message repeats one of the quick replies offered with the last
+ * bot message, i.e. it was sent by tapping it
+ */
+export function isOfferedQuickReply(previousMessages: Message[], message: string): boolean {
+  const lastBotMessage = previousMessages.filter(previous => !previous.isUser).pop();
+  return !!lastBotMessage?.payload?.quickReplies.includes(message.trim());
+}
+
+function isEmptyPayload(payload: MessagePayload): boolean {
+  return payload.quickReplies.length === 0 && payload.buttons.length === 0 && payload.cards.length === 0;
+}
@@ -0,0 +1,153 @@
+import { storage } from "./storage";
+
+// Model used when a chatbot has no model set or its model is no longer offered
+export const DEFAULT_MODEL = "gpt-4o-mini";
+
+// Legacy internal model names that older chatbots may still have stored
+const LEGACY_MODEL_ALIASES: Record<string, string> = {
+  "gpt4-1": "gpt-4-1106-preview",
+  "gpt4o": "gpt-4o",
+  "gpt4": "gpt-4",
+  "gpt4-mini": "gpt-4o-mini",
+  "gpt35turbo": "gpt-3.5-turbo",
+  "gpt4-1-nano": "gpt-4-0125-preview",
+  "gpt4o-mini": "gpt-4o-mini",
+  "chatgpt-4o-latest": "gpt-4o",
+};
+
+// Published context windows (input + output tokens), matched by model ID prefix.
+// The models endpoint does not report them, so they are cached alongside each model.
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["gpt-4.1", 1047576],
+  ["gpt-5", 400000],
+  ["gpt-4o", 128000],
+  ["chatgpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-1106", 128000],
+  ["gpt-4-0125", 128000],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4", 200000],
+];
+
+// Used when a model's context window is unknown
+export const DEFAULT_CONTEXT_WINDOW = 16385;
+
+// Published USD prices per million tokens [input, cached input, output], matched by
+// model ID prefix (more specific prefixes first). Seeded into model_pricing by the
+// models script; edit that table to override.
+const MODEL_PRICES: [prefix: string, prices: [number, number | null, number]][] = [
+  ["gpt-5-nano", [0.05, 0.005, 0.4]],
+  ["gpt-5-mini", [0.25, 0.025, 2]],
+  ["gpt-5", [1.25, 0.125, 10]],
+  ["gpt-4.1-nano", [0.1, 0.025, 0.4]],
+  ["gpt-4.1-mini", [0.4, 0.1, 1.6]],
+  ["gpt-4.1", [2, 0.5, 8]],
+  ["gpt-4o-mini", [0.15, 0.075, 0.6]],
+  ["gpt-4o", [2.5, 1.25, 10]],
+  ["chatgpt-4o", [5, null, 15]],
+  ["gpt-4-turbo", [10, null, 30]],
+  ["gpt-4-1106", [10, null, 30]],
+  ["gpt-4-0125", [10, null, 30]],
+  ["gpt-4", [30, null, 60]],
+  ["gpt-3.5-turbo", [0.5, null, 1.5]],
+  ["o1-mini", [1.1, 0.55, 4.4]],
+  ["o1", [15, 7.5, 60]],
+  ["o3-mini", [1.1, 0.55, 4.4]],
+  ["o3", [2, 0.5, 8]],
+  ["o4-mini", [1.1, 0.275, 4.4]],
+];
+
+export type ModelSettings = {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+};
+
+/**
+ * Reasoning models (o-series, gpt-5) reject sampling parameters such as temperature
+ */
+export function isReasoningModel(model: string): boolean {
+  return /^o\d/.test(model) || model.startsWith("gpt-5");
+}
+
+/**
+ * Maps a stored model name to its canonical OpenAI model ID
+ */
+export function canonicalModelId(model: string): string {
+  return LEGACY_MODEL_ALIASES[model] ?? model;
+}
+
+/**
+ * Looks up the published context window for a model ID
+ */
+export function knownContextWindow(model: string): number | null {
+  const match = CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : null;
+}
+
+/**
+ * Looks up the published token prices for a model ID
+ */
+export function knownModelPricing(model: string): { inputPerMillion: number; cachedInputPerMillion: number | null; outputPerMillion: number } | null {
+  const match = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (!match) {
+    return null;
+  }
+  const [inputPerMillion, cachedInputPerMillion, outputPerMillion] = match[1];
+  return { inputPerMillion, cachedInputPerMillion, outputPerMillion };
+}
+
+/**
+ * Context window for a model, preferring the cached openai_models metadata
+ */
+export async function getContextWindow(model: string): Promise<number> {
+  const cached = await storage.getOpenaiModel(canonicalModelId(model));
+  return cached?.contextWindow ?? knownContextWindow(canonicalModelId(model)) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Checks a model against the cached openai_models list.
+ * When the cache is empty (models script never ran) every model is accepted.
+ */
+export async function isAllowedModel(model: string): Promise<boolean> {
+  const allowed = await storage.getOpenaiModels();
+  if (allowed.length === 0) {
+    return true;
+  }
+  return allowed.some(m => m.id === canonicalModelId(model));
+}
+
+/**
+ * Resolves a chatbot's configured model into request-ready settings.
+ * @param model Model name stored on the chatbot
+ * @param temperature Sampling temperature on the API scale (0-2)
+ * @param maxTokens Maximum number of output tokens
+ * @returns The model to call with only the sampling parameters it supports
+ */
+export async function resolveModelSettings(
+  model: string | null | undefined,
+  temperature?: number,
+  maxTokens?: number
+): Promise<ModelSettings> {
+  let resolvedModel = model ? canonicalModelId(model) : DEFAULT_MODEL;
+
+  if (!(await isAllowedModel(resolvedModel))) {
+    console.warn(`Model "${resolvedModel}" is not in the allowed model list, using ${DEFAULT_MODEL}`);
+    resolvedModel = DEFAULT_MODEL;
+  }
+
+  const settings: ModelSettings = { model: resolvedModel };
+
+  if (typeof temperature === "number" && !isReasoningModel(resolvedModel)) {
+    settings.temperature = Math.min(Math.max(temperature, 0), 2);
+  }
+
+  if (typeof maxTokens === "number" && maxTokens > 0) {
+    settings.maxOutputTokens = maxTokens;
+  }
+
+  return settings;
+}
@@ -1,70 +1,235 @@
-import { openai } from "./client";
+import { llm } from "./client";
+import { readResponseUsage, type LLMFunctionCall, type LLMInputItem, type LLMResponse, type LLMResponseRequest, type LLMTool, type LLMUsage } from "./llm";
+import { DEFAULT_MODEL, type ModelSettings } from "./models";
+import type { ToolResult, ToolSet } from "./tools";
 
 type Message = {
   role: "system" | "user" | "assistant";
   content: string;
 };
 
+// A file citation found in a streamed response, before it is matched to a document
+export type FileCitation = {
+  fileId: string;
+  filename?: string;
+  snippet?: string;
+};
+
+type ChatbotConfig = {
+  // The chatbot's own vector store followed by those of its attached collections
+  vectorStoreIds?: string[];
+} & Partial<ModelSettings>;
+
+// The Responses API rejects max_output_tokens below this value
+const MIN_OUTPUT_TOKENS = 16;
+
+// Longest quoted snippet kept for a citation
+const MAX_SNIPPET_LENGTH = 300;
+// Model/tool round trips allowed per turn before the model must answer without tools
+const MAX_TOOL_ROUNDS = 5;
+
+// Builds the model and sampling portion of a Responses API request
+function buildModelParams(chatbot?: ChatbotConfig): Pick<LLMResponseRequest, "model" | "temperature" | "max_output_tokens"> {
+  const params: Pick<LLMResponseRequest, "model" | "temperature" | "max_output_tokens"> = {
+    model: chatbot?.model || DEFAULT_MODEL,
+  };
+
+  if (typeof chatbot?.temperature === "number") {
+    params.temperature = chatbot.temperature;
+  }
+
+  if (typeof chatbot?.maxOutputTokens === "number") {
+    params.max_output_tokens = Math.max(chatbot.maxOutputTokens, MIN_OUTPUT_TOKENS);
+  }
+
+  return params;
+}
+
+// Sends a request through the provider, dropping sampling parameters the model rejects
+async function withParamFallback<T>(
+  requestConfig: LLMResponseRequest,
+  send: (request: LLMResponseRequest) => Promise<T>
+): Promise<T> {
+  try {
+    return await send(requestConfig);
+  } catch (error: any) {
+    const param = error?.param ?? error?.error?.param;
+    const optional = ["temperature", "max_output_tokens"];
+
+    if (error?.status === 400 && optional.includes(param) && param in requestConfig) {
+      console.warn(`Model ${requestConfig.model} rejected "${param}", retrying without it`);
+      const { [param as keyof LLMResponseRequest]: _unsupported, ...retryConfig } = requestConfig;
+      return await withParamFallback(retryConfig as LLMResponseRequest, send);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * One-off (non-conversation) request, e.g. a summary, retried without the sampling
+ * parameters the model rejects, as chat requests are
+ */
+export async function createResponseWithFallback(request: LLMResponseRequest): Promise<LLMResponse> {
+  return await withParamFallback(request, retry => llm.createResponse(retry));
+}
+
+type ConversationOptions = {
+  userMessage: string;
+  chatbot?: ChatbotConfig;
+  systemPrompt?: string;
+  previousMessages: Message[];
+  previousResponseId?: string | null;
+  // Function tools offered to the model
+  functionTools?: LLMTool[];
+  // Function calls and their outputs from earlier rounds of this turn
+  toolItems?: LLMInputItem[];
+};
+
+// Builds a Responses API request with the system prompt as instructions and the
+// conversation as role-separated messages. When chaining from a stored response
+// only the new user turn (and any tool round trips) is sent.
+function buildConversationRequest({
+  userMessage,
+  chatbot,
+  systemPrompt,
+  previousMessages,
+  previousResponseId,
+  functionTools = [],
+  toolItems = [],
+}: ConversationOptions): LLMResponseRequest {
+  const input: LLMInputItem[] = previousResponseId
+    ? []
+    : previousMessages.map(msg => ({ role: msg.role, content: msg.content }));
+
+  input.push({ role: "user", content: userMessage }, ...toolItems);
+
+  const tools: LLMTool[] = [
+    ...(chatbot?.vectorStoreIds?.length ? [{ type: "file_search" as const, vector_store_ids: chatbot.vectorStoreIds }] : []),
+    ...functionTools,
+  ];
+
+  return {
+    ...buildModelParams(chatbot),
+    input,
+    ...(systemPrompt && { instructions: systemPrompt }),
+    ...(previousResponseId && { previous_response_id: previousResponseId }),
+    ...(tools.length > 0 && { tools }),
+    // Return the matched chunks so citations can quote them
+    ...(chatbot?.vectorStoreIds?.length && { include: ["file_search_call.results"] }),
+  };
+}
+
+// Sends a conversation turn, resending the full history if the chained
+// response is no longer available on the provider (expired or unknown ID)
+async function sendConversation<T>(
+  options: ConversationOptions,
+  send: (request: LLMResponseRequest) => Promise<T>
+): Promise<T> {
+  const chaining = !!options.previousResponseId && llm.supportsResponseChaining;
+
+  try {
+    return await withParamFallback(
+      buildConversationRequest({ ...options, previousResponseId: chaining ? options.previousResponseId : null }),
+      send
+    );
+  } catch (error) {
+    if (!chaining) {
+      throw error;
+    }
+    console.warn(`Could not chain from response ${options.previousResponseId}, resending full history:`, error);
+    return await withParamFallback(buildConversationRequest({ ...options, previousResponseId: null }), send);
+  }
+}
+
+// Picks the best-scoring chunk per file from a file_search_call output item
+function collectSearchSnippets(item: any, snippets: Map<string, { text: string; score: number }>) {
+  for (const result of item?.results ?? []) {
+    if (!result?.file_id || !result.text) continue;
+    const score = typeof result.score === "number" ? result.score : 0;
+    const existing = snippets.get(result.file_id);
+    if (!existing || score > existing.score) {
+      snippets.set(result.file_id, { text: result.text, score });
+    }
+  }
+}
+
+function toSnippet(text?: string): string | undefined {
+  if (!text) return undefined;
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > MAX_SNIPPET_LENGTH
+    ? collapsed.substring(0, MAX_SNIPPET_LENGTH).trimEnd() + "…"
+    : collapsed;
+}
+
+// Sums usage across the rounds of a turn (tool calls make several requests)
+function addUsage(total: LLMUsage | undefined, usage: LLMUsage | undefined): LLMUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+  };
+}
+
 // Responses API implementation for non-streaming
 export async function generateResponseCompletion({
   userMessage,
   chatbot,
   systemPrompt,
   previousMessages = [],
+  previousResponseId,
+  onUsage,
+  onSearchResults,
+  onFallback,
   fallbackResponse = "I couldn't generate a response.",
 }: {
   userMessage: string;
-  chatbot?: { vectorStoreId?: string };
+  chatbot?: ChatbotConfig;
   systemPrompt?: string;
   previousMessages?: Message[];
+  previousResponseId?: string | null;
+  onUsage?: (usage: LLMUsage) => void;
+  // Called with the number of results of each file_search call
+  onSearchResults?: (resultCount: number) => void;
+  // Called when the fallback response is returned instead of an answer
+  onFallback?: () => void;
   fallbackResponse?: string;
 }): Promise<string> {
   try {
     console.log("Making responses API call with:", { 
-      model: "gpt-4o-mini", 
+      ...buildModelParams(chatbot), 
       input: userMessage,
-      hasVectorStore: !!chatbot?.vectorStoreId,
+      hasVectorStore: !!chatbot?.vectorStoreIds?.length,
       hasSystemPrompt: !!systemPrompt,
-      conversationLength: previousMessages.length
+      conversationLength: previousMessages.length,
+      previousResponseId
     });
     
-    // Build full conversation context for Responses API
-    let input = "";
-    
-    // Add system prompt first
-    if (systemPrompt) {
-      input += `${systemPrompt}\n\n`;
-    }
-    
-    // Add conversation history
-    if (previousMessages.length > 0) {
-      input += "Conversation history:\n";
-      previousMessages.forEach(msg => {
-        const role = msg.role === "user" ? "User" : "Assistant";
-        input += `${role}: ${msg.content}\n`;
-      });
-      input += "\n";
-    }
-    
-    // Add current user message
-    input += `User: ${userMessage}`;
-    
-    const response = await openai.responses.create({
-      model: "gpt-4o-mini",
-      input: input,
-      ...(chatbot?.vectorStoreId && {
-        tools: [{
-          type: "file_search",
-          vector_store_ids: [chatbot.vectorStoreId],
-        }]
-      }),
-    });
+    const response = await sendConversation(
+      { userMessage, chatbot, systemPrompt, previousMessages, previousResponseId },
+      request => llm.createResponse(request)
+    );
 
     console.log("Responses API response:", JSON.stringify(response, null, 2));
-    return (response as any).output || fallbackResponse;
+    if (response.usage) {
+      onUsage?.(response.usage);
+    }
+    for (const item of (response.raw as any)?.output ?? []) {
+      if (item?.type === "file_search_call") {
+        onSearchResults?.(item.results?.length ?? 0);
+      }
+    }
+    if (!response.output_text) {
+      onFallback?.();
+      return fallbackResponse;
+    }
+    return response.output_text;
   } catch (error) {
     console.error("OpenAI responses completion error:", error);
     console.error("Error details:", JSON.stringify(error, null, 2));
+    onFallback?.();
     return fallbackResponse;
   }
 }
@@ -75,103 +240,147 @@ export async function generateStreamingResponseCompletion({
   chatbot,
   systemPrompt,
   previousMessages = [],
+  previousResponseId,
+  tools,
   onChunk,
+  onCitation,
+  onToolCall,
+  onToolResult,
+  onSearchResults,
+  onFallback,
   onComplete,
   onError,
   fallbackResponse = "I couldn't generate a response.",
 }: {
   userMessage: string;
-  chatbot?: { vectorStoreId?: string };
+  chatbot?: ChatbotConfig;
   systemPrompt?: string;
   previousMessages?: Message[];
+  previousResponseId?: string | null;
+  tools?: ToolSet;
   onChunk: (chunk: string) => void;
-  onComplete: (fullContent: string) => void;
-  onError: (error: any) => void;
+  onCitation?: (citation: FileCitation) => void;
+  onToolCall?: (call: LLMFunctionCall) => void;
+  onToolResult?: (call: LLMFunctionCall, result: ToolResult) => void;
+  // Called with the number of results of each file_search call
+  onSearchResults?: (resultCount: number) => void;
+  // Called when the fallback response is sent instead of an answer
+  onFallback?: () => void;
+  // Awaited, so failures saving the answer reject the returned promise
+  onComplete: (fullContent: string, responseId?: string, usage?: LLMUsage) => void | Promise<void>;
+  onError: (error: any) => void | Promise<void>;
   fallbackResponse?: string;
 }): Promise<void> {
   console.log("=== RESPONSES API CALLED ===");
   console.log("User message:", userMessage);
   console.log("System prompt:", systemPrompt);
-  console.log("Has vector store:", !!chatbot?.vectorStoreId);
+  console.log("Model:", chatbot?.model || DEFAULT_MODEL);
+  console.log("Has vector store:", !!chatbot?.vectorStoreIds?.length);
   console.log("Conversation length:", previousMessages.length);
   
+  let responseId: string | undefined;
+  let usage: LLMUsage | undefined;
+  let fullResponse = "";
+
   try {
-    // Build full conversation context for Responses API
-    let input = "";
-    
-    // Add system prompt first
-    if (systemPrompt) {
-      input += `${systemPrompt}\n\n`;
-    }
-    
-    // Add conversation history
-    if (previousMessages.length > 0) {
-      input += "Conversation history:\n";
-      previousMessages.forEach(msg => {
-        const role = msg.role === "user" ? "User" : "Assistant";
-        input += `${role}: ${msg.content}\n`;
-      });
-      input += "\n";
-    }
-    
-    // Add current user message
-    input += `User: ${userMessage}`;
-
-    const requestConfig: any = {
-      model: "gpt-4o-mini",
-      input: input,
-      stream: true,
-    };
-
-    // Add vector store tools if available
-    if (chatbot?.vectorStoreId) {
-      requestConfig.tools = [{
-        type: "file_search",
-        vector_store_ids: [chatbot.vectorStoreId],
-      }];
-    }
+    console.log("Previous response ID:", previousResponseId);
+    console.log("Tools:", tools?.definitions.map(t => t.type === "function" ? t.name : t.type) ?? []);
 
-    console.log("Responses API request config:", JSON.stringify(requestConfig, null, 2));
+    const snippets = new Map<string, { text: string; score: number }>();
+    const citedFileIds = new Set<string>();
+    const toolItems: LLMInputItem[] = [];
 
-    const stream = await openai.responses.create(requestConfig);
+    // Each round streams one response; rounds continue while the model calls tools
+    for (let round = 1; ; round++) {
+      const stream = await sendConversation(
+        {
+          userMessage,
+          chatbot,
+          systemPrompt,
+          previousMessages,
+          previousResponseId,
+          functionTools: tools && round <= MAX_TOOL_ROUNDS ? tools.definitions : [],
+          toolItems,
+        },
+        request => llm.streamResponse(request)
+      );
 
-    let fullResponse = "";
-    
-    for await (const chunk of stream as any) {
-      console.log("Received chunk:", JSON.stringify(chunk, null, 2));
-      
-      const eventType = chunk.type || chunk.event || "";
-
-      // Handle different event types according to Responses API streaming docs
-      if (eventType === "response.output_text.delta") {
-        const token = chunk.delta;
-        if (token) {
-          onChunk(token);
-          fullResponse += token;
+      const functionCalls: LLMFunctionCall[] = [];
+
+      for await (const chunk of stream) {
+        console.log("Received chunk:", JSON.stringify(chunk, null, 2));
+        
+        const eventType = chunk.type || chunk.event || "";
+
+        // Handle different event types according to Responses API streaming docs
+        if (eventType === "response.created") {
+          // Keep the response ID so the next turn can chain from it
+          responseId = chunk.response?.id;
+        } else if (eventType === "response.output_text.delta") {
+          const token = chunk.delta;
+          if (token) {
+            onChunk(token);
+            fullResponse += token;
+          }
+        } else if (eventType === "response.output_item.done" && chunk.item?.type === "file_search_call") {
+          // Search results arrive before the answer text that cites them
+          collectSearchSnippets(chunk.item, snippets);
+          onSearchResults?.(chunk.item.results?.length ?? 0);
+        } else if (eventType === "response.output_item.done" && chunk.item?.type === "function_call") {
+          const { call_id, name, arguments: args } = chunk.item;
+          functionCalls.push({ type: "function_call", call_id, name, arguments: args });
+        } else if (eventType === "response.output_text.annotation.added") {
+          const annotation = chunk.annotation;
+          // Report each cited file once, in order of first citation
+          if (annotation?.type === "file_citation" && annotation.file_id && !citedFileIds.has(annotation.file_id)) {
+            citedFileIds.add(annotation.file_id);
+            onCitation?.({
+              fileId: annotation.file_id,
+              filename: annotation.filename,
+              snippet: toSnippet(snippets.get(annotation.file_id)?.text),
+            });
+          }
+        } else if (eventType === "response.completed") {
+          usage = addUsage(usage, readResponseUsage(chunk.response?.usage));
+        } else if (eventType === "response.output_text.done") {
+          // Final output text event; function calls may still follow
+          console.log("Response output text done");
+        } else if (eventType === "response.done") {
+          // Response completely finished
+          console.log("Response completely done");
+          break;
+        } else if (eventType === "error") {
+          // Handle streaming errors
+          console.error("Streaming error event:", chunk);
+          throw new Error(chunk.error?.message || "Streaming error occurred");
         }
-      } else if (eventType === "response.output_text.done") {
-        // Final output text event
-        console.log("Response output text done");
-        break;
-      } else if (eventType === "response.done") {
-        // Response completely finished
-        console.log("Response completely done");
+      }
+
+      if (functionCalls.length === 0 || !tools) {
         break;
-      } else if (eventType === "error") {
-        // Handle streaming errors
-        console.error("Streaming error event:", chunk);
-        throw new Error(chunk.error?.message || "Streaming error occurred");
+      }
+
+      // Run the requested tools and send their outputs back in the next round
+      for (const call of functionCalls) {
+        onToolCall?.(call);
+        const result = await tools.execute(call.name, call.arguments);
+        onToolResult?.(call, result);
+        toolItems.push(call, { type: "function_call_output", call_id: call.call_id, output: result.output });
       }
     }
 
     if (fullResponse.trim() === "") {
       fullResponse = fallbackResponse;
+      onFallback?.();
       onChunk(fallbackResponse);
     }
-
-    onComplete(fullResponse);
   } catch (error) {
     console.error("OpenAI streaming responses completion error:", error);
-    onError(fallbackResponse);
+    onFallback?.();
+    await onError(fallbackResponse);
+    return;
   }
+
+  // Outside the try, so an error saving the answer isn't reported as a failed completion
+  await onComplete(fullResponse, responseId, usage);
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { openai } from "./client";
+import { llm } from "./client";
+import type { LLMUsage } from "./llm";
 import { generateResponseCompletion, generateStreamingResponseCompletion } from "./openai-responses";
+import { resolveModelSettings } from "./models";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 
@@ -10,7 +12,7 @@ export async function verifyApiKey(): Promise<{
   models?: string[];
 }> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
+    if (llm.name === "openai" && !process.env.OPENAI_API_KEY) {
       return {
         valid: false,
         message: "OpenAI API key is not set."
@@ -18,10 +20,10 @@ export async function verifyApiKey(): Promise<{
     }
     
     // Make a simple request to the models endpoint to check if the key is valid
-    const response = await openai.models.list();
+    const models = await llm.listModels();
     
     // Extract the model IDs we care about (GPT models)
-    const gptModels = response.data
+    const gptModels = models
       .filter(model => 
         model.id.includes("gpt") || 
         model.id.includes("GPT") ||
@@ -75,8 +77,16 @@ interface CompletionOptions {
   previousMessages: Message[];
   temperature: number;
   maxTokens: number;
-  documents: string[];
+  // Whole documents to add to the prompt (streaming helper only; routes retrieve chunks instead)
+  documents?: string[];
   fallbackResponse?: string;
+  // Vector stores the model searches with file_search
+  vectorStoreIds?: string[];
+  onUsage?: (usage: LLMUsage) => void;
+  // Called with the number of results of each file_search call
+  onSearchResults?: (resultCount: number) => void;
+  // Called when the fallback response is returned instead of an answer
+  onFallback?: () => void;
 }
 
 interface StreamingCompletionOptions extends CompletionOptions {
@@ -91,6 +101,7 @@ export async function askLLM({
   chatbot,
   systemPrompt,
   previousMessages = [],
+  model,
   temperature = 0.7,
   maxTokens = 512,
   stream = true,
@@ -100,9 +111,10 @@ export async function askLLM({
   fallbackResponse,
 }: {
   userMessage: string;
-  chatbot?: { vectorStoreId?: string };
+  chatbot?: { vectorStoreIds?: string[] };
   systemPrompt?: string;
   previousMessages?: Message[];
+  model?: string;
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
@@ -111,19 +123,23 @@ export async function askLLM({
   onError?: (error: any) => void;
   fallbackResponse?: string;
 }): Promise<string | void> {
+  const modelSettings = await resolveModelSettings(model, temperature, maxTokens);
+
   if (!stream) {
     return await generateResponseCompletion({
       userMessage,
-      chatbot,
+      chatbot: { ...chatbot, ...modelSettings },
       systemPrompt,
+      previousMessages,
       fallbackResponse: fallbackResponse || "I couldn't generate a response.",
     });
   }
 
   await generateStreamingResponseCompletion({
     userMessage,
-    chatbot,
+    chatbot: { ...chatbot, ...modelSettings },
     systemPrompt,
+    previousMessages,
     onChunk: onChunk || (() => {}),
     onComplete: onComplete || (() => {}),
     onError: onError || (() => {}),
@@ -139,30 +155,28 @@ export async function generateCompletion({
   previousMessages,
   temperature,
   maxTokens,
-  documents,
   fallbackResponse,
+  vectorStoreIds,
+  onUsage,
+  onSearchResults,
+  onFallback,
 }: CompletionOptions): Promise<string> {
   try {
-    // Map internal model names to actual OpenAI model IDs
-    const modelMap: Record<string, string> = {
-      "gpt4-1": "gpt-4-1106-preview",
-      "gpt4o": "gpt-4o",
-      "gpt4": "gpt-4",
-      "gpt4-mini": "gpt-4o-mini",
-      "gpt35turbo": "gpt-3.5-turbo",
-      "gpt3-mini": "gpt-3.5-turbo-instruct",
-      "gpt4-1-nano": "gpt-4-0125-preview",
-      "gpt4o-mini": "gpt-4o-mini",
-    };
-
-    const actualModel = modelMap[model] || "gpt-3.5-turbo";
+    const modelSettings = await resolveModelSettings(model, temperature, maxTokens);
 
     return await generateResponseCompletion({
       userMessage,
+      chatbot: { vectorStoreIds, ...modelSettings },
+      systemPrompt,
+      previousMessages,
+      onUsage,
+      onSearchResults,
+      onFallback,
       fallbackResponse: fallbackResponse || "I couldn't generate a response.",
     });
   } catch (error) {
     console.error("OpenAI completion error:", error);
+    onFallback?.();
     return fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
   }
 }
@@ -203,29 +217,18 @@ export async function generateStreamingCompletion({
       { role: "user", content: userMessage },
     ];
 
-    // Map internal model names to actual OpenAI model IDs
-    const modelMap: Record<string, string> = {
-      "gpt4-1": "gpt-4-1106-preview", // GPT-4.1 Turbo (similar naming convention)
-      "gpt4o": "gpt-4o", // GPT-4o (latest model as of May 2024)
-      "gpt4": "gpt-4",
-      "gpt4-mini": "gpt-4o-mini", // GPT-4 Mini
-      "gpt35turbo": "gpt-3.5-turbo",
-      "gpt3-mini": "gpt-3.5-turbo-instruct", // GPT-3.5 Turbo Instruct (more like GPT-3 Mini)
-      "gpt4-1-nano": "gpt-4-0125-preview", // GPT-4.1 Nano (approximation based on parameter count)
-      "gpt4o-mini": "gpt-4o-mini", // GPT-4o Mini
-    };
-
-    const actualModel = modelMap[model] || "gpt-3.5-turbo";
+    const modelSettings = await resolveModelSettings(model, temperature, maxTokens);
 
     let fullResponse = "";
 
-    const stream = await openai.responses.create({
-      model: actualModel,
+    const stream = await llm.streamResponse({
+      model: modelSettings.model,
       input: userMessage,
-      stream: true,
+      ...(modelSettings.temperature !== undefined && { temperature: modelSettings.temperature }),
+      ...(modelSettings.maxOutputTokens !== undefined && { max_output_tokens: modelSettings.maxOutputTokens }),
     });
 
-    for await (const chunk of stream as any) {
+    for await (const chunk of stream) {
       const ev = chunk.type ?? chunk.event ?? "";
 
       /* incremental tokens */
@@ -259,12 +262,6 @@ export async function generateStreamingCompletion({
   }
 }
 
-export async function processDocumentText(text: string, fileType: string): Promise<string> {
-  // In a real implementation, we would process PDFs, DOCXs, etc. differently
-  // For simplicity, we're just returning the text directly
-  return text;
-}
-
 async function withExponentialBackoff<T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
@@ -297,46 +294,6 @@ async function withExponentialBackoff<T>(
   throw lastError!;
 }
 
-export async function checkVectorStoreCapacity(vectorStoreId: string): Promise<{
-  canUpload: boolean;
-  usage?: { fileCount: number; totalBytes: number };
-  error?: string;
-}> {
-  try {
-    if (!vectorStoreId) {
-      return {
-        canUpload: false,
-        error: "No vector store ID provided"
-      };
-    }
-
-    // For now, we'll assume capacity is available
-    // In a real implementation, you'd check the actual vector store usage
-    const MAX_FILES = 500;
-    const MAX_BYTES = 100 * 1024 * 1024; // 100MB
-    
-    // Simulated usage check
-    const usage = {
-      fileCount: 0, // Would be fetched from vector store
-      totalBytes: 0 // Would be calculated from actual files
-    };
-    
-    const canUpload = usage.fileCount < MAX_FILES && usage.totalBytes < MAX_BYTES;
-    
-    return {
-      canUpload,
-      usage,
-      error: canUpload ? undefined : "Vector store capacity limit reached"
-    };
-  } catch (error: any) {
-    console.error("Error checking vector store capacity:", error);
-    return {
-      canUpload: false,
-      error: "Unable to check vector store capacity"
-    };
-  }
-}
-
 interface AssistantCompletionOptions {
   model: string;
   systemPrompt: string;
@@ -365,7 +322,7 @@ export async function generateAssistantCompletion({
   fallbackResponse
 }: AssistantCompletionOptions): Promise<string> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
+    if (llm.name === "openai" && !process.env.OPENAI_API_KEY) {
       throw new Error("OpenAI API key is not configured");
     }
 
@@ -387,7 +344,7 @@ export async function generateAssistantCompletion({
     };
 
     const response = await withExponentialBackoff(() => 
-      openai.responses.create({
+      llm.createResponse({
         model,
         input: userMessage,
         ...(vectorStoreId && {
@@ -426,7 +383,7 @@ export async function generateStreamingAssistantCompletion({
   onError
 }: StreamingAssistantCompletionOptions): Promise<void> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
+    if (llm.name === "openai" && !process.env.OPENAI_API_KEY) {
       throw new Error("OpenAI API key is not configured");
     }
 
@@ -449,7 +406,7 @@ export async function generateStreamingAssistantCompletion({
     };
 
     const stream = await withExponentialBackoff(() => 
-      openai.responses.create({
+      llm.streamResponse({
         model,
         input: userMessage,
         ...(vectorStoreId && {
@@ -458,12 +415,11 @@ export async function generateStreamingAssistantCompletion({
             vector_store_ids: [vectorStoreId],
           }]
         }),
-        stream: true,
       })
     );
 
     let fullResponse = "";
-    for await (const chunk of stream as any) {
+    for await (const chunk of stream) {
       const ev = chunk.type ?? chunk.event ?? "";
 
       /* incremental tokens */
@@ -0,0 +1,246 @@
+import type { Document, InsertDocument, KnowledgeOwner } from "@shared/schema";
+import { storage } from "./storage";
+import { llm } from "./client";
+import { enqueueDocument, PENDING_DOCUMENT_STATUSES, removeDocument } from "./ingestion";
+
+// Chatbot and collection vector stores are named with these prefixes and their ID;
+// stores without them belong to someone else on the account and are never touched
+export const VECTOR_STORE_NAME_PREFIX = "aidify-bot-";
+export const COLLECTION_VECTOR_STORE_NAME_PREFIX = "aidify-collection-";
+
+// Stores and files this recent may belong to a chatbot or upload whose ID isn't saved yet
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// A chatbot or shared collection with its vector store and documents
+type KnowledgeBase = KnowledgeOwner & { vectorStoreId: string; documents: Document[] };
+
+export type ReconciliationReport = {
+  // Vector stores created for chatbots or collections that nothing references, with their files
+  orphanedVectorStores: { vectorStoreId: string; name?: string; fileIds: string[] }[];
+  // Files in a chatbot's or collection's vector store that none of its documents reference
+  orphanedFiles: (KnowledgeOwner & { vectorStoreId: string; fileId: string })[];
+  // Documents left behind by deleted chatbots and collections
+  orphanedDocuments: (KnowledgeOwner & { documentId: number; name: string })[];
+  // Chatbots and collections whose vector store no longer exists
+  missingVectorStores: (KnowledgeOwner & { vectorStoreId: string })[];
+  // Documents whose file is not in their chatbot's or collection's vector store
+  missingFiles: (KnowledgeOwner & { documentId: number; fileId: string; superseded: boolean })[];
+  // Repairs that failed; the drift is left for the next run
+  errors: string[];
+};
+
+/**
+ * Compares the vector stores and files recorded on chatbots and documents with the
+ * ones the provider actually has, and optionally repairs the drift: orphaned stores,
+ * files and documents are deleted, missing stores are recreated and documents whose
+ * file is missing are queued to be uploaded again.
+ */
+export async function reconcileVectorStores(options: { repair?: boolean } = {}): Promise<ReconciliationReport> {
+  const report: ReconciliationReport = {
+    orphanedVectorStores: [],
+    orphanedFiles: [],
+    orphanedDocuments: [],
+    missingVectorStores: [],
+    missingFiles: [],
+    errors: [],
+  };
+  const attempt = async (description: string, repair: () => Promise<unknown>) => {
+    if (!options.repair) return;
+    try {
+      await repair();
+    } catch (error: any) {
+      report.errors.push(`${description}: ${error?.message || error}`);
+    }
+  };
+
+  for (const document of await storage.getOrphanedDocuments()) {
+    report.orphanedDocuments.push({ ...ownerOf(document), documentId: document.id, name: document.name });
+    await attempt(`Deleting document ${document.id}`, () => removeDocument(document));
+  }
+
+  if (!llm.supportsVectorStores) {
+    return report;
+  }
+
+  const knowledgeBases: KnowledgeBase[] = [];
+  for (const chatbot of await storage.getAllChatbots()) {
+    if (!chatbot.vectorStoreId) continue;
+    const documents = await storage.getDocumentsByChatbotId(chatbot.id);
+    knowledgeBases.push({ chatbotId: chatbot.id, collectionId: null, vectorStoreId: chatbot.vectorStoreId, documents });
+  }
+  for (const collection of await storage.getAllKnowledgeCollections()) {
+    if (!collection.vectorStoreId) continue;
+    const documents = await storage.getDocumentsByCollectionId(collection.id);
+    knowledgeBases.push({ chatbotId: null, collectionId: collection.id, vectorStoreId: collection.vectorStoreId, documents });
+  }
+
+  const vectorStores = await llm.listVectorStores();
+  const existingStoreIds = new Set(vectorStores.map(store => store.id));
+  const referencedStoreIds = new Set(knowledgeBases.map(base => base.vectorStoreId));
+
+  for (const store of vectorStores) {
+    const ours = store.name?.startsWith(VECTOR_STORE_NAME_PREFIX) || store.name?.startsWith(COLLECTION_VECTOR_STORE_NAME_PREFIX);
+    if (!ours || referencedStoreIds.has(store.id) || isRecent(store.createdAt)) {
+      continue;
+    }
+    const fileIds = (await llm.listVectorStoreFiles(store.id)).map(file => file.id);
+    report.orphanedVectorStores.push({ vectorStoreId: store.id, name: store.name, fileIds });
+    await attempt(`Deleting vector store ${store.id}`, async () => {
+      // Deleting a store leaves its files on the account
+      for (const fileId of fileIds) {
+        await deleteFileIfExists(fileId);
+      }
+      await llm.deleteVectorStore(store.id);
+    });
+  }
+
+  for (const base of knowledgeBases) {
+    const owner = ownerOf(base);
+    const { vectorStoreId, documents } = base;
+
+    if (!existingStoreIds.has(vectorStoreId)) {
+      report.missingVectorStores.push({ ...owner, vectorStoreId });
+      await attempt(`Recreating vector store for ${describeOwner(owner)}`, () => recreateVectorStore(base));
+      continue;
+    }
+
+    const files = await llm.listVectorStoreFiles(vectorStoreId);
+    const fileIds = new Set(files.map(file => file.id));
+    const referencedFileIds = new Set<string>();
+
+    for (const document of documents) {
+      if (document.openaiFileId) referencedFileIds.add(document.openaiFileId);
+      if (document.supersededFileId) referencedFileIds.add(document.supersededFileId);
+      // The ingestion worker owns the files of documents it is still processing
+      if (PENDING_DOCUMENT_STATUSES.includes(document.status)) continue;
+
+      if (document.openaiFileId && !fileIds.has(document.openaiFileId)) {
+        report.missingFiles.push({ ...owner, documentId: document.id, fileId: document.openaiFileId, superseded: false });
+        await attempt(`Re-uploading document ${document.id}`, () => reuploadDocument(document));
+      }
+      if (document.supersededFileId && !fileIds.has(document.supersededFileId)) {
+        report.missingFiles.push({ ...owner, documentId: document.id, fileId: document.supersededFileId, superseded: true });
+        await attempt(`Clearing superseded file of document ${document.id}`, () =>
+          storage.updateDocument(document.id, { supersededFileId: null }));
+      }
+    }
+
+    for (const file of files) {
+      if (referencedFileIds.has(file.id) || isRecent(file.createdAt)) continue;
+      report.orphanedFiles.push({ ...owner, vectorStoreId, fileId: file.id });
+      await attempt(`Deleting file ${file.id}`, () => deleteFileIfExists(file.id));
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Whether a report found anything out of sync
+ */
+export function hasDrift(report: ReconciliationReport) {
+  return report.orphanedVectorStores.length > 0 ||
+    report.orphanedFiles.length > 0 ||
+    report.orphanedDocuments.length > 0 ||
+    report.missingVectorStores.length > 0 ||
+    report.missingFiles.length > 0;
+}
+
+/**
+ * One line per finding, for logs and the CLI
+ */
+export function formatReconciliationReport(report: ReconciliationReport): string[] {
+  return [
+    ...report.orphanedVectorStores.map(store =>
+      `Orphaned vector store ${store.vectorStoreId} (${store.name}) with ${store.fileIds.length} file(s)`),
+    ...report.orphanedFiles.map(file =>
+      `Orphaned file ${file.fileId} in vector store ${file.vectorStoreId} of ${describeOwner(file)}`),
+    ...report.orphanedDocuments.map(document =>
+      `Document ${document.documentId} ("${document.name}") belongs to deleted ${describeOwner(document)}`),
+    ...report.missingVectorStores.map(store =>
+      `Vector store ${store.vectorStoreId} of ${describeOwner(store)} no longer exists`),
+    ...report.missingFiles.map(file =>
+      `${file.superseded ? "Superseded file" : "File"} ${file.fileId} of document ${file.documentId} is not in the vector store of ${describeOwner(file)}`),
+    ...report.errors.map(error => `Repair failed: ${error}`),
+  ];
+}
+
+/**
+ * Reconciles once a day. Drift is only logged unless VECTOR_STORE_RECONCILIATION=repair;
+ * VECTOR_STORE_RECONCILIATION=off disables the schedule.
+ */
+export function startReconciliationScheduler() {
+  const mode = process.env.VECTOR_STORE_RECONCILIATION ?? "report";
+  if (mode === "off") return;
+
+  const run = async () => {
+    const report = await reconcileVectorStores({ repair: mode === "repair" });
+    if (hasDrift(report)) {
+      console.log(`Vector store reconciliation found drift${mode === "repair" ? " and repaired it" : ""}:`);
+      formatReconciliationReport(report).forEach(line => console.log(`  ${line}`));
+    }
+  };
+  const runSafely = () => {
+    run().catch(error => console.error("Error reconciling vector stores:", error));
+  };
+  setInterval(runSafely, SCHEDULER_INTERVAL_MS).unref();
+  setTimeout(runSafely, 5 * 60 * 1000).unref();
+}
+
+function ownerOf(owner: KnowledgeOwner): KnowledgeOwner {
+  return { chatbotId: owner.chatbotId, collectionId: owner.collectionId };
+}
+
+function describeOwner(owner: KnowledgeOwner) {
+  return owner.collectionId ? `collection ${owner.collectionId}` : `chatbot ${owner.chatbotId}`;
+}
+
+function isRecent(createdAt?: number) {
+  return createdAt !== undefined && Date.now() - createdAt * 1000 < GRACE_PERIOD_MS;
+}
+
+// The file may already be gone, which is what we wanted
+async function deleteFileIfExists(fileId: string) {
+  try {
+    await llm.deleteFile(fileId);
+  } catch (error: any) {
+    if (error?.status !== 404) throw error;
+  }
+}
+
+async function reuploadDocument(document: Document) {
+  await deleteFileIfExists(document.openaiFileId!);
+  await requeueDocument(document, { openaiFileId: null });
+}
+
+async function recreateVectorStore(base: KnowledgeBase) {
+  const { chatbotId, collectionId, documents } = base;
+  if (collectionId) {
+    const vectorStore = await llm.createVectorStore(`${COLLECTION_VECTOR_STORE_NAME_PREFIX}${collectionId}`);
+    await storage.updateKnowledgeCollection(collectionId, { vectorStoreId: vectorStore.id });
+    console.log("Created vector store:", vectorStore.id, "for collection:", collectionId);
+  } else {
+    const vectorStore = await llm.createVectorStore(`${VECTOR_STORE_NAME_PREFIX}${chatbotId}`);
+    await storage.updateChatbot(chatbotId!, { vectorStoreId: vectorStore.id });
+    console.log("Created vector store:", vectorStore.id, "for chatbot:", chatbotId);
+  }
+
+  for (const document of documents) {
+    if (PENDING_DOCUMENT_STATUSES.includes(document.status)) continue;
+    for (const fileId of [document.openaiFileId, document.supersededFileId]) {
+      if (fileId) await deleteFileIfExists(fileId);
+    }
+    await requeueDocument(document, { openaiFileId: null, supersededFileId: null });
+  }
+}
+
+// Saves the dropped file references. Ready documents are queued to be uploaded again;
+// failed ones keep their status and are uploaded again when retried.
+async function requeueDocument(document: Document, updates: Partial<InsertDocument>) {
+  const ready = document.status === "ready";
+  await storage.updateDocument(document.id, ready ? { ...updates, status: "queued", error: null } : updates);
+  if (ready) {
+    enqueueDocument(document.id);
+  }
+}
@@ -0,0 +1,129 @@
+import type { DocumentSection } from "@shared/schema";
+import { estimateTokens } from "../context-window";
+
+export type TextChunk = {
+  // Nearest heading (or page label) above the chunk, if any
+  heading: string | null;
+  content: string;
+};
+
+// Target chunk size; small enough that several chunks fit the prompt
+const CHUNK_TOKENS = 300;
+// A trailing paragraph up to this size is repeated at the start of the next chunk
+const OVERLAP_TOKENS = 60;
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/;
+
+/**
+ * Splits extracted document text into retrieval chunks.
+ * Chunks never cross a section boundary or heading, so each one can be labelled
+ * with the heading it sits under; paragraphs are packed up to the target size and
+ * oversized paragraphs are split on sentences.
+ * @param content Document text
+ * @param sections Page/section boundaries recorded at extraction
+ */
+export function chunkDocument(content: string, sections: DocumentSection[] = []): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const block of splitBlocks(content, sections)) {
+    let heading = block.heading;
+    let paragraphs: string[] = [];
+
+    const flush = () => {
+      chunks.push(...packParagraphs(paragraphs, heading));
+      paragraphs = [];
+    };
+
+    for (const paragraph of block.text.split(/\n{2,}|\n(?=#{1,6}\s)/)) {
+      const text = paragraph.trim();
+      if (!text) continue;
+
+      const markdownHeading = text.split("\n")[0].match(MARKDOWN_HEADING);
+      if (markdownHeading) {
+        flush();
+        heading = markdownHeading[1].trim();
+      }
+      paragraphs.push(text);
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+// Cuts the text at section boundaries; text outside any section gets no heading
+function splitBlocks(content: string, sections: DocumentSection[]): { heading: string | null; text: string }[] {
+  const blocks: { heading: string | null; text: string }[] = [];
+  let position = 0;
+
+  for (const section of [...sections].sort((a, b) => a.start - b.start)) {
+    if (section.start > position) {
+      blocks.push({ heading: null, text: content.slice(position, section.start) });
+    }
+    blocks.push({ heading: section.label, text: content.slice(section.start, section.end) });
+    position = Math.max(position, section.end);
+  }
+  if (position < content.length) {
+    blocks.push({ heading: null, text: content.slice(position) });
+  }
+
+  return blocks;
+}
+
+function packParagraphs(paragraphs: string[], heading: string | null): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const piece of paragraphs.flatMap(splitOversized)) {
+    const pieceTokens = estimateTokens(piece);
+
+    // A chunk no bigger than the overlap would be repeated whole in the next one, so keep filling it
+    if (current.length > 0 && tokens + pieceTokens > CHUNK_TOKENS && tokens > OVERLAP_TOKENS) {
+      chunks.push({ heading, content: current.join("\n\n") });
+
+      const last = current[current.length - 1];
+      current = estimateTokens(last) <= OVERLAP_TOKENS ? [last] : [];
+      tokens = current.length > 0 ? estimateTokens(last) : 0;
+    }
+
+    current.push(piece);
+    tokens += pieceTokens;
+  }
+  if (current.length > 0) {
+    chunks.push({ heading, content: current.join("\n\n") });
+  }
+
+  return chunks;
+}
+
+// Splits a paragraph larger than a chunk into sentence groups (or word runs as a last resort)
+function splitOversized(paragraph: string): string[] {
+  if (estimateTokens(paragraph) <= CHUNK_TOKENS) {
+    return [paragraph];
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*/g) ?? [paragraph]) {
+    if (current && estimateTokens(current + sentence) > CHUNK_TOKENS) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+  }
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces.flatMap(piece => {
+    if (estimateTokens(piece) <= CHUNK_TOKENS) return [piece];
+    const words = piece.split(/\s+/);
+    const wordsPerPiece = Math.max(1, Math.floor(words.length * CHUNK_TOKENS / estimateTokens(piece)));
+    const runs: string[] = [];
+    for (let i = 0; i < words.length; i += wordsPerPiece) {
+      runs.push(words.slice(i, i + wordsPerPiece).join(" "));
+    }
+    return runs;
+  });
+}
@@ -0,0 +1,118 @@
+import { llm } from "../client";
+import type { LLMUsage } from "../llm";
+import { analyzeTerms } from "./terms";
+
+// Receives the tokens billed for each batch of provider embeddings
+export type EmbeddingUsageHandler = (model: string, usage: LLMUsage) => void;
+
+export interface EmbeddingBackend {
+  // Stored with every chunk; vectors from different backends are not comparable
+  readonly name: string;
+  // One vector per text, in input order
+  embed(texts: string[], onUsage?: EmbeddingUsageHandler): Promise<number[][]>;
+}
+
+// Mostly zeros, so vectors stay small as JSON while keeping hash collisions rare
+const HASHING_DIMENSIONS = 2048;
+// Adjacent word pairs count for less than single words but reward matching phrases
+const BIGRAM_WEIGHT = 0.5;
+const PROVIDER_BATCH_SIZE = 64;
+
+/**
+ * Offline backend: stemmed words and word pairs are hashed into a fixed-size
+ * vector weighted by sublinear term frequency (1 + ln tf), with stopwords dropped.
+ * Needs no API calls, so knowledge retrieval works with any LLM provider.
+ */
+export class HashingEmbeddingBackend implements EmbeddingBackend {
+  readonly name = `hashing-${HASHING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const terms = analyzeTerms(text);
+
+    const counts = new Map<number, number>();
+    const add = (term: string, weight: number) => {
+      const bucket = fnv1a(term) % HASHING_DIMENSIONS;
+      counts.set(bucket, (counts.get(bucket) ?? 0) + weight);
+    };
+    terms.forEach((term, i) => {
+      add(term, 1);
+      if (i > 0) add(`${terms[i - 1]} ${term}`, BIGRAM_WEIGHT);
+    });
+
+    const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+    counts.forEach((count, bucket) => {
+      vector[bucket] = 1 + Math.log(count);
+    });
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from the configured LLM provider, e.g. OpenAI "text-embedding-3-small"
+ * or an embedding model served by an OpenAI-compatible endpoint
+ */
+export class ProviderEmbeddingBackend implements EmbeddingBackend {
+  readonly name: string;
+
+  constructor(private model: string) {
+    this.name = `${llm.name}:${model}`;
+  }
+
+  async embed(texts: string[], onUsage?: EmbeddingUsageHandler): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += PROVIDER_BATCH_SIZE) {
+      const { embeddings, usage } = await llm.createEmbeddings(this.model, texts.slice(i, i + PROVIDER_BATCH_SIZE));
+      vectors.push(...embeddings);
+      if (usage && onUsage) onUsage(this.model, usage);
+    }
+    return vectors.map(normalize);
+  }
+}
+
+/**
+ * Creates the embedding backend selected by the EMBEDDING_BACKEND environment variable:
+ * - "hashing" (default): offline hashed term vectors
+ * - "provider": the LLM provider's embeddings endpoint with EMBEDDING_MODEL (default "text-embedding-3-small")
+ */
+export function createEmbeddingBackend(env: NodeJS.ProcessEnv = process.env): EmbeddingBackend {
+  const backendName = env.EMBEDDING_BACKEND || "hashing";
+
+  switch (backendName) {
+    case "hashing":
+      return new HashingEmbeddingBackend();
+    case "provider":
+      return new ProviderEmbeddingBackend(env.EMBEDDING_MODEL || "text-embedding-3-small");
+    default:
+      throw new Error(`Unknown EMBEDDING_BACKEND "${backendName}"`);
+  }
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,193 @@
+import type { Chatbot, Document, DocumentSection, KnowledgeOwner } from "@shared/schema";
+import { storage } from "../storage";
+import { embeddingUsageRecorder } from "../usage";
+import { chunkDocument } from "./chunking";
+import { cosineSimilarity, createEmbeddingBackend } from "./embeddings";
+import { getKeywordIndex, keywordText, updateKeywordIndex } from "./keyword-index";
+
+export * from "./chunking";
+export * from "./embeddings";
+export * from "./keyword-index";
+
+// Shared embedding backend, selected with EMBEDDING_BACKEND (defaults to offline hashing)
+export const embeddingBackend = createEmbeddingBackend();
+
+const DEFAULT_TOP_K = 5;
+// Chunks scoring below this share no meaningful terms with the question
+const MIN_SIMILARITY = 0.05;
+// Candidates taken from each ranking before fusion
+const FUSION_CANDIDATES = 20;
+// Reciprocal rank fusion constant; damps the advantage of the very top ranks
+const RRF_K = 60;
+
+// What a chatbot answers a question from
+export type ChatbotKnowledge = {
+  // Searched by the model with file_search: the chatbot's vector store, then those of its collections
+  vectorStoreIds: string[];
+  // Excerpts retrieved locally, for RAG chatbots without a vector store
+  chunks: RetrievedChunk[];
+  // Knowledge base results found so far; null until a file_search runs, or when nothing is searched
+  searchResultCount: number | null;
+};
+
+export type RetrievedChunk = {
+  // Stable reference shown to the model and in logs, e.g. "doc-12#3" (document 12, chunk 3)
+  sourceId: string;
+  documentId: number;
+  documentName: string;
+  heading: string | null;
+  content: string;
+  score: number;
+};
+
+/**
+ * Chunks and embeds a document, replacing any chunks it already has
+ * @returns Number of chunks stored
+ */
+export async function indexDocument(document: Document): Promise<number> {
+  const chunks = chunkDocument(document.content, (document.sections as DocumentSection[] | null) || []);
+  const texts = chunks.map(keywordText);
+  const embeddings = await embeddingBackend.embed(texts, embeddingUsageRecorder(document.chatbotId));
+
+  await storage.replaceDocumentChunks(document.id, chunks.map((chunk, i) => ({
+    documentId: document.id,
+    chatbotId: document.chatbotId,
+    collectionId: document.collectionId,
+    chunkIndex: i,
+    heading: chunk.heading,
+    content: chunk.content,
+    embeddingModel: embeddingBackend.name,
+    embedding: embeddings[i],
+  })));
+  await updateKeywordIndex(document, document.id, texts.map((text, i) => ({ chunkIndex: i, text })));
+
+  return chunks.length;
+}
+
+/**
+ * Finds the chunks of a chatbot's documents, and those of its knowledge collections,
+ * most relevant to a question.
+ * Semantic (embedding) and keyword (BM25) rankings are fused by reciprocal rank,
+ * weighted by the chatbot's keyword weight.
+ * Documents without chunks from the current embedding backend (uploaded before
+ * local retrieval existed, or after switching backends) are indexed first.
+ * @param chatbot Chatbot whose documents are searched
+ * @param query User question
+ * @param topK Maximum number of chunks to return
+ */
+export async function retrieveChunks(chatbot: Chatbot, query: string, topK: number = DEFAULT_TOP_K): Promise<RetrievedChunk[]> {
+  // Documents taken out of retrieval for being past their review date aren't searched or re-indexed
+  const documents = (await storage.getChatbotKnowledgeDocuments(chatbot.id)).filter(doc => !doc.excludedAt);
+  if (documents.length === 0 || !query.trim()) {
+    return [];
+  }
+
+  const owners: KnowledgeOwner[] = [
+    { chatbotId: chatbot.id, collectionId: null },
+    ...(await storage.getChatbotCollections(chatbot.id)).map(collection => ({ chatbotId: null, collectionId: collection.id })),
+  ];
+  const loadChunks = async () => (await Promise.all(owners.map(owner => storage.getDocumentChunks(owner)))).flat();
+
+  let chunks = await loadChunks();
+  const indexed = new Set(chunks.filter(c => c.embeddingModel === embeddingBackend.name).map(c => c.documentId));
+  // Documents still in the ingestion queue are indexed by the worker; one being
+  // replaced by a new version keeps answering from its previous chunks meanwhile
+  const unindexed = documents.filter(doc => doc.status === "ready" && !indexed.has(doc.id));
+  if (unindexed.length > 0) {
+    for (const document of unindexed) {
+      await indexDocument(document);
+    }
+    chunks = await loadChunks();
+  }
+
+  const documentNames = new Map(documents.map(doc => [doc.id, doc.name]));
+  const chunksByKey = new Map(chunks
+    .filter(chunk => chunk.embeddingModel === embeddingBackend.name && documentNames.has(chunk.documentId))
+    .map(chunk => [`${chunk.documentId}#${chunk.chunkIndex}`, chunk]));
+
+  const keywordShare = Math.min(Math.max(chatbot.keywordWeight, 0), 100) / 100;
+  const fused = new Map<string, number>();
+  const addRanking = (keys: string[], weight: number) => {
+    keys.forEach((key, rank) => {
+      if (chunksByKey.has(key)) {
+        fused.set(key, (fused.get(key) ?? 0) + weight / (RRF_K + rank + 1));
+      }
+    });
+  };
+
+  if (keywordShare < 1) {
+    const [queryEmbedding] = await embeddingBackend.embed([query], embeddingUsageRecorder(chatbot.id));
+    const semantic = Array.from(chunksByKey.entries())
+      .map(([key, chunk]) => ({ key, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(({ score }) => score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, FUSION_CANDIDATES);
+    addRanking(semantic.map(match => match.key), 1 - keywordShare);
+  }
+
+  if (keywordShare > 0) {
+    // Each collection has its own index; their BM25 scores are close enough to merge into one ranking
+    const keyword = (await Promise.all(owners.map(async owner => (await getKeywordIndex(owner)).search(query, FUSION_CANDIDATES))))
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, FUSION_CANDIDATES);
+    addRanking(keyword.map(match => `${match.documentId}#${match.chunkIndex}`), keywordShare);
+  }
+
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([key, score]) => {
+      const chunk = chunksByKey.get(key)!;
+      return {
+        sourceId: `doc-${chunk.documentId}#${chunk.chunkIndex}`,
+        documentId: chunk.documentId,
+        documentName: documentNames.get(chunk.documentId)!,
+        heading: chunk.heading,
+        content: chunk.content,
+        score,
+      };
+    });
+}
+
+/**
+ * Knowledge for answering a question. Chatbots with a vector store have the model search it
+ * (and their collections' stores) with file_search; RAG chatbots without one get excerpts
+ * retrieved locally.
+ */
+export async function findChatbotKnowledge(chatbot: Chatbot, query: string): Promise<ChatbotKnowledge> {
+  if (chatbot.vectorStoreId) {
+    const collections = await storage.getChatbotCollections(chatbot.id);
+    const vectorStoreIds = [chatbot.vectorStoreId, ...collections.map(collection => collection.vectorStoreId)]
+      .filter((id): id is string => !!id);
+    return { vectorStoreIds, chunks: [], searchResultCount: null };
+  }
+
+  if (!chatbot.ragEnabled) {
+    return { vectorStoreIds: [], chunks: [], searchResultCount: null };
+  }
+
+  const chunks = await retrieveChunks(chatbot, query);
+  if (chunks.length > 0) {
+    console.log(`Retrieved knowledge for chatbot ${chatbot.id}:`, chunks.map(chunk => chunk.sourceId).join(", "));
+  }
+  return { vectorStoreIds: [], chunks, searchResultCount: chunks.length };
+}
+
+/**
+ * Appends retrieved knowledge base excerpts, labelled with their source IDs, to the system prompt
+ */
+export function withRetrievedKnowledge(systemPrompt: string | undefined, chunks: RetrievedChunk[]): string | undefined {
+  if (chunks.length === 0) {
+    return systemPrompt;
+  }
+
+  const excerpts = chunks
+    .map(chunk => `[${chunk.sourceId}] ${chunk.documentName}${chunk.heading ? ` — ${chunk.heading}` : ""}\n${chunk.content}`)
+    .join("\n\n");
+
+  return `${systemPrompt ? `${systemPrompt}\n\n` : ""}` +
+    "Use the following knowledge base excerpts, each labelled with its source ID, to answer when they are relevant. " +
+    "If they do not cover the question, say you don't have that information rather than guessing.\n\n" +
+    excerpts;
+}
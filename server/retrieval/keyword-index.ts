@@ -0,0 +1,158 @@
+import type { KnowledgeOwner } from "@shared/schema";
+import { storage } from "../storage";
+import { analyzeTerms } from "./terms";
+
+// BM25 parameters: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export type KeywordMatch = {
+  documentId: number;
+  chunkIndex: number;
+  score: number;
+};
+
+type IndexedChunk = {
+  documentId: number;
+  chunkIndex: number;
+  length: number;
+  terms: Set<string>;
+};
+
+/**
+ * In-memory BM25 index over the document chunks of a chatbot or knowledge collection.
+ * Exact terms such as drug names and procedure codes score highly even when
+ * they carry little weight in an embedding.
+ */
+export class KeywordIndex {
+  private chunks = new Map<string, IndexedChunk>();
+  // term -> chunk key -> term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  /**
+   * Adds (or replaces) the chunks of a document
+   */
+  addDocument(documentId: number, chunks: { chunkIndex: number; text: string }[]) {
+    this.removeDocument(documentId);
+
+    for (const { chunkIndex, text } of chunks) {
+      const key = `${documentId}#${chunkIndex}`;
+      const terms = analyzeTerms(text);
+      const frequencies = new Map<string, number>();
+      terms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+
+      frequencies.forEach((frequency, term) => {
+        if (!this.postings.has(term)) this.postings.set(term, new Map());
+        this.postings.get(term)!.set(key, frequency);
+      });
+      this.chunks.set(key, { documentId, chunkIndex, length: terms.length, terms: new Set(frequencies.keys()) });
+      this.totalLength += terms.length;
+    }
+  }
+
+  removeDocument(documentId: number) {
+    this.chunks.forEach((chunk, key) => {
+      if (chunk.documentId !== documentId) return;
+
+      chunk.terms.forEach(term => {
+        const posting = this.postings.get(term);
+        posting?.delete(key);
+        if (posting?.size === 0) this.postings.delete(term);
+      });
+      this.totalLength -= chunk.length;
+      this.chunks.delete(key);
+    });
+  }
+
+  /**
+   * Ranks chunks by BM25 score for a query, best first; chunks sharing no terms are left out
+   */
+  search(query: string, limit: number): KeywordMatch[] {
+    const chunkCount = this.chunks.size;
+    if (chunkCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(analyzeTerms(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((frequency, key) => {
+        const length = this.chunks.get(key)!.length;
+        const saturation = (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        scores.set(key, (scores.get(key) ?? 0) + idf * saturation);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([key, score]) => {
+        const chunk = this.chunks.get(key)!;
+        return { documentId: chunk.documentId, chunkIndex: chunk.chunkIndex, score };
+      });
+  }
+}
+
+// Indexes per chatbot and per collection, built from stored chunks on first use and kept current on upload and delete
+const indexes = new Map<string, Promise<KeywordIndex>>();
+
+function ownerKey(owner: KnowledgeOwner) {
+  return owner.collectionId ? `collection-${owner.collectionId}` : `chatbot-${owner.chatbotId}`;
+}
+
+export function getKeywordIndex(owner: KnowledgeOwner): Promise<KeywordIndex> {
+  const key = ownerKey(owner);
+  let index = indexes.get(key);
+  if (!index) {
+    index = buildKeywordIndex(owner);
+    indexes.set(key, index);
+    // Don't cache a failed build
+    index.catch(() => indexes.delete(key));
+  }
+  return index;
+}
+
+/**
+ * Updates the index of a document's chatbot or collection, if it has been built, with the document's new chunks
+ */
+export async function updateKeywordIndex(owner: KnowledgeOwner, documentId: number, chunks: { chunkIndex: number; text: string }[]) {
+  // A failed build is retried from storage on next use
+  const index = await indexes.get(ownerKey(owner))?.catch(() => undefined);
+  index?.addDocument(documentId, chunks);
+}
+
+/**
+ * Drops a deleted document from its chatbot's or collection's index, if it has been built
+ */
+export async function removeFromKeywordIndex(owner: KnowledgeOwner, documentId: number) {
+  const index = await indexes.get(ownerKey(owner))?.catch(() => undefined);
+  index?.removeDocument(documentId);
+}
+
+async function buildKeywordIndex(owner: KnowledgeOwner): Promise<KeywordIndex> {
+  const index = new KeywordIndex();
+  const chunks = await storage.getDocumentChunks(owner);
+
+  const byDocument = new Map<number, { chunkIndex: number; text: string }[]>();
+  for (const chunk of chunks) {
+    if (!byDocument.has(chunk.documentId)) byDocument.set(chunk.documentId, []);
+    byDocument.get(chunk.documentId)!.push({ chunkIndex: chunk.chunkIndex, text: keywordText(chunk) });
+  }
+  byDocument.forEach((documentChunks, documentId) => index.addDocument(documentId, documentChunks));
+
+  return index;
+}
+
+/**
+ * Text of a chunk as indexed for keyword search: its heading plus content
+ */
+export function keywordText(chunk: { heading: string | null; content: string }): string {
+  return chunk.heading ? `${chunk.heading}\n${chunk.content}` : chunk.content;
+}
@@ -0,0 +1,22 @@
+import natural from "natural";
+
+const tokenizer = new natural.WordTokenizer();
+const stopwords = new Set(natural.stopwords);
+
+/**
+ * Lowercased text with punctuation and extra whitespace removed, for comparing
+ * wordings such as "Yes!" and "yes"
+ */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\u024f]+/g, " ").trim();
+}
+
+/**
+ * Lowercased, stemmed search terms of a text, with stopwords dropped.
+ * Numbers and codes (e.g. CPT "99213") are kept as-is.
+ */
+export function analyzeTerms(text: string): string[] {
+  return tokenizer.tokenize(text.toLowerCase())
+    .filter(word => !stopwords.has(word))
+    .map(word => /\d/.test(word) ? word : natural.PorterStemmer.stem(word));
+}
@@ -3,11 +3,29 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
 import { z } from "zod";
-import { insertChatbotSchema, insertDocumentSchema, insertMessageSchema, behaviorRuleSchema, insertUserChatbotAssignmentSchema, insertUserSchema, insertCommonMessageSchema, users } from "@shared/schema";
+import { insertChatbotSchema, insertDocumentSchema, insertMessageSchema, insertUserChatbotAssignmentSchema, insertUserSchema, insertCommonMessageSchema, insertUrlSourceSchema, insertKnowledgeCollectionSchema, insertFaqEntrySchema, documentReviewSchema, documentApprovalSchema, behaviorRuleTestSchema, conversationFlowSchema, users, type BehaviorRuleTestResponse, type Citation, type Document, type DocumentVersionSummary, type HandoffSummary, type KnowledgeCollection, type KnowledgeCollectionSummary, type MessagePayload } from "@shared/schema";
 import { eq } from "drizzle-orm";
-import { generateCompletion, generateStreamingCompletion, generateStreamingAssistantCompletion, processDocumentText, verifyApiKey, checkVectorStoreCapacity } from "./openai";
+import { enqueueDocument, removeDocument, replaceDocumentVersion, PENDING_DOCUMENT_STATUSES } from "./ingestion";
+import { fileChecksum, importDocuments, MAX_DOCUMENT_SIZE } from "./bulk-import";
+import { isSupportedMimeType } from "./document-text";
+import { crawlUrlSource, isCrawling, removeUrlSource } from "./crawler";
+import { COLLECTION_VECTOR_STORE_NAME_PREFIX, VECTOR_STORE_NAME_PREFIX } from "./reconciliation";
+import { checkKnowledgeCapacity, getKnowledgeUsage } from "./knowledge-usage";
+import { findChatbotKnowledge, withRetrievedKnowledge } from "./retrieval";
+import { generateCompletion, generateStreamingCompletion, generateStreamingAssistantCompletion, verifyApiKey } from "./openai";
 import { generateStreamingResponseCompletion } from "./openai-responses";
-import OpenAI from "openai";
+import { isAllowedModel, resolveModelSettings } from "./models";
+import { buildContextWindow, withConversationSummary } from "./context-window";
+import { llm } from "./client";
+import { buildToolSet, getTool, listTools, toolResultPayload, type ToolResult } from "./tools";
+import { buildCostStats, embeddingUsageRecorder, isOverBudget, usageFields } from "./usage";
+import { buildKnowledgeGaps, gapFields } from "./knowledge-gaps";
+import { applyReviewState, approveDocument, getReviewQueue } from "./content-review";
+import { findPresetAnswer } from "./chat-pipeline";
+import { isOfferedQuickReply, mergePayloads } from "./message-payload";
+import { listFlowVersions } from "./flows";
+import { analyzeBehaviorRules, testBehaviorRules } from "./rule-analysis";
+import { formatFaqCsv, importFaqCsv, listFaqEntries } from "./faq";
 import { redactMessagesPII, redactPII } from "./redaction";
 import multer from "multer";
 import { nanoid } from "nanoid";
@@ -15,39 +33,31 @@ import fs from "fs";
 import path from "path";
 import { promisify } from "util";
 
-const readFile = promisify(fs.readFile);
 const unlink = promisify(fs.unlink);
 
-// Initialize OpenAI client for vector store operations
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
+const uploadStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const dir = path.join(import.meta.dirname, "../uploads");
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    cb(null, dir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    cb(null, uniqueSuffix + "-" + file.originalname);
+  },
+});
 
 // Configure multer for file uploads
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      const dir = path.join(import.meta.dirname, "../uploads");
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      cb(null, dir);
-    },
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-      cb(null, uniqueSuffix + "-" + file.originalname);
-    },
-  }),
+  storage: uploadStorage,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB
+    fileSize: MAX_DOCUMENT_SIZE,
   },
   fileFilter: (req, file, cb) => {
     // Accept pdf, docx, txt, and rtf
-    if (
-      file.mimetype === "application/pdf" ||
-      file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-      file.mimetype === "text/plain" ||
-      file.mimetype === "application/rtf" ||
-      file.mimetype === "text/rtf"
-    ) {
+    if (isSupportedMimeType(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error("Invalid file type. Only PDF, DOCX, TXT, and RTF are allowed."));
@@ -55,6 +65,47 @@ const upload = multer({
   },
 });
 
+// Bulk imports accept any file (and ZIP archives up to 100MB); each one is
+// validated separately so a bad file is reported instead of failing the batch
+const MAX_BULK_FILES = 100;
+const bulkUpload = multer({
+  storage: uploadStorage,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB
+    files: MAX_BULK_FILES,
+  },
+});
+
+// FAQ CSV imports are read in memory
+const faqCsvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+});
+
+// Chatbot settings only admins may change; they're dropped from other users' requests
+const ADMIN_CHATBOT_SETTINGS = ["knowledgeFileLimit", "knowledgeStorageLimitMb"];
+
+function withoutAdminSettings(body: Record<string, unknown>, role: string) {
+  if (role === "admin") return body;
+  return Object.fromEntries(Object.entries(body).filter(([key]) => !ADMIN_CHATBOT_SETTINGS.includes(key)));
+}
+
+// The user who owns a document: the owner of its chatbot, or of its shared collection
+async function documentOwnerId(document: Document): Promise<number | undefined> {
+  if (document.collectionId) {
+    return (await storage.getKnowledgeCollection(document.collectionId))?.userId;
+  }
+  return document.chatbotId ? (await storage.getChatbot(document.chatbotId))?.userId : undefined;
+}
+
+async function collectionSummary(collection: KnowledgeCollection): Promise<KnowledgeCollectionSummary> {
+  const documents = await storage.getDocumentsByCollectionId(collection.id);
+  const chatbotIds = await storage.getCollectionChatbotIds(collection.id);
+  return { ...collection, documentCount: documents.length, chatbotIds };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Ensure API routes always return JSON, not HTML
   app.use("/api/*", (req, res, next) => {
@@ -98,12 +149,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Request body:", JSON.stringify(req.body, null, 2));
       
       const data = insertChatbotSchema.parse({
-        ...req.body,
+        ...withoutAdminSettings(req.body, req.user.role),
         userId: req.user.id,
       });
       
       console.log("Parsed chatbot data:", JSON.stringify(data, null, 2));
       
+      if (!(await isAllowedModel(data.model))) {
+        return res.status(400).json({ message: `Model "${data.model}" is not available` });
+      }
+      
       // Check for duplicate slug
       const existingChatbot = await storage.getChatbotBySlug(data.slug);
       if (existingChatbot) {
@@ -113,11 +168,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const chatbot = await storage.createChatbot(data);
       console.log("Created chatbot successfully:", chatbot.id);
       
+      // Providers without vector store support answer from local documents only
+      if (!llm.supportsVectorStores) {
+        return res.status(201).json(chatbot);
+      }
+      
       // Create a private vector store for this chatbot
       try {
-        const vectorStore = await openai.vectorStores.create({
-          name: `aidify-bot-${chatbot.id}`,
-        });
+        const vectorStore = await llm.createVectorStore(`${VECTOR_STORE_NAME_PREFIX}${chatbot.id}`);
         
         // Update the chatbot with the vector store ID
         await storage.updateChatbot(chatbot.id, { vectorStoreId: vectorStore.id });
@@ -204,7 +262,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const validatedData = insertChatbotSchema.partial().parse(req.body);
+      const validatedData = insertChatbotSchema.partial().parse(withoutAdminSettings(req.body, req.user.role));
+      
+      if (validatedData.model && !(await isAllowedModel(validatedData.model))) {
+        return res.status(400).json({ message: `Model "${validatedData.model}" is not available` });
+      }
+      
       const updatedChatbot = await storage.updateChatbot(Number(req.params.id), validatedData);
       res.json(updatedChatbot);
     } catch (error) {
@@ -244,10 +307,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         model: sourceChatbot.model,
         temperature: sourceChatbot.temperature,
         maxTokens: sourceChatbot.maxTokens,
+        contextTokenBudget: sourceChatbot.contextTokenBudget,
+        keywordWeight: sourceChatbot.keywordWeight,
         ragEnabled: sourceChatbot.ragEnabled,
         fallbackResponse: sourceChatbot.fallbackResponse,
         // Make sure behaviorRules is a proper JSON array
         behaviorRules: Array.isArray(sourceChatbot.behaviorRules) ? sourceChatbot.behaviorRules : [],
+        tools: Array.isArray(sourceChatbot.tools) ? sourceChatbot.tools : [],
+        monthlyBudgetUsd: sourceChatbot.monthlyBudgetUsd,
+        knowledgeFileLimit: sourceChatbot.knowledgeFileLimit,
+        knowledgeStorageLimitMb: sourceChatbot.knowledgeStorageLimitMb,
         welcomeMessage: sourceChatbot.welcomeMessage,
         // Make sure welcomeMessages is a proper JSON array
         welcomeMessages: Array.isArray(sourceChatbot.welcomeMessages) ? sourceChatbot.welcomeMessages : 
@@ -266,177 +335,1095 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/chatbots/:id", async (req, res) => {
+  app.delete("/api/chatbots/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+      
+      // Allow access if user owns the chatbot OR if user is an admin
+      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to delete this chatbot" });
+      }
+      
+      // Remove the chatbot's documents and their files first; deleting the vector store leaves its files behind
+      for (const source of await storage.getUrlSources(chatbot.id)) {
+        await removeUrlSource(source);
+      }
+      for (const document of await storage.getDocumentsByChatbotId(chatbot.id)) {
+        await removeDocument(document);
+      }
+      
+      // Clean up OpenAI vector store if it exists
+      if (chatbot.vectorStoreId) {
+        try {
+          await llm.deleteVectorStore(chatbot.vectorStoreId);
+          console.log("Deleted OpenAI vector store:", chatbot.vectorStoreId);
+        } catch (error) {
+          console.error("Error deleting OpenAI vector store:", error);
+          // Continue with chatbot deletion even if vector store cleanup fails; reconciliation removes the orphaned store later
+        }
+      }
+      
+      // Delete the chatbot from our database
+      await storage.deleteChatbot(Number(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting chatbot:", error);
+      res.status(500).json({ message: "Failed to delete chatbot" });
+    }
+  });
+
+  // Document routes
+  app.get("/api/documents", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const documents = await storage.getAllDocuments(req.user.id);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching all documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.get("/api/chatbots/:id/documents", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const chatbot = await storage.getChatbot(Number(req.params.id));
+    if (!chatbot) {
+      return res.status(404).json({ message: "Chatbot not found" });
+    }
+    
+    // Allow access if user owns the chatbot OR if user is an admin
+    if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ message: "Not authorized to access this chatbot's documents" });
+    }
+    
+    const documents = await storage.getDocumentsByChatbotId(Number(req.params.id));
+    res.json(documents);
+  });
+
+  // Callback requests left by patients through the request_callback tool
+  app.get("/api/chatbots/:id/callback-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot's callback requests" });
+      }
+
+      const requests = await storage.getCallbackRequests(chatbot.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching callback requests:", error);
+      res.status(500).json({ message: "Failed to fetch callback requests" });
+    }
+  });
+
+  app.post("/api/chatbots/:id/documents", upload.single("file"), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!(req as any).file) return res.status(400).json({ message: "No file uploaded" });
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        await unlink((req as any).file.path);
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+      
+      // Allow access if user owns the chatbot OR if user is an admin
+      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
+        await unlink((req as any).file.path);
+        return res.status(403).json({ message: "Not authorized to add documents to this chatbot" });
+      }
+
+      const file = (req as any).file;
+      
+      const capacityError = await checkKnowledgeCapacity(chatbot, { files: 1, bytes: file.size });
+      if (capacityError) {
+        await unlink(file.path);
+        return res.status(400).json({ message: capacityError });
+      }
+      
+      // Get file type from the upload
+      const fileType = path.extname(file.originalname).substring(1).toLowerCase();
+      
+      // Extraction, vector store upload and indexing run in the background;
+      // the client polls the document's status
+      const document = await storage.createDocument({
+        chatbotId: chatbot.id,
+        name: file.originalname,
+        type: fileType,
+        content: "",
+        size: file.size,
+        status: "queued",
+        filePath: file.path,
+        checksum: await fileChecksum(file.path),
+        uploadedBy: req.user!.id,
+        uploadedAt: new Date(),
+      });
+      enqueueDocument(document.id);
+      
+      res.status(202).json(document);
+    } catch (error) {
+      // Clean up uploaded file if there was an error
+      if ((req as any).file) {
+        try {
+          await unlink((req as any).file.path);
+        } catch (unlinkError) {
+          console.error("Error deleting file:", unlinkError);
+        }
+      }
+
+      console.error("Document upload error:", error);
+      res.status(500).json({ message: "Failed to process document" });
+    }
+  });
+
+  // Import several files and/or ZIP archives at once; responds with a result per file
+  app.post("/api/chatbots/:id/documents/bulk", bulkUpload.array("files", MAX_BULK_FILES), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) return res.status(400).json({ message: "No files uploaded" });
+
+    const removeFiles = () => Promise.all(files.map(file => unlink(file.path).catch(() => {})));
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        await removeFiles();
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
+        await removeFiles();
+        return res.status(403).json({ message: "Not authorized to add documents to this chatbot" });
+      }
+
+      const results = await importDocuments({ chatbot }, files, req.user!.id);
+      res.json({ results });
+    } catch (error) {
+      await removeFiles();
+      console.error("Bulk document import error:", error);
+      res.status(500).json({ message: "Failed to import documents" });
+    }
+  });
+
+  // Vector store usage of a chatbot against its limits, with each file's indexing status
+  app.get("/api/chatbots/:id/knowledge-usage", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot" });
+      }
+
+      res.json(await getKnowledgeUsage(chatbot, req.query.refresh === "true"));
+    } catch (error) {
+      console.error("Error fetching knowledge usage:", error);
+      res.status(500).json({ message: "Failed to fetch knowledge usage" });
+    }
+  });
+
+  // Re-run the failed ingestion steps of a document
+  app.post("/api/documents/:id/retry", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: "Associated chatbot or collection not found" });
+      }
+
+      if (ownerId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to modify this document" });
+      }
+
+      if (document.status !== "failed") {
+        return res.status(409).json({ message: "Only failed documents can be retried" });
+      }
+
+      const queued = await storage.updateDocument(document.id, { status: "queued", error: null });
+      enqueueDocument(document.id);
+      res.json(queued);
+    } catch (error) {
+      console.error("Error retrying document:", error);
+      res.status(500).json({ message: "Failed to retry document" });
+    }
+  });
+
+  // Documents overdue or due for clinical content review, or missing an owner or review date
+  app.get("/api/content-review", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json(await getReviewQueue(req.user!));
+    } catch (error) {
+      console.error("Error fetching content review queue:", error);
+      res.status(500).json({ message: "Failed to fetch content review queue" });
+    }
+  });
+
+  // Set a document's review owner and dates; an expired document leaves retrieval if set to
+  app.put("/api/documents/:id/review", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: "Associated chatbot or collection not found" });
+      }
+
+      if (ownerId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to modify this document" });
+      }
+
+      const data = documentReviewSchema.parse(req.body);
+      const updated = await storage.updateDocument(document.id, data);
+      res.json(updated && await applyReviewState(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating document review:", error);
+      res.status(500).json({ message: "Failed to update document review" });
+    }
+  });
+
+  // Re-approve a document's content until its next review date, returning it to retrieval
+  app.post("/api/documents/:id/approve", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: "Associated chatbot or collection not found" });
+      }
+
+      if (ownerId !== req.user!.id && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to approve this document" });
+      }
+
+      const approval = documentApprovalSchema.parse(req.body);
+      res.json(await approveDocument(document, req.user!, approval));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error approving document:", error);
+      res.status(500).json({ message: "Failed to approve document" });
+    }
+  });
+
+  // Upload a new version of a document; the current one is kept in its history
+  app.post("/api/documents/:id/replace", upload.single("file"), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!(req as any).file) return res.status(400).json({ message: "No file uploaded" });
+
+    const file = (req as any).file as Express.Multer.File;
+    const discardUpload = () => unlink(file.path).catch(() => {});
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        await discardUpload();
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined || (ownerId !== req.user!.id && req.user!.role !== 'admin')) {
+        await discardUpload();
+        return res.status(403).json({ message: "Not authorized to modify this document" });
+      }
+
+      if (document.type === "url") {
+        await discardUpload();
+        return res.status(400).json({ message: "Crawled pages are updated by re-crawling their website" });
+      }
+      if (PENDING_DOCUMENT_STATUSES.includes(document.status)) {
+        await discardUpload();
+        return res.status(409).json({ message: "Wait for the document to finish processing before replacing it" });
+      }
+
+      const checksum = await fileChecksum(file.path);
+      if (checksum === document.checksum) {
+        await discardUpload();
+        return res.status(400).json({ message: "This file is identical to the current version" });
+      }
+
+      // The new version takes the place of the current one
+      const chatbot = document.chatbotId ? await storage.getChatbot(document.chatbotId) : undefined;
+      const capacityError = chatbot
+        ? await checkKnowledgeCapacity(chatbot, { files: 0, bytes: file.size - document.size })
+        : null;
+      if (capacityError) {
+        await discardUpload();
+        return res.status(400).json({ message: capacityError });
+      }
+
+      const replaced = await replaceDocumentVersion(document, {
+        name: file.originalname,
+        type: path.extname(file.originalname).substring(1).toLowerCase(),
+        content: "",
+        sections: [],
+        size: file.size,
+        filePath: file.path,
+        checksum,
+        uploadedBy: req.user!.id,
+      });
+      res.status(202).json(replaced);
+    } catch (error) {
+      await discardUpload();
+      console.error("Error replacing document:", error);
+      res.status(500).json({ message: "Failed to replace document" });
+    }
+  });
+
+  // Version history of a document, newest first
+  app.get("/api/documents/:id/versions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined || (ownerId !== req.user!.id && req.user!.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to access this document" });
+      }
+
+      const previous = await storage.getDocumentVersions(document.id);
+      const uploaderIds = Array.from(new Set(
+        [document.uploadedBy, ...previous.map(version => version.uploadedBy)].filter((id): id is number => id !== null)
+      ));
+      const uploaders = new Map<number, string>();
+      for (const id of uploaderIds) {
+        const user = await storage.getUser(id);
+        if (user) uploaders.set(id, user.username);
+      }
+      const uploaderName = (id: number | null) => (id !== null ? uploaders.get(id) ?? null : null);
+
+      const versions: DocumentVersionSummary[] = [
+        {
+          version: document.version,
+          name: document.name,
+          type: document.type,
+          size: document.size,
+          uploadedAt: (document.uploadedAt ?? document.createdAt).toISOString(),
+          uploaderName: uploaderName(document.uploadedBy),
+          current: true,
+        },
+        ...previous.map(version => ({
+          version: version.version,
+          name: version.name,
+          type: version.type,
+          size: version.size,
+          uploadedAt: version.uploadedAt.toISOString(),
+          uploaderName: uploaderName(version.uploadedBy),
+          current: false,
+        })),
+      ];
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching document versions:", error);
+      res.status(500).json({ message: "Failed to fetch document versions" });
+    }
+  });
+
+  // Extracted text of one version, for viewing
+  app.get("/api/documents/:id/versions/:version", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined || (ownerId !== req.user!.id && req.user!.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to access this document" });
+      }
+
+      const versionNumber = Number(req.params.version);
+      const version = versionNumber === document.version
+        ? document
+        : await storage.getDocumentVersion(document.id, versionNumber);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      res.json({ version: versionNumber, name: version.name, content: version.content });
+    } catch (error) {
+      console.error("Error fetching document version:", error);
+      res.status(500).json({ message: "Failed to fetch document version" });
+    }
+  });
+
+  // Make an earlier version current again; it is re-indexed as a new version
+  app.post("/api/documents/:id/versions/:version/restore", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const document = await storage.getDocument(Number(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined || (ownerId !== req.user!.id && req.user!.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to modify this document" });
+      }
+
+      if (PENDING_DOCUMENT_STATUSES.includes(document.status)) {
+        return res.status(409).json({ message: "Wait for the document to finish processing before restoring a version" });
+      }
+
+      const version = await storage.getDocumentVersion(document.id, Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const restored = await replaceDocumentVersion(document, {
+        name: version.name,
+        type: version.type,
+        content: version.content,
+        sections: version.sections ?? [],
+        size: version.size,
+        filePath: null,
+        checksum: version.checksum,
+        uploadedBy: req.user!.id,
+      });
+      res.status(202).json(restored);
+    } catch (error) {
+      console.error("Error restoring document version:", error);
+      res.status(500).json({ message: "Failed to restore document version" });
+    }
+  });
+
+  // Websites crawled into a chatbot's knowledge base
+  app.get("/api/chatbots/:id/url-sources", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot's URL sources" });
+      }
+
+      const sources = await storage.getUrlSources(chatbot.id);
+      res.json(sources);
+    } catch (error) {
+      console.error("Error fetching URL sources:", error);
+      res.status(500).json({ message: "Failed to fetch URL sources" });
+    }
+  });
+
+  // Add a URL source; the first crawl starts in the background
+  app.post("/api/chatbots/:id/url-sources", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to add URL sources to this chatbot" });
+      }
+
+      const data = insertUrlSourceSchema.parse({ ...req.body, chatbotId: chatbot.id });
+      const source = await storage.createUrlSource(data);
+      void crawlUrlSource(source.id);
+
+      res.status(201).json({ ...source, status: "crawling" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating URL source:", error);
+      res.status(500).json({ message: "Failed to create URL source" });
+    }
+  });
+
+  app.put("/api/url-sources/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const source = await storage.getUrlSource(Number(req.params.id));
+      if (!source) {
+        return res.status(404).json({ message: "URL source not found" });
+      }
+
+      const chatbot = await storage.getChatbot(source.chatbotId);
+      if (!chatbot || (chatbot.userId !== req.user.id && req.user.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to update this URL source" });
+      }
+
+      const data = insertUrlSourceSchema.omit({ chatbotId: true }).partial().parse(req.body);
+      const updated = await storage.updateUrlSource(source.id, data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating URL source:", error);
+      res.status(500).json({ message: "Failed to update URL source" });
+    }
+  });
+
+  // Re-crawl a URL source now instead of waiting for its schedule
+  app.post("/api/url-sources/:id/crawl", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const source = await storage.getUrlSource(Number(req.params.id));
+      if (!source) {
+        return res.status(404).json({ message: "URL source not found" });
+      }
+
+      const chatbot = await storage.getChatbot(source.chatbotId);
+      if (!chatbot || (chatbot.userId !== req.user.id && req.user.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to crawl this URL source" });
+      }
+
+      if (isCrawling(source.id)) {
+        return res.status(409).json({ message: "This source is already being crawled" });
+      }
+
+      void crawlUrlSource(source.id);
+      res.status(202).json({ ...source, status: "crawling", error: null });
+    } catch (error) {
+      console.error("Error starting crawl:", error);
+      res.status(500).json({ message: "Failed to start crawl" });
+    }
+  });
+
+  // Delete a URL source and the pages crawled from it
+  app.delete("/api/url-sources/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const source = await storage.getUrlSource(Number(req.params.id));
+      if (!source) {
+        return res.status(404).json({ message: "URL source not found" });
+      }
+
+      const chatbot = await storage.getChatbot(source.chatbotId);
+      if (!chatbot || (chatbot.userId !== req.user.id && req.user.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to delete this URL source" });
+      }
+
+      if (isCrawling(source.id)) {
+        return res.status(409).json({ message: "Wait for the current crawl to finish before deleting this source" });
+      }
+
+      await removeUrlSource(source);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting URL source:", error);
+      res.status(500).json({ message: "Failed to delete URL source" });
+    }
+  });
+
+  // FAQ entries: approved answers sent instead of generated ones when a question matches
+  app.get("/api/chatbots/:id/faq", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot's FAQ" });
+      }
+
+      res.json(await listFaqEntries(chatbot.id));
+    } catch (error) {
+      console.error("Error fetching FAQ entries:", error);
+      res.status(500).json({ message: "Failed to fetch FAQ entries" });
+    }
+  });
+
+  app.post("/api/chatbots/:id/faq", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to add FAQ entries to this chatbot" });
+      }
+
+      const data = insertFaqEntrySchema.parse({ ...req.body, chatbotId: chatbot.id });
+      const entry = await storage.createFaqEntry(data);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating FAQ entry:", error);
+      res.status(500).json({ message: "Failed to create FAQ entry" });
+    }
+  });
+
+  app.put("/api/faq/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const entry = await storage.getFaqEntry(Number(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "FAQ entry not found" });
+      }
+
+      const chatbot = await storage.getChatbot(entry.chatbotId);
+      if (!chatbot || (chatbot.userId !== req.user.id && req.user.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to update this FAQ entry" });
+      }
+
+      const data = insertFaqEntrySchema.omit({ chatbotId: true }).partial().parse(req.body);
+      const updated = await storage.updateFaqEntry(entry.id, data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating FAQ entry:", error);
+      res.status(500).json({ message: "Failed to update FAQ entry" });
+    }
+  });
+
+  app.delete("/api/faq/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const entry = await storage.getFaqEntry(Number(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "FAQ entry not found" });
+      }
+
+      const chatbot = await storage.getChatbot(entry.chatbotId);
+      if (!chatbot || (chatbot.userId !== req.user.id && req.user.role !== 'admin')) {
+        return res.status(403).json({ message: "Not authorized to delete this FAQ entry" });
+      }
+
+      await storage.deleteFaqEntry(entry.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting FAQ entry:", error);
+      res.status(500).json({ message: "Failed to delete FAQ entry" });
+    }
+  });
+
+  app.get("/api/chatbots/:id/faq/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to export this chatbot's FAQ" });
+      }
+
+      const csv = formatFaqCsv(await storage.getFaqEntries(chatbot.id));
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${chatbot.slug}-faq.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting FAQ entries:", error);
+      res.status(500).json({ message: "Failed to export FAQ entries" });
+    }
+  });
+
+  // Import FAQ entries from a CSV file in the export format; rows with an entry's ID update it
+  app.post("/api/chatbots/:id/faq/import", faqCsvUpload.single("file"), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to import FAQ entries to this chatbot" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const result = await importFaqCsv(chatbot.id, req.file.buffer.toString("utf8"));
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing FAQ entries:", error);
+      res.status(500).json({ message: "Failed to import FAQ entries" });
+    }
+  });
+
+  // Conversation flow: scripted steps run before FAQ answers and rules; null when none was saved
+  app.get("/api/chatbots/:id/flow", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot's flow" });
+      }
+
+      const flow = await storage.getConversationFlow(chatbot.id);
+      res.json(flow ?? null);
+    } catch (error) {
+      console.error("Error fetching conversation flow:", error);
+      res.status(500).json({ message: "Failed to fetch conversation flow" });
+    }
+  });
+
+  // Saving a flow adds a version; conversations already in the flow finish on theirs
+  app.put("/api/chatbots/:id/flow", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to update this chatbot's flow" });
+      }
+
+      const definition = conversationFlowSchema.parse(req.body);
+      const flow = await storage.createConversationFlowVersion(chatbot.id, definition, req.user.id);
+      res.status(201).json(flow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error saving conversation flow:", error);
+      res.status(500).json({ message: "Failed to save conversation flow" });
+    }
+  });
+
+  // Version history of a chatbot's flow, newest first
+  app.get("/api/chatbots/:id/flow/versions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot's flow" });
+      }
+
+      res.json(await listFlowVersions(chatbot.id));
+    } catch (error) {
+      console.error("Error fetching conversation flow versions:", error);
+      res.status(500).json({ message: "Failed to fetch conversation flow versions" });
+    }
+  });
+
+  // Restoring saves the old definition as the newest version
+  app.post("/api/chatbots/:id/flow/versions/:version/restore", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to update this chatbot's flow" });
+      }
+
+      const previous = await storage.getConversationFlow(chatbot.id, Number(req.params.version));
+      if (!previous) {
+        return res.status(404).json({ message: "Flow version not found" });
+      }
+
+      const flow = await storage.createConversationFlowVersion(chatbot.id, previous.definition, req.user.id);
+      res.status(201).json(flow);
+    } catch (error) {
+      console.error("Error restoring conversation flow version:", error);
+      res.status(500).json({ message: "Failed to restore conversation flow version" });
+    }
+  });
+
+  // Shared knowledge collections; every attached chatbot searches their documents
+  app.get("/api/knowledge-collections", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const collections = req.user.role === 'admin'
+        ? await storage.getAllKnowledgeCollections()
+        : await storage.getKnowledgeCollections(req.user.id);
+      res.json(await Promise.all(collections.map(collectionSummary)));
+    } catch (error) {
+      console.error("Error fetching knowledge collections:", error);
+      res.status(500).json({ message: "Failed to fetch knowledge collections" });
+    }
+  });
+
+  app.post("/api/knowledge-collections", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertKnowledgeCollectionSchema.parse({ ...req.body, userId: req.user.id });
+      const collection = await storage.createKnowledgeCollection(data);
+
+      // Providers without vector store support search collections through local chunks
+      if (llm.supportsVectorStores) {
+        try {
+          const vectorStore = await llm.createVectorStore(`${COLLECTION_VECTOR_STORE_NAME_PREFIX}${collection.id}`);
+          await storage.updateKnowledgeCollection(collection.id, { vectorStoreId: vectorStore.id });
+          console.log("Created vector store:", vectorStore.id, "for collection:", collection.id);
+        } catch (error) {
+          await storage.deleteKnowledgeCollection(collection.id);
+          throw error;
+        }
+      }
+
+      const created = await storage.getKnowledgeCollection(collection.id);
+      res.status(201).json(await collectionSummary(created!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating knowledge collection:", error);
+      res.status(500).json({ message: "Failed to create knowledge collection" });
+    }
+  });
+
+  app.put("/api/knowledge-collections/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const collection = await storage.getKnowledgeCollection(Number(req.params.id));
+      if (!collection) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      if (collection.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to update this collection" });
+      }
+
+      const data = insertKnowledgeCollectionSchema.omit({ userId: true }).partial().parse(req.body);
+      const updated = await storage.updateKnowledgeCollection(collection.id, data);
+      res.json(await collectionSummary(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating knowledge collection:", error);
+      res.status(500).json({ message: "Failed to update knowledge collection" });
+    }
+  });
+
+  // Deleting a collection removes its documents and detaches it from every chatbot
+  app.delete("/api/knowledge-collections/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const chatbot = await storage.getChatbot(Number(req.params.id));
-      if (!chatbot) {
-        return res.status(404).json({ message: "Chatbot not found" });
+      const collection = await storage.getKnowledgeCollection(Number(req.params.id));
+      if (!collection) {
+        return res.status(404).json({ message: "Collection not found" });
       }
-      
-      // Allow access if user owns the chatbot OR if user is an admin
-      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Not authorized to delete this chatbot" });
+
+      if (collection.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to delete this collection" });
       }
-      
-      // Clean up OpenAI vector store if it exists
-      if (chatbot.vectorStoreId) {
+
+      for (const document of await storage.getDocumentsByCollectionId(collection.id)) {
+        await removeDocument(document);
+      }
+
+      if (collection.vectorStoreId) {
         try {
-          await openai.vectorStores.del(chatbot.vectorStoreId);
-          console.log("Deleted OpenAI vector store:", chatbot.vectorStoreId);
+          await llm.deleteVectorStore(collection.vectorStoreId);
+          console.log("Deleted OpenAI vector store:", collection.vectorStoreId);
         } catch (error) {
+          // Reconciliation removes the orphaned store later
           console.error("Error deleting OpenAI vector store:", error);
-          // Continue with chatbot deletion even if vector store cleanup fails
         }
       }
-      
-      // Delete the chatbot from our database
-      await storage.deleteChatbot(Number(req.params.id));
+
+      await storage.deleteKnowledgeCollection(collection.id);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting chatbot:", error);
-      res.status(500).json({ message: "Failed to delete chatbot" });
+      console.error("Error deleting knowledge collection:", error);
+      res.status(500).json({ message: "Failed to delete knowledge collection" });
     }
   });
 
-  // Document routes
-  app.get("/api/documents", async (req, res) => {
+  app.get("/api/knowledge-collections/:id/documents", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const documents = await storage.getAllDocuments(req.user.id);
-      res.json(documents);
+      const collection = await storage.getKnowledgeCollection(Number(req.params.id));
+      if (!collection) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      if (collection.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this collection" });
+      }
+
+      res.json(await storage.getDocumentsByCollectionId(collection.id));
     } catch (error) {
-      console.error("Error fetching all documents:", error);
+      console.error("Error fetching collection documents:", error);
       res.status(500).json({ message: "Failed to fetch documents" });
     }
   });
 
-  app.get("/api/chatbots/:id/documents", async (req, res) => {
+  // Upload files and/or ZIP archives into a collection; responds with a result per file
+  app.post("/api/knowledge-collections/:id/documents/bulk", bulkUpload.array("files", MAX_BULK_FILES), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
-    const chatbot = await storage.getChatbot(Number(req.params.id));
-    if (!chatbot) {
-      return res.status(404).json({ message: "Chatbot not found" });
-    }
-    
-    // Allow access if user owns the chatbot OR if user is an admin
-    if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ message: "Not authorized to access this chatbot's documents" });
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) return res.status(400).json({ message: "No files uploaded" });
+
+    const removeFiles = () => Promise.all(files.map(file => unlink(file.path).catch(() => {})));
+
+    try {
+      const collection = await storage.getKnowledgeCollection(Number(req.params.id));
+      if (!collection) {
+        await removeFiles();
+        return res.status(404).json({ message: "Collection not found" });
+      }
+
+      if (collection.userId !== req.user!.id && req.user!.role !== 'admin') {
+        await removeFiles();
+        return res.status(403).json({ message: "Not authorized to add documents to this collection" });
+      }
+
+      const results = await importDocuments({ collection }, files, req.user!.id);
+      res.json({ results });
+    } catch (error) {
+      await removeFiles();
+      console.error("Collection document import error:", error);
+      res.status(500).json({ message: "Failed to import documents" });
     }
-    
-    const documents = await storage.getDocumentsByChatbotId(Number(req.params.id));
-    res.json(documents);
   });
 
-  app.post("/api/chatbots/:id/documents", upload.single("file"), async (req, res) => {
+  // Collections attached to a chatbot
+  app.get("/api/chatbots/:id/collections", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (!(req as any).file) return res.status(400).json({ message: "No file uploaded" });
 
     try {
       const chatbot = await storage.getChatbot(Number(req.params.id));
       if (!chatbot) {
         return res.status(404).json({ message: "Chatbot not found" });
       }
-      
-      // Allow access if user owns the chatbot OR if user is an admin
-      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
-        return res.status(403).json({ message: "Not authorized to add documents to this chatbot" });
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to access this chatbot" });
       }
 
-      const file = (req as any).file;
-      
-      // Get file type from the upload
-      const fileType = path.extname(file.originalname).substring(1).toLowerCase();
-      
-      let openaiFileId = null;
-      
-      // If chatbot has a vector store, check capacity and upload to OpenAI
-      if (chatbot.vectorStoreId) {
-        try {
-          // Check vector store capacity before uploading
-          const capacityCheck = await checkVectorStoreCapacity(chatbot.vectorStoreId);
-          
-          if (!capacityCheck.canUpload) {
-            return res.status(400).json({ 
-              message: "Vector store capacity limit reached. Cannot upload more documents.",
-              details: {
-                error: capacityCheck.error,
-                usage: capacityCheck.usage
-              }
-            });
-          }
-          
-          // 1. Upload raw file to OpenAI
-          const uploadResponse = await openai.files.create({
-            file: fs.createReadStream(file.path),
-            purpose: "assistants",
-          });
-          
-          openaiFileId = uploadResponse.id;
-          console.log("Uploaded file to OpenAI:", openaiFileId);
-          
-          // 2. Add file to the chatbot's vector store
-          await openai.vectorStores.fileBatches.create(
-            chatbot.vectorStoreId,
-            { file_ids: [uploadResponse.id] }
-          );
-          
-          console.log("Added file to vector store:", chatbot.vectorStoreId);
-        } catch (error: any) {
-          console.error("Error uploading to OpenAI vector store:", error);
-          
-          // Handle specific OpenAI errors
-          if (error.status === 413 || error.message?.includes("size limit")) {
-            return res.status(400).json({ 
-              message: "File is too large for vector store upload.",
-              details: error.message
-            });
-          }
-          
-          if (error.status === 429) {
-            return res.status(429).json({ 
-              message: "Rate limit exceeded. Please try again in a few moments.",
-              details: "OpenAI API rate limit reached"
-            });
-          }
-          
-          // Continue with local storage even if OpenAI upload fails
-          console.log("Continuing with local storage despite OpenAI upload failure");
-        }
+      res.json(await storage.getChatbotCollections(chatbot.id));
+    } catch (error) {
+      console.error("Error fetching chatbot collections:", error);
+      res.status(500).json({ message: "Failed to fetch collections" });
+    }
+  });
+
+  // Attach a collection; the user must be allowed to manage both the chatbot and the collection
+  app.put("/api/chatbots/:id/collections/:collectionId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      const collection = await storage.getKnowledgeCollection(Number(req.params.collectionId));
+      if (!chatbot || !collection) {
+        return res.status(404).json({ message: chatbot ? "Collection not found" : "Chatbot not found" });
       }
-      
-      // Read and process the file for local storage
-      const fileContent = await readFile(file.path, "utf8");
-      const processedContent = await processDocumentText(fileContent, fileType);
-      
-      // 3. Create document record with OpenAI file ID
-      const document = await storage.createDocument({
-        chatbotId: Number(req.params.id),
-        name: file.originalname,
-        type: fileType,
-        content: processedContent,
-        size: file.size,
-        openaiFileId: openaiFileId,
-      });
-      
-      // Clean up the local file
-      await unlink(file.path);
-      
-      res.status(201).json(document);
+
+      const isAdmin = req.user.role === 'admin';
+      if ((chatbot.userId !== req.user.id || collection.userId !== req.user.id) && !isAdmin) {
+        return res.status(403).json({ message: "Not authorized to attach this collection" });
+      }
+
+      await storage.attachCollection(chatbot.id, collection.id);
+      res.status(204).send();
     } catch (error) {
-      // Clean up uploaded file if there was an error
-      if ((req as any).file) {
-        try {
-          await unlink((req as any).file.path);
-        } catch (unlinkError) {
-          console.error("Error deleting file:", unlinkError);
-        }
+      console.error("Error attaching collection:", error);
+      res.status(500).json({ message: "Failed to attach collection" });
+    }
+  });
+
+  app.delete("/api/chatbots/:id/collections/:collectionId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
       }
 
-      console.error("Document upload error:", error);
-      res.status(500).json({ message: "Failed to process document" });
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to modify this chatbot" });
+      }
+
+      const detached = await storage.detachCollection(chatbot.id, Number(req.params.collectionId));
+      if (!detached) {
+        return res.status(404).json({ message: "Collection is not attached to this chatbot" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error detaching collection:", error);
+      res.status(500).json({ message: "Failed to detach collection" });
     }
   });
 
@@ -444,37 +1431,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      // First get the document to find its details
-      const allDocuments = await storage.getAllDocuments(req.user!.id);
-      const document = allDocuments.find(doc => doc.id === Number(req.params.id));
-      
+      const document = await storage.getDocument(Number(req.params.id));
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      const chatbot = await storage.getChatbot(document.chatbotId);
-      if (!chatbot) {
-        return res.status(404).json({ message: "Associated chatbot not found" });
+      const ownerId = await documentOwnerId(document);
+      if (ownerId === undefined) {
+        return res.status(404).json({ message: "Associated chatbot or collection not found" });
       }
       
-      // Allow deletion if user owns the chatbot OR if user is an admin
-      if (chatbot.userId !== req.user!.id && req.user!.role !== 'admin') {
+      // Allow deletion if user owns the chatbot or collection OR if user is an admin
+      if (ownerId !== req.user!.id && req.user!.role !== 'admin') {
         return res.status(403).json({ message: "Not authorized to delete this document" });
       }
       
-      // Clean up OpenAI file if it exists
-      if (document.openaiFileId) {
-        try {
-          await openai.files.del(document.openaiFileId);
-          console.log("Deleted OpenAI file:", document.openaiFileId);
-        } catch (error) {
-          console.error("Error deleting OpenAI file:", error);
-          // Continue with document deletion even if file cleanup fails
-        }
-      }
-      
-      // Delete the document from our database
-      await storage.deleteDocument(Number(req.params.id));
+      await removeDocument(document);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -521,29 +1493,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid message" });
       }
 
+      // A behavior rule can end the conversation; the patient starts a new one
+      const chatSession = await storage.getChatSession(chatbot.id, sessionId);
+      if (chatSession?.endedAt) {
+        return res.status(409).json({ message: "This conversation has ended", sessionEnded: true });
+      }
+
       // Get previous messages in this session
       const previousMessages = await storage.getMessagesBySession(chatbot.id, sessionId);
       
-      // Store user message
+      // Store user message; a tapped quick reply is logged as a selection
       await storage.createMessage({
         chatbotId: chatbot.id,
         sessionId,
         isUser: true,
         content: userMessage,
+        quickReply: req.body.quickReply === true && isOfferedQuickReply(previousMessages, userMessage),
       });
 
-      // Check behavior rules
-      let responseContent = "";
-      const behaviorRules = chatbot.behaviorRules as z.infer<typeof behaviorRuleSchema>[];
-      
-      for (const rule of behaviorRules) {
-        // Simple condition checking (in a real app, this would be more sophisticated)
-        if (userMessage.toLowerCase().includes(rule.condition.toLowerCase())) {
-          responseContent = rule.response;
-          break;
-        }
-      }
-
       // Check if this is preparation for streaming mode
       const streamMode = req.body.stream === true;
       if (streamMode) {
@@ -562,33 +1529,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Approved FAQ answers and behavior rules take priority over generated answers
+      const preset = await findPresetAnswer(chatbot, sessionId, userMessage, previousMessages);
+      let responseContent = preset?.content ?? "";
+
+      // Knowledge gap signals of generated answers; behavior rule and over-budget responses aren't gaps
+      let gapSignals: { usedFallback: boolean; searchResultCount: number | null } | undefined;
+
+      // Over-budget chatbots answer with their fallback response until the month resets
+      if (!responseContent && await isOverBudget(chatbot)) {
+        responseContent = chatbot.fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
+      }
+
       // For non-streaming responses
+      let usage: ReturnType<typeof usageFields> | undefined;
       if (!responseContent) {
+        gapSignals = { usedFallback: false, searchResultCount: null };
         try {
-          // Get documents for RAG if enabled
-          let documents: string[] = [];
-          if (chatbot.ragEnabled) {
-            const docs = await storage.getDocumentsByChatbotId(chatbot.id);
-            documents = docs.map(doc => doc.content);
-          }
+          // The chatbot's vector stores, or knowledge base excerpts retrieved locally
+          const knowledge = await findChatbotKnowledge(chatbot, userMessage);
+          gapSignals.searchResultCount = knowledge.searchResultCount;
+
+          // Trim the history to the chatbot's token budget
+          const modelSettings = await resolveModelSettings(chatbot.model);
+          const contextWindow = await buildContextWindow(chatbot, sessionId, previousMessages, modelSettings.model);
 
           // Generate completion using OpenAI
           responseContent = await generateCompletion({
             model: chatbot.model,
-            systemPrompt: chatbot.systemPrompt || undefined,
+            systemPrompt: withRetrievedKnowledge(
+              withConversationSummary(chatbot.systemPrompt || undefined, contextWindow.summary),
+              knowledge.chunks
+            ),
             userMessage,
-            previousMessages: previousMessages.map(msg => ({
-              role: msg.isUser ? "user" : "assistant",
-              content: msg.content,
-            })),
+            previousMessages: contextWindow.messages,
             temperature: chatbot.temperature / 100,
             maxTokens: chatbot.maxTokens,
-            documents,
             fallbackResponse: chatbot.fallbackResponse,
+            vectorStoreIds: knowledge.vectorStoreIds,
+            onUsage: (responseUsage) => {
+              usage = usageFields(modelSettings.model, responseUsage);
+            },
+            onSearchResults: (resultCount) => {
+              gapSignals!.searchResultCount = (gapSignals!.searchResultCount ?? 0) + resultCount;
+            },
+            onFallback: () => {
+              gapSignals!.usedFallback = true;
+            },
           });
         } catch (error) {
           console.error("OpenAI error:", error);
           responseContent = chatbot.fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
+          gapSignals.usedFallback = true;
         }
       }
 
@@ -598,11 +1590,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sessionId,
         isUser: false,
         content: responseContent,
+        ...preset?.fields,
+        ...usage,
+        ...(gapSignals && gapFields(responseContent, gapSignals)),
       });
 
       res.json({
         message: botMessage,
         sessionId,
+        sessionEnded: preset?.sessionEnded ?? false,
       });
     } catch (error) {
       console.error("Chat message error:", error);
@@ -659,48 +1655,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const latestUserMessage = userMessages[userMessages.length - 1];
       const latestBotMessage = botMessages[botMessages.length - 1];
       
-      // Get only previous messages for context (excluding the latest pair)
-      const previousMessages: { role: "user" | "assistant"; content: string }[] = messages.slice(0, -2).map(msg => ({
-        role: msg.isUser ? "user" : "assistant",
-        content: msg.content,
-      }));
+      // Approved FAQ answers and behavior rule responses are sent as written, without a model call
+      const history = messages.slice(0, -2);
+      const preset = await findPresetAnswer(chatbot, sessionId, latestUserMessage.content, history);
+      if (preset) {
+        await storage.updateMessage(latestBotMessage.id, { content: preset.content, ...preset.fields });
+        sendEvent('chunk', { content: preset.content });
+        sendEvent('complete', {
+          message: { ...latestBotMessage, content: preset.content, ...preset.fields },
+          sessionEnded: preset.sessionEnded,
+        });
+        return res.end();
+      }
       
-      // Prepare for streaming
-      let documents: string[] = [];
-      if (chatbot.ragEnabled) {
-        const docs = await storage.getDocumentsByChatbotId(chatbot.id);
-        documents = docs.map(doc => doc.content);
+      // Over-budget chatbots answer with their fallback response until the month resets.
+      // It says nothing about the knowledge base, so it isn't recorded as a knowledge gap.
+      if (await isOverBudget(chatbot)) {
+        const fallback = chatbot.fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
+        await storage.updateMessage(latestBotMessage.id, { content: fallback });
+        sendEvent('chunk', { content: fallback });
+        sendEvent('complete', { message: { ...latestBotMessage, content: fallback } });
+        return res.end();
       }
       
+      // Per-chatbot model, temperature and response length
+      const modelSettings = await resolveModelSettings(
+        chatbot.model,
+        chatbot.temperature / 100,
+        chatbot.maxTokens
+      );
+      
+      // Previous messages for context (excluding the latest pair), trimmed to the token budget
+      const contextWindow = await buildContextWindow(chatbot, sessionId, history, modelSettings.model);
+      const previousMessages = contextWindow.messages;
+      const systemPrompt = withConversationSummary(chatbot.systemPrompt || undefined, contextWindow.summary);
+      
+      // Chain from the last answer when the provider stored it, so the history isn't resent.
+      // Once older turns are summarized the stored chain would exceed the budget, so resend instead.
+      const lastHistoryMessage = history[history.length - 1];
+      const previousResponseId = lastHistoryMessage && !lastHistoryMessage.isUser && !contextWindow.truncated
+        ? lastHistoryMessage.responseId
+        : null;
+      
+      // The chatbot's vector stores, or knowledge base excerpts retrieved locally
+      const knowledge = await findChatbotKnowledge(chatbot, latestUserMessage.content);
+      
+      // Knowledge gap signals of the answer; file_search results are counted as they arrive
+      const gapSignals = {
+        usedFallback: false,
+        searchResultCount: knowledge.searchResultCount,
+      };
+      const onSearchResults = (resultCount: number) => {
+        gapSignals.searchResultCount = (gapSignals.searchResultCount ?? 0) + resultCount;
+      };
+      const onFallback = () => {
+        gapSignals.usedFallback = true;
+      };
+      
       let fullContent = "";
       
+      // Function tools enabled on this chatbot; calls are reported so the UI can show progress
+      const tools = buildToolSet(chatbot, sessionId);
+      const onToolCall = (call: { call_id: string; name: string }) => {
+        sendEvent('tool_call', {
+          callId: call.call_id,
+          name: call.name,
+          label: getTool(call.name)?.label || "Working on it…"
+        });
+      };
+      // Quick replies, buttons and cards the model chose to show with its answer
+      let payload: MessagePayload | null = null;
+      const onToolResult = (call: { call_id: string; name: string }, result: ToolResult) => {
+        sendEvent('tool_result', { callId: call.call_id, name: call.name, ok: result.ok });
+        payload = mergePayloads(payload, toolResultPayload(call.name, result));
+      };
+      
       try {
         // Use vector store if available, otherwise fall back to traditional RAG
-        if (chatbot.vectorStoreId) {
+        if (knowledge.vectorStoreIds.length > 0) {
+          // Cited files are matched back to the chatbot's and its collections' documents for display names
+          const chatbotDocuments = await storage.getChatbotKnowledgeDocuments(chatbot.id);
+          const citations: Citation[] = [];
+          
           // Stream the completion with vector store support
           await generateStreamingResponseCompletion({
             userMessage: latestUserMessage.content,
-            chatbot: { vectorStoreId: chatbot.vectorStoreId },
-            systemPrompt: chatbot.systemPrompt || undefined,
+            chatbot: { vectorStoreIds: knowledge.vectorStoreIds, ...modelSettings },
+            systemPrompt,
             previousMessages,
+            previousResponseId,
+            tools,
             fallbackResponse: chatbot.fallbackResponse || undefined,
+            onToolCall,
+            onToolResult,
+            onSearchResults,
+            onFallback,
             onChunk: (chunk) => {
               // Send each chunk as it arrives
               sendEvent('chunk', { content: chunk });
             },
-            onComplete: async (completedContent) => {
+            onCitation: (fileCitation) => {
+              const document = chatbotDocuments.find(doc => doc.openaiFileId === fileCitation.fileId);
+              const citation: Citation = {
+                index: citations.length + 1,
+                fileId: fileCitation.fileId,
+                documentName: document?.name || fileCitation.filename || "Document",
+                snippet: fileCitation.snippet,
+              };
+              citations.push(citation);
+              sendEvent('citation', citation);
+            },
+            onComplete: async (completedContent, responseId, usage) => {
               fullContent = completedContent;
               
-              // Update the message in the database with the final content
+              // Update the message in the database with the final content, its sources and usage
               const updatedMessage = await storage.updateMessage(latestBotMessage.id, {
-                content: fullContent
+                content: fullContent,
+                responseId: responseId ?? null,
+                citations: citations.length > 0 ? citations : null,
+                payload,
+                ...usageFields(modelSettings.model, usage),
+                ...gapFields(fullContent, gapSignals)
               });
             
             // Send the complete event with the final message
             sendEvent('complete', { 
               message: {
                 ...latestBotMessage,
-                content: fullContent
+                content: fullContent,
+                citations: citations.length > 0 ? citations : null,
+                payload
               }
             });
             
@@ -715,7 +1799,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             // Update the message in the database with the error message
             await storage.updateMessage(latestBotMessage.id, {
-              content: errorMsg
+              content: errorMsg,
+              ...gapFields(errorMsg, { ...gapSignals, usedFallback: true })
             });
             
             // Send error event
@@ -729,23 +1814,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Fall back to responses API for chatbots without vector stores
         await generateStreamingResponseCompletion({
             userMessage: latestUserMessage.content,
-            systemPrompt: chatbot.systemPrompt || undefined,
+            chatbot: modelSettings,
+            systemPrompt: withRetrievedKnowledge(systemPrompt, knowledge.chunks),
             previousMessages,
+            previousResponseId,
+            tools,
             fallbackResponse: chatbot.fallbackResponse || undefined,
+            onToolCall,
+            onToolResult,
+            onSearchResults,
+            onFallback,
             onChunk: (chunk) => {
               sendEvent('chunk', { content: chunk });
             },
-            onComplete: async (completedContent) => {
+            onComplete: async (completedContent, responseId, usage) => {
               fullContent = completedContent;
               
               const updatedMessage = await storage.updateMessage(latestBotMessage.id, {
-                content: fullContent
+                content: fullContent,
+                responseId: responseId ?? null,
+                payload,
+                ...usageFields(modelSettings.model, usage),
+                ...gapFields(fullContent, gapSignals)
               });
             
               sendEvent('complete', { 
                 message: {
                   ...latestBotMessage,
-                  content: fullContent
+                  content: fullContent,
+                  payload
                 }
               });
               
@@ -758,7 +1855,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 chatbot.fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
               
               await storage.updateMessage(latestBotMessage.id, {
-                content: errorMsg
+                content: errorMsg,
+                ...gapFields(errorMsg, { ...gapSignals, usedFallback: true })
               });
               
               sendEvent('error', { message: errorMsg });
@@ -767,13 +1865,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
       } catch (error) {
+        // Also reached when saving the answer fails in onComplete or onError
         console.error("OpenAI streaming error:", error);
         const errorMsg = chatbot.fallbackResponse || "I'm sorry, I couldn't process your request at this time.";
         
         // Update the message with the error content
-        await storage.updateMessage(latestBotMessage.id, {
-          content: errorMsg
-        });
+        try {
+          await storage.updateMessage(latestBotMessage.id, {
+            content: errorMsg,
+            ...gapFields(errorMsg, { ...gapSignals, usedFallback: true })
+          });
+        } catch (updateError) {
+          console.error("Error saving streamed message:", updateError);
+        }
         
         // Send error event
         sendEvent('error', { message: errorMsg });
@@ -783,6 +1887,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error("Streaming endpoint error:", error);
+      // Once the event stream has started, errors can only be sent as events
+      if (res.headersSent) {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: "Failed to process message" })}\n\n`);
+        return res.end();
+      }
       res.status(500).json({ message: "Failed to process message" });
     }
   });
@@ -908,7 +2017,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             averageQueriesPerSession: 0,
             chatbotBreakdown: []
           },
-          careAidStats: []
+          careAidStats: [],
+          costStats: await buildCostStats([])
         });
       }
       
@@ -942,6 +2052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Get sessions and queries for the specific chatbot
         const chatbotStats = await storage.getChatbotAnalytics(chatbotIdNum, timeFilter);
         const chatbot = userChatbots.find(c => c.id === chatbotIdNum);
+        const costStats = await buildCostStats(userChatbots.filter(c => c.id === chatbotIdNum), timeFilter);
         
         res.json({
           overallStats: {
@@ -965,7 +2076,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             averageQueriesPerSession: chatbotStats.totalSessions > 0 
               ? chatbotStats.totalQueries / chatbotStats.totalSessions 
               : 0
-          }]
+          }],
+          costStats
         });
       } else {
         // Get overall analytics for all user's chatbots
@@ -1004,7 +2116,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               : 0,
             chatbotBreakdown
           },
-          careAidStats: chatbotStats
+          careAidStats: chatbotStats,
+          costStats: await buildCostStats(userChatbots, timeFilter)
         });
       }
     } catch (error) {
@@ -1013,6 +2126,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Questions the user's chatbots answered with their fallback, without knowledge base
+  // results or with a refusal, clustered and ranked by frequency
+  app.get("/api/analytics/knowledge-gaps", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbotId = req.query.chatbotId as string;
+      const timeframe = req.query.timeframe as string || 'all';
+
+      let chatbots = await storage.getChatbots(req.user.id);
+      if (chatbotId && chatbotId !== 'all') {
+        chatbots = chatbots.filter(chatbot => chatbot.id === Number(chatbotId));
+        if (chatbots.length === 0) {
+          return res.status(403).json({ message: "Not authorized to access this chatbot's analytics" });
+        }
+      }
+
+      const timeFilter: any = {};
+      if (timeframe !== 'all') {
+        const startDate = new Date();
+        if (timeframe === 'today') {
+          startDate.setHours(0, 0, 0, 0);
+        } else if (timeframe === 'week') {
+          startDate.setDate(startDate.getDate() - 7);
+        } else if (timeframe === 'month') {
+          startDate.setDate(startDate.getDate() - 30);
+        }
+        timeFilter.startDate = startDate;
+      }
+
+      res.json(await buildKnowledgeGaps(chatbots, timeFilter));
+    } catch (error) {
+      console.error("Knowledge gap report error:", error);
+      res.status(500).json({ message: "Failed to build knowledge gap report" });
+    }
+  });
+
+  // Behavior rule test bench: runs sample messages against the rules being edited
+  // and checks them for shadowed, overlapping and overly broad rules
+  app.post("/api/chatbots/:id/behavior-rules/test", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbot = await storage.getChatbot(Number(req.params.id));
+      if (!chatbot) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      if (chatbot.userId !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to test this chatbot's rules" });
+      }
+
+      const { rules, messages } = behaviorRuleTestSchema.parse(req.body);
+      const response: BehaviorRuleTestResponse = {
+        results: await testBehaviorRules(rules, messages, embeddingUsageRecorder(chatbot.id)),
+        warnings: analyzeBehaviorRules(rules),
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error testing behavior rules:", error);
+      res.status(500).json({ message: "Failed to test behavior rules" });
+    }
+  });
+
   // Preview mode response generation endpoint
   app.post("/api/preview/generate-response", async (req, res) => {
     try {
@@ -1030,7 +2210,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         previousMessages: [], // No history in preview mode
         temperature: 0.7,
         maxTokens: 500,
-        documents: [], // No documents in preview mode
       });
 
       res.json({ response });
@@ -1141,6 +2320,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OpenAI models endpoint
+  // Budget alerts for the user's chatbots (admins see all)
+  app.get("/api/budget-alerts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbots = req.user.role === 'admin'
+        ? await storage.getAllChatbots()
+        : await storage.getChatbots(req.user.id);
+      const alerts = await storage.getBudgetAlerts(chatbots.map(c => c.id));
+
+      res.json(alerts.map(alert => ({
+        ...alert,
+        chatbotName: chatbots.find(c => c.id === alert.chatbotId)?.name || "Unknown Chatbot"
+      })));
+    } catch (error) {
+      console.error("Error fetching budget alerts:", error);
+      res.status(500).json({ message: "Failed to fetch budget alerts" });
+    }
+  });
+
+  app.post("/api/budget-alerts/:id/acknowledge", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const chatbots = req.user.role === 'admin'
+        ? await storage.getAllChatbots()
+        : await storage.getChatbots(req.user.id);
+      const alerts = await storage.getBudgetAlerts(chatbots.map(c => c.id));
+      if (!alerts.some(alert => alert.id === Number(req.params.id))) {
+        return res.status(404).json({ message: "Budget alert not found" });
+      }
+
+      const alert = await storage.acknowledgeBudgetAlert(Number(req.params.id));
+      res.json(alert);
+    } catch (error) {
+      console.error("Error acknowledging budget alert:", error);
+      res.status(500).json({ message: "Failed to acknowledge budget alert" });
+    }
+  });
+
+  // Function tools that can be enabled on a chatbot
+  app.get("/api/tools", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    res.json(listTools().map(({ name, label, description }) => ({ name, label, description })));
+  });
+
   app.get("/api/models", async (req, res) => {
     try {
       const models = await storage.getOpenaiModels();
@@ -1513,6 +2739,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Conversations behavior rules handed off to the care team, most recent first
+  app.get("/api/care-team/handoffs", requireCareTeamRole, async (req, res) => {
+    try {
+      const chatbots = await storage.getAssignedChatbots(req.user!.id);
+      const sessions = await storage.getHandoffSessions(chatbots.map(chatbot => chatbot.id), 50);
+
+      const handoffs: HandoffSummary[] = await Promise.all(sessions.map(async session => {
+        const sessionMessages = await storage.getMessagesBySession(session.chatbotId, session.sessionId);
+        const lastUserMessage = sessionMessages.filter(message => message.isUser).pop();
+        return {
+          chatbotId: session.chatbotId,
+          chatbotName: chatbots.find(chatbot => chatbot.id === session.chatbotId)?.name ?? "Unknown",
+          sessionId: session.sessionId,
+          reason: session.handoffReason,
+          message: lastUserMessage ? redactPII(lastUserMessage.content) : null,
+          handoffAt: session.handoffAt!.toISOString(),
+        };
+      }));
+
+      res.json(handoffs);
+    } catch (error) {
+      console.error("Error fetching handoffs:", error);
+      res.status(500).json({ message: "Failed to fetch handoffs" });
+    }
+  });
+
   // Get chat logs for care team member (filtered by assigned chatbots)
   app.get("/api/care-team/logs", requireCareTeamRole, async (req, res) => {
     try {
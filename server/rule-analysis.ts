@@ -0,0 +1,210 @@
+import type { BehaviorRule, BehaviorRuleWarning, RuleTestResult } from "@shared/schema";
+import { evaluateBehaviorRules, findPhrase, matchSpans, ruleDisplayName, splitList, splitLines } from "./behavior-rules";
+import { analyzeTerms } from "./retrieval/terms";
+import type { EmbeddingUsageHandler } from "./retrieval/embeddings";
+
+// Words in so many patient messages that a rule keyed on them answers almost everything
+const COMMON_WORDS = new Set([
+  "help", "hi", "hello", "hey", "yes", "ok", "okay", "thanks", "thank you", "please",
+  "question", "need", "want", "know", "get", "go", "tell", "ask", "doctor", "appointment",
+]);
+// Keywords this short match inside too many unrelated messages
+const MIN_KEYWORD_LENGTH = 3;
+// Everyday messages a targeted regex shouldn't mostly match
+const SAMPLE_MESSAGES = [
+  "Hi, I have a question about my appointment",
+  "What time should I arrive for my surgery?",
+  "Can I eat before the procedure?",
+  "Where do I park?",
+  "Thank you so much",
+  "How long is the recovery?",
+  "Is it normal to feel tired after the operation?",
+  "Can you help me please",
+];
+// Share of sample messages a regex may match before it is flagged as too broad
+const BROAD_PATTERN_SHARE = 0.5;
+// Intent thresholds below this match loosely related messages
+const MIN_INTENT_THRESHOLD = 0.3;
+
+/**
+ * Runs sample messages against rules and lists every rule that matches each one,
+ * in firing order. Session conditions are reported but not checked.
+ * @param onUsage Receives the usage of provider embeddings for intent rules
+ */
+export async function testBehaviorRules(
+  rules: BehaviorRule[],
+  messages: string[],
+  onUsage?: EmbeddingUsageHandler
+): Promise<RuleTestResult[]> {
+  const results: RuleTestResult[] = [];
+  for (const message of messages) {
+    const matches = await evaluateBehaviorRules(rules, message, undefined, onUsage);
+    results.push({
+      message,
+      matches: matches.map(match => ({
+        ruleIndex: match.index,
+        name: ruleDisplayName(match.rule, match.index),
+        priority: match.rule.priority,
+        matchType: match.rule.matchType,
+        spans: match.spans,
+        score: match.score,
+        hasSessionCondition: Object.values(match.rule.session).some(value => value !== undefined),
+      })),
+    });
+  }
+  return results;
+}
+
+/**
+ * Static check of a chatbot's rules: rules that can never fire because an earlier
+ * rule answers every message they match, rules that share keywords with an earlier
+ * rule, and rules keyed on words or patterns that match most messages
+ */
+export function analyzeBehaviorRules(rules: BehaviorRule[]): BehaviorRuleWarning[] {
+  const warnings: BehaviorRuleWarning[] = [];
+  const active = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.enabled && rule.condition.trim())
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index);
+
+  // A shadowed rule's overlaps with later-checked rules don't matter
+  const shadowed = new Set<number>();
+  for (let i = 0; i < active.length; i++) {
+    const first = active[i];
+    const firstName = `"${ruleDisplayName(first.rule, first.index)}"`;
+    for (let j = i + 1; j < active.length; j++) {
+      const later = active[j];
+      if (shadowed.has(later.index)) continue;
+      const order = first.rule.priority === later.rule.priority ? "is listed earlier" : "has a higher priority";
+      if (shadows(first.rule, later.rule)) {
+        shadowed.add(later.index);
+        warnings.push({
+          kind: "shadowed",
+          ruleIndex: later.index,
+          otherRuleIndex: first.index,
+          message: `Never fires: ${firstName} matches every message this rule matches and ${order}.`,
+        });
+        continue;
+      }
+      const shared = sharedKeywords(first.rule, later.rule);
+      if (shared.length > 0) {
+        warnings.push({
+          kind: "overlap",
+          ruleIndex: later.index,
+          otherRuleIndex: first.index,
+          message: `Shares ${shared.map(keyword => `"${keyword}"`).join(", ")} with ${firstName}, which ${order} and answers when both match.`,
+        });
+      }
+    }
+  }
+
+  active.forEach(({ rule, index }) => {
+    const warning = breadthWarning(rule);
+    if (warning) {
+      warnings.push({ ...warning, ruleIndex: index });
+    }
+  });
+
+  return warnings.sort((a, b) => a.ruleIndex - b.ruleIndex);
+}
+
+// Whether every message matching `later` is also matched by `first`. Only judged when
+// it can be shown from the rule text; rules with exclusions or session conditions
+// don't always apply, so they shadow nothing.
+function shadows(first: BehaviorRule, later: BehaviorRule): boolean {
+  const conditional = first.excludeKeywords.length > 0
+    || Object.values(first.session).some(value => value !== undefined);
+  if (conditional) {
+    return false;
+  }
+
+  const isKeywordRule = first.matchType === "keywords_any" || first.matchType === "keywords_all" || first.matchType === "contains";
+  if (!isKeywordRule && !(later.matchType === "exact" && (first.matchType === "exact" || first.matchType === "regex"))) {
+    return false;
+  }
+  // A keyword rule skipping negated mentions misses messages a rule that keeps them matches
+  if (first.ignoreNegated && !later.ignoreNegated && later.matchType !== "exact") {
+    return false;
+  }
+
+  // Texts every message matching `later` contains (or, for exact rules, equals)
+  let samples: string[];
+  switch (later.matchType) {
+    case "keywords_any":
+      samples = splitList(later.condition);
+      break;
+    case "keywords_all":
+      samples = [splitList(later.condition).join(". ")];
+      break;
+    case "contains":
+      samples = [later.condition];
+      break;
+    case "exact":
+      samples = splitLines(later.condition);
+      break;
+    default:
+      return false;
+  }
+  return samples.length > 0 && samples.every(sample => matchSpans(first, sample) !== null);
+}
+
+// Keywords or exact wordings of two rules where one contains the other
+function sharedKeywords(first: BehaviorRule, later: BehaviorRule): string[] {
+  const firstKeywords = ruleKeywords(first);
+  const laterKeywords = ruleKeywords(later);
+  const shared = new Set<string>();
+  for (const a of firstKeywords) {
+    for (const b of laterKeywords) {
+      if (findPhrase(b, a, false).length > 0) shared.add(a);
+      else if (findPhrase(a, b, false).length > 0) shared.add(b);
+    }
+  }
+  return Array.from(shared);
+}
+
+function ruleKeywords(rule: BehaviorRule): string[] {
+  switch (rule.matchType) {
+    case "keywords_any":
+    case "keywords_all":
+      return splitList(rule.condition);
+    case "contains":
+      return [rule.condition.trim()];
+    case "exact":
+      return splitLines(rule.condition);
+    default:
+      return [];
+  }
+}
+
+function breadthWarning(rule: BehaviorRule): Omit<BehaviorRuleWarning, "ruleIndex"> | null {
+  switch (rule.matchType) {
+    case "keywords_any":
+    case "keywords_all": {
+      const common = splitList(rule.condition).filter(keyword =>
+        COMMON_WORDS.has(keyword.toLowerCase())
+        || analyzeTerms(keyword).length === 0
+        || keyword.length < MIN_KEYWORD_LENGTH
+      );
+      // A keywords_all rule is only as broad as its most specific keyword
+      const broad = rule.matchType === "keywords_any" ? common.length > 0 : common.length === splitList(rule.condition).length;
+      return broad
+        ? { kind: "common_words", message: `Matches very common words (${common.map(keyword => `"${keyword}"`).join(", ")}), so it will answer many unrelated messages.` }
+        : null;
+    }
+    case "regex": {
+      if (new RegExp(rule.condition, "i").test("")) {
+        return { kind: "broad_pattern", message: "The pattern can match an empty string, e.g. through a trailing \"|\" or a \"*\"; it only matches where it finds text, but it is likely broader than intended." };
+      }
+      const matched = SAMPLE_MESSAGES.filter(message => matchSpans(rule, message) !== null).length;
+      return matched / SAMPLE_MESSAGES.length >= BROAD_PATTERN_SHARE
+        ? { kind: "broad_pattern", message: `Matches ${matched} of ${SAMPLE_MESSAGES.length} everyday sample messages; the pattern is probably too broad.` }
+        : null;
+    }
+    case "intent":
+      return rule.intentThreshold < MIN_INTENT_THRESHOLD
+        ? { kind: "broad_pattern", message: `A similarity threshold of ${rule.intentThreshold} matches loosely related messages; try ${MIN_INTENT_THRESHOLD} or higher.` }
+        : null;
+    default:
+      return null;
+  }
+}
@@ -2,34 +2,109 @@ import {
   users, 
   chatbots, 
   documents, 
+  documentChunks,
+  documentVersions,
   messages, 
+  chatSessions,
+  callbackRequests,
+  urlSources,
+  knowledgeCollections,
+  chatbotCollections,
+  faqEntries,
+  conversationFlows,
   userChatbotAssignments,
   commonMessages,
   openaiModels,
+  modelPricing,
+  budgetAlerts,
+  modelUsage,
   type User, 
   type InsertUser, 
   type Chatbot, 
   type InsertChatbot, 
   type Document, 
   type InsertDocument, 
+  type DocumentStatus,
+  type DocumentChunk,
+  type DocumentVersion,
+  type InsertDocumentChunk,
   type Message, 
   type InsertMessage,
+  type ChatSession,
+  type InsertChatSession,
+  type CallbackRequest,
+  type InsertCallbackRequest,
+  type UrlSource,
+  type InsertUrlSource,
+  type KnowledgeCollection,
+  type InsertKnowledgeCollection,
+  type KnowledgeOwner,
+  type FaqEntry,
+  type InsertFaqEntry,
+  type ConversationFlow,
+  type ConversationFlowDefinition,
   type UserChatbotAssignment,
   type InsertUserChatbotAssignment,
   type CommonMessage,
   type InsertCommonMessage,
   type OpenaiModel,
-  type InsertOpenaiModel
+  type InsertOpenaiModel,
+  type ModelPricing,
+  type InsertModelPricing,
+  type BudgetAlert,
+  type InsertBudgetAlert,
+  type InsertModelUsage
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
-import { eq, and, inArray, like, gte, lte, desc, count } from "drizzle-orm";
+import { eq, and, or, inArray, isNotNull, isNull, like, gte, lte, desc, count, sql, type AnyColumn, type SQL } from "drizzle-orm";
 import { pool } from "./db";
 import createMemoryStore from "memorystore";
 
 const MemoryStore = createMemoryStore(session);
 
+// Fields that can change on a message after it is created (streamed answers)
+type MessageUpdate = Pick<Message, "content"> &
+  Partial<Pick<Message, "responseId" | "citations" | "model" | "inputTokens" | "outputTokens" | "cachedTokens" |
+    "usedFallback" | "searchResultCount" | "refusal" | "faqEntryId" | "behaviorRule" | "flowNode" | "payload">>;
+
+// Crawl state of a URL source, recorded by the crawler
+type UrlSourceUpdate = Partial<InsertUrlSource & Pick<UrlSource, "status" | "error" | "pageCount" | "lastCrawledAt">>;
+type KnowledgeCollectionUpdate = Partial<InsertKnowledgeCollection & Pick<KnowledgeCollection, "vectorStoreId">>;
+
+// How often an FAQ entry's approved answer was sent
+export type FaqHitCount = { faqEntryId: number; hitCount: number; lastHitAt: Date };
+
+// Cost in USD of a row's token usage from the joined model pricing row.
+// Cached input tokens are billed at the cached rate when the model has one.
+function tokenCostSql(usage: { inputTokens: AnyColumn; cachedTokens: AnyColumn; outputTokens: AnyColumn }) {
+  return sql`(
+    (coalesce(${usage.inputTokens}, 0) - coalesce(${usage.cachedTokens}, 0)) * coalesce(${modelPricing.inputPerMillion}, 0)
+    + coalesce(${usage.cachedTokens}, 0) * coalesce(${modelPricing.cachedInputPerMillion}, ${modelPricing.inputPerMillion}, 0)
+    + coalesce(${usage.outputTokens}, 0) * coalesce(${modelPricing.outputPerMillion}, 0)
+  ) / 1000000.0`;
+}
+
+const messageCostSql = tokenCostSql(messages);
+const modelUsageCostSql = tokenCostSql(modelUsage);
+
+export type UsageSummaryRow = {
+  chatbotId: number;
+  model: string;
+  responses: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+};
+
+// A bot message with knowledge gap signals and the patient question it answered
+export type KnowledgeGapMessage = {
+  answer: Message;
+  question: string | null;
+};
+
 // Storage interface with all CRUD operations
 export interface IStorage {
   // User operations
@@ -59,18 +134,91 @@ export interface IStorage {
   // Document operations
   getAllDocuments(userId: number): Promise<Document[]>;
   getDocumentsByChatbotId(chatbotId: number): Promise<Document[]>;
+  getDocumentsByCollectionId(collectionId: number): Promise<Document[]>;
+  // A chatbot's own documents plus those of the collections attached to it
+  getChatbotKnowledgeDocuments(chatbotId: number): Promise<Document[]>;
+  getDocument(id: number): Promise<Document | undefined>;
+  getDocumentsByStatus(statuses: DocumentStatus[]): Promise<Document[]>;
+  getDocumentsByUrlSource(urlSourceId: number): Promise<Document[]>;
+  getDocumentsDueForReview(chatbotIds: number[], collectionIds: number[], dueBy: Date): Promise<Document[]>;
+  getExpiredSearchableDocuments(now: Date): Promise<Document[]>;
+  // Documents whose chatbot or collection no longer exists
+  getOrphanedDocuments(): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
+  updateDocument(id: number, updates: Partial<InsertDocument>): Promise<Document | undefined>;
   deleteDocument(id: number): Promise<boolean>;
 
+  // Document version operations
+  getDocumentVersions(documentId: number): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined>;
+  replaceDocumentVersion(documentId: number, updates: Partial<InsertDocument>): Promise<Document | undefined>;
+
+  // Document chunk operations
+  getDocumentChunks(owner: KnowledgeOwner): Promise<DocumentChunk[]>;
+  replaceDocumentChunks(documentId: number, chunks: InsertDocumentChunk[]): Promise<void>;
+
   // Message operations
   getMessagesBySession(chatbotId: number, sessionId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
-  updateMessage(id: number, updates: { content: string }): Promise<Message | undefined>;
+  updateMessage(id: number, updates: MessageUpdate): Promise<Message | undefined>;
   getChatLogs(filter: any, page: number, pageSize: number): Promise<{logs: Message[], totalCount: number}>;
+
+  // Chat session operations
+  getChatSession(chatbotId: number, sessionId: string): Promise<ChatSession | undefined>;
+  saveChatSession(session: InsertChatSession): Promise<ChatSession>;
+  getHandoffSessions(chatbotIds: number[], limit: number): Promise<ChatSession[]>;
+
+  // Callback request operations
+  getCallbackRequests(chatbotId: number): Promise<CallbackRequest[]>;
+  createCallbackRequest(request: InsertCallbackRequest): Promise<CallbackRequest>;
+
+  // URL source operations
+  getUrlSources(chatbotId: number): Promise<UrlSource[]>;
+  getScheduledUrlSources(): Promise<UrlSource[]>;
+  getUrlSource(id: number): Promise<UrlSource | undefined>;
+  createUrlSource(source: InsertUrlSource): Promise<UrlSource>;
+  updateUrlSource(id: number, updates: UrlSourceUpdate): Promise<UrlSource | undefined>;
+  deleteUrlSource(id: number): Promise<boolean>;
+
+  // Knowledge collection operations
+  getKnowledgeCollections(userId: number): Promise<KnowledgeCollection[]>;
+  getAllKnowledgeCollections(): Promise<KnowledgeCollection[]>;
+  getKnowledgeCollection(id: number): Promise<KnowledgeCollection | undefined>;
+  createKnowledgeCollection(collection: InsertKnowledgeCollection): Promise<KnowledgeCollection>;
+  updateKnowledgeCollection(id: number, updates: KnowledgeCollectionUpdate): Promise<KnowledgeCollection | undefined>;
+  deleteKnowledgeCollection(id: number): Promise<boolean>;
+  getChatbotCollections(chatbotId: number): Promise<KnowledgeCollection[]>;
+  getCollectionChatbotIds(collectionId: number): Promise<number[]>;
+  attachCollection(chatbotId: number, collectionId: number): Promise<void>;
+  detachCollection(chatbotId: number, collectionId: number): Promise<boolean>;
+
+  // FAQ entry operations
+  getFaqEntries(chatbotId: number): Promise<FaqEntry[]>;
+  getFaqEntry(id: number): Promise<FaqEntry | undefined>;
+  createFaqEntry(entry: InsertFaqEntry): Promise<FaqEntry>;
+  updateFaqEntry(id: number, updates: Partial<InsertFaqEntry>): Promise<FaqEntry | undefined>;
+  deleteFaqEntry(id: number): Promise<boolean>;
+  getFaqHitCounts(chatbotId: number): Promise<FaqHitCount[]>;
+
+  // Conversation flow operations
+  getConversationFlow(chatbotId: number, version?: number): Promise<ConversationFlow | undefined>;
+  getConversationFlowVersions(chatbotId: number): Promise<ConversationFlow[]>;
+  createConversationFlowVersion(chatbotId: number, definition: ConversationFlowDefinition, createdBy: number | null): Promise<ConversationFlow>;
   
   // Analytics operations
   getChatbotAnalytics(chatbotId: number, timeFilter?: any): Promise<{totalSessions: number, totalQueries: number}>;
   getOverallAnalytics(chatbotIds: number[], timeFilter?: any): Promise<{totalSessions: number, totalQueries: number}>;
+  getKnowledgeGapMessages(chatbotIds: number[], limit: number, timeFilter?: any): Promise<KnowledgeGapMessage[]>;
+
+  // Usage and cost operations
+  getUsageSummary(chatbotIds: number[], timeFilter?: any): Promise<UsageSummaryRow[]>;
+  getChatbotCost(chatbotId: number, since: Date): Promise<number>;
+  recordModelUsage(usage: InsertModelUsage): Promise<void>;
+  getModelPricing(): Promise<ModelPricing[]>;
+  upsertModelPricing(pricing: InsertModelPricing): Promise<ModelPricing>;
+  getBudgetAlerts(chatbotIds: number[]): Promise<BudgetAlert[]>;
+  createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert | undefined>;
+  acknowledgeBudgetAlert(id: number): Promise<BudgetAlert | undefined>;
 
   // Common messages operations
   getCommonMessages(userId: number, kind?: "welcome" | "faq"): Promise<CommonMessage[]>;
@@ -80,6 +228,7 @@ export interface IStorage {
 
   // OpenAI models operations
   getOpenaiModels(): Promise<OpenaiModel[]>;
+  getOpenaiModel(id: string): Promise<OpenaiModel | undefined>;
   upsertOpenaiModel(model: InsertOpenaiModel): Promise<OpenaiModel>;
 
   // Session store
@@ -177,6 +326,201 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getKnowledgeGapMessages(chatbotIds: number[], limit: number, timeFilter?: any): Promise<KnowledgeGapMessage[]> {
+    if (chatbotIds.length === 0) {
+      return [];
+    }
+
+    let queryConditions = and(
+      inArray(messages.chatbotId, chatbotIds),
+      eq(messages.isUser, false),
+      or(eq(messages.usedFallback, true), eq(messages.searchResultCount, 0), eq(messages.refusal, true))
+    );
+
+    if (timeFilter?.startDate) {
+      queryConditions = and(queryConditions, gte(messages.timestamp, timeFilter.startDate));
+    }
+
+    if (timeFilter?.endDate) {
+      queryConditions = and(queryConditions, lte(messages.timestamp, timeFilter.endDate));
+    }
+
+    const answers = await db.select().from(messages)
+      .where(queryConditions)
+      .orderBy(desc(messages.timestamp))
+      .limit(limit);
+    if (answers.length === 0) {
+      return [];
+    }
+
+    // The question is the session's last patient message before the answer
+    const sessionIds = Array.from(new Set(answers.map(answer => answer.sessionId)));
+    const questions = await db.select().from(messages)
+      .where(and(
+        inArray(messages.chatbotId, chatbotIds),
+        inArray(messages.sessionId, sessionIds),
+        eq(messages.isUser, true),
+        lte(messages.id, Math.max(...answers.map(answer => answer.id)))
+      ))
+      .orderBy(desc(messages.id));
+
+    const questionsBySession = new Map<string, Message[]>();
+    for (const question of questions) {
+      const key = `${question.chatbotId}:${question.sessionId}`;
+      const sessionQuestions = questionsBySession.get(key) ?? [];
+      sessionQuestions.push(question);
+      questionsBySession.set(key, sessionQuestions);
+    }
+
+    return answers.map(answer => ({
+      answer,
+      question: questionsBySession.get(`${answer.chatbotId}:${answer.sessionId}`)
+        ?.find(question => question.id < answer.id)?.content ?? null,
+    }));
+  }
+
+  // Usage and cost operations
+  async getUsageSummary(chatbotIds: number[], timeFilter?: any): Promise<UsageSummaryRow[]> {
+    if (chatbotIds.length === 0) {
+      return [];
+    }
+
+    let queryConditions = and(inArray(messages.chatbotId, chatbotIds), sql`${messages.model} is not null`);
+
+    if (timeFilter?.startDate) {
+      queryConditions = and(queryConditions, gte(messages.timestamp, timeFilter.startDate));
+    }
+
+    if (timeFilter?.endDate) {
+      queryConditions = and(queryConditions, lte(messages.timestamp, timeFilter.endDate));
+    }
+
+    const rows = await db
+      .select({
+        chatbotId: messages.chatbotId,
+        model: messages.model,
+        responses: count(),
+        inputTokens: sql<number>`coalesce(sum(${messages.inputTokens}), 0)`,
+        outputTokens: sql<number>`coalesce(sum(${messages.outputTokens}), 0)`,
+        cachedTokens: sql<number>`coalesce(sum(${messages.cachedTokens}), 0)`,
+        costUsd: sql<number>`coalesce(sum(${messageCostSql}), 0)`,
+      })
+      .from(messages)
+      .leftJoin(modelPricing, eq(modelPricing.modelId, messages.model))
+      .where(queryConditions)
+      .groupBy(messages.chatbotId, messages.model);
+
+    // Summaries and embeddings are billed too, but are not responses
+    let usageConditions: SQL | undefined = inArray(modelUsage.chatbotId, chatbotIds);
+
+    if (timeFilter?.startDate) {
+      usageConditions = and(usageConditions, gte(modelUsage.createdAt, timeFilter.startDate));
+    }
+
+    if (timeFilter?.endDate) {
+      usageConditions = and(usageConditions, lte(modelUsage.createdAt, timeFilter.endDate));
+    }
+
+    const usageRows = await db
+      .select({
+        chatbotId: modelUsage.chatbotId,
+        model: modelUsage.model,
+        inputTokens: sql<number>`coalesce(sum(${modelUsage.inputTokens}), 0)`,
+        outputTokens: sql<number>`coalesce(sum(${modelUsage.outputTokens}), 0)`,
+        cachedTokens: sql<number>`coalesce(sum(${modelUsage.cachedTokens}), 0)`,
+        costUsd: sql<number>`coalesce(sum(${modelUsageCostSql}), 0)`,
+      })
+      .from(modelUsage)
+      .leftJoin(modelPricing, eq(modelPricing.modelId, modelUsage.model))
+      .where(usageConditions)
+      .groupBy(modelUsage.chatbotId, modelUsage.model);
+
+    return [
+      ...rows.map(row => ({
+        chatbotId: row.chatbotId,
+        model: row.model ?? "unknown",
+        responses: Number(row.responses),
+        inputTokens: Number(row.inputTokens),
+        outputTokens: Number(row.outputTokens),
+        cachedTokens: Number(row.cachedTokens),
+        costUsd: Number(row.costUsd),
+      })),
+      ...usageRows.map(row => ({
+        chatbotId: row.chatbotId!,
+        model: row.model,
+        responses: 0,
+        inputTokens: Number(row.inputTokens),
+        outputTokens: Number(row.outputTokens),
+        cachedTokens: Number(row.cachedTokens),
+        costUsd: Number(row.costUsd),
+      })),
+    ];
+  }
+
+  async getChatbotCost(chatbotId: number, since: Date): Promise<number> {
+    const [messageCost] = await db
+      .select({ costUsd: sql<number>`coalesce(sum(${messageCostSql}), 0)` })
+      .from(messages)
+      .leftJoin(modelPricing, eq(modelPricing.modelId, messages.model))
+      .where(and(eq(messages.chatbotId, chatbotId), gte(messages.timestamp, since)));
+    const [usageCost] = await db
+      .select({ costUsd: sql<number>`coalesce(sum(${modelUsageCostSql}), 0)` })
+      .from(modelUsage)
+      .leftJoin(modelPricing, eq(modelPricing.modelId, modelUsage.model))
+      .where(and(eq(modelUsage.chatbotId, chatbotId), gte(modelUsage.createdAt, since)));
+    return Number(messageCost?.costUsd || 0) + Number(usageCost?.costUsd || 0);
+  }
+
+  async recordModelUsage(usage: InsertModelUsage): Promise<void> {
+    await db.insert(modelUsage).values(usage);
+  }
+
+  async getModelPricing(): Promise<ModelPricing[]> {
+    return await db.select().from(modelPricing).orderBy(modelPricing.modelId);
+  }
+
+  async upsertModelPricing(pricing: InsertModelPricing): Promise<ModelPricing> {
+    const [result] = await db.insert(modelPricing)
+      .values(pricing)
+      .onConflictDoUpdate({
+        target: modelPricing.modelId,
+        set: {
+          inputPerMillion: pricing.inputPerMillion,
+          cachedInputPerMillion: pricing.cachedInputPerMillion,
+          outputPerMillion: pricing.outputPerMillion,
+          updatedAt: new Date(),
+        }
+      })
+      .returning();
+    return result;
+  }
+
+  async getBudgetAlerts(chatbotIds: number[]): Promise<BudgetAlert[]> {
+    if (chatbotIds.length === 0) {
+      return [];
+    }
+    return await db.select().from(budgetAlerts)
+      .where(inArray(budgetAlerts.chatbotId, chatbotIds))
+      .orderBy(desc(budgetAlerts.createdAt));
+  }
+
+  async createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert | undefined> {
+    // One alert per chatbot and period; returns undefined if it was already raised
+    const [created] = await db.insert(budgetAlerts)
+      .values(alert)
+      .onConflictDoNothing({ target: [budgetAlerts.chatbotId, budgetAlerts.period] })
+      .returning();
+    return created;
+  }
+
+  async acknowledgeBudgetAlert(id: number): Promise<BudgetAlert | undefined> {
+    const [alert] = await db.update(budgetAlerts)
+      .set({ acknowledged: true })
+      .where(eq(budgetAlerts.id, id))
+      .returning();
+    return alert;
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -340,6 +684,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChatbot(id: number): Promise<boolean> {
+    await db.delete(chatbotCollections).where(eq(chatbotCollections.chatbotId, id));
+    await db.delete(faqEntries).where(eq(faqEntries.chatbotId, id));
+    await db.delete(conversationFlows).where(eq(conversationFlows.chatbotId, id));
     const deleted = await db.delete(chatbots).where(eq(chatbots.id, id)).returning();
     return deleted.length > 0;
   }
@@ -361,6 +708,7 @@ export class DatabaseStorage implements IStorage {
     if (user?.role === 'admin') {
       // Admins can see all documents from all chatbots
       return await db.select().from(documents)
+        .where(isNotNull(documents.chatbotId))
         .orderBy(desc(documents.createdAt));
     } else {
       // Non-admin users only see documents from their own chatbots
@@ -380,6 +728,70 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(documents).where(eq(documents.chatbotId, chatbotId));
   }
 
+  async getDocumentsByCollectionId(collectionId: number): Promise<Document[]> {
+    return await db.select().from(documents).where(eq(documents.collectionId, collectionId));
+  }
+
+  async getChatbotKnowledgeDocuments(chatbotId: number): Promise<Document[]> {
+    const attached = db.select({ collectionId: chatbotCollections.collectionId })
+      .from(chatbotCollections)
+      .where(eq(chatbotCollections.chatbotId, chatbotId));
+    return await db.select().from(documents)
+      .where(or(eq(documents.chatbotId, chatbotId), inArray(documents.collectionId, attached)));
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByStatus(statuses: DocumentStatus[]): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(inArray(documents.status, statuses))
+      .orderBy(documents.createdAt);
+  }
+
+  // Documents reviewable by the given chatbots and collections that are due by the date, or lack an owner or review date
+  async getDocumentsDueForReview(chatbotIds: number[], collectionIds: number[], dueBy: Date): Promise<Document[]> {
+    if (chatbotIds.length === 0 && collectionIds.length === 0) {
+      return [];
+    }
+
+    const owners = or(
+      chatbotIds.length > 0 ? inArray(documents.chatbotId, chatbotIds) : undefined,
+      collectionIds.length > 0 ? inArray(documents.collectionId, collectionIds) : undefined
+    );
+    return await db.select().from(documents)
+      .where(and(
+        owners,
+        or(isNull(documents.reviewByDate), lte(documents.reviewByDate, dueBy), isNull(documents.reviewOwner))
+      ))
+      .orderBy(documents.reviewByDate);
+  }
+
+  // Ready documents past their review-by date that should leave retrieval but haven't yet
+  async getExpiredSearchableDocuments(now: Date): Promise<Document[]> {
+    return await db.select().from(documents)
+      .where(and(
+        eq(documents.excludeWhenExpired, true),
+        lte(documents.reviewByDate, now),
+        isNull(documents.excludedAt),
+        eq(documents.status, "ready")
+      ));
+  }
+
+  async getDocumentsByUrlSource(urlSourceId: number): Promise<Document[]> {
+    return await db.select().from(documents).where(eq(documents.urlSourceId, urlSourceId));
+  }
+
+  async getOrphanedDocuments(): Promise<Document[]> {
+    const rows = await db.select({ document: documents }).from(documents)
+      .leftJoin(chatbots, eq(documents.chatbotId, chatbots.id))
+      .leftJoin(knowledgeCollections, eq(documents.collectionId, knowledgeCollections.id))
+      .where(and(isNull(chatbots.id), isNull(knowledgeCollections.id)));
+    return rows.map(row => row.document);
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const [document] = await db.insert(documents).values({
       ...insertDocument,
@@ -388,11 +800,81 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
+  async updateDocument(id: number, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    const [document] = await db.update(documents)
+      .set(updates)
+      .where(eq(documents.id, id))
+      .returning();
+    return document;
+  }
+
   async deleteDocument(id: number): Promise<boolean> {
+    await db.delete(documentChunks).where(eq(documentChunks.documentId, id));
+    await db.delete(documentVersions).where(eq(documentVersions.documentId, id));
     const deleted = await db.delete(documents).where(eq(documents.id, id)).returning();
     return deleted.length > 0;
   }
 
+  // Document version operations
+  async getDocumentVersions(documentId: number): Promise<DocumentVersion[]> {
+    return await db.select().from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.version));
+  }
+
+  async getDocumentVersion(documentId: number, version: number): Promise<DocumentVersion | undefined> {
+    const [documentVersion] = await db.select().from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+    return documentVersion;
+  }
+
+  // Archives the current version and applies the updates as the next version, in one transaction
+  async replaceDocumentVersion(documentId: number, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(documents).where(eq(documents.id, documentId)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      await tx.insert(documentVersions).values({
+        documentId,
+        version: current.version,
+        name: current.name,
+        type: current.type,
+        content: current.content,
+        size: current.size,
+        sections: current.sections,
+        checksum: current.checksum,
+        uploadedBy: current.uploadedBy,
+        uploadedAt: current.uploadedAt ?? current.createdAt,
+      });
+
+      const [document] = await tx.update(documents)
+        .set({ ...updates, version: current.version + 1 })
+        .where(eq(documents.id, documentId))
+        .returning();
+      return document;
+    });
+  }
+
+  // Document chunk operations
+  async getDocumentChunks(owner: KnowledgeOwner): Promise<DocumentChunk[]> {
+    return await db.select().from(documentChunks)
+      .where(owner.collectionId
+        ? eq(documentChunks.collectionId, owner.collectionId)
+        : eq(documentChunks.chatbotId, owner.chatbotId!))
+      .orderBy(documentChunks.documentId, documentChunks.chunkIndex);
+  }
+
+  async replaceDocumentChunks(documentId: number, chunks: InsertDocumentChunk[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+      if (chunks.length > 0) {
+        await tx.insert(documentChunks).values(chunks);
+      }
+    });
+  }
+
   // Message operations
   async getMessagesBySession(chatbotId: number, sessionId: string): Promise<Message[]> {
     return await db.select().from(messages)
@@ -411,7 +893,7 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
-  async updateMessage(id: number, updates: { content: string }): Promise<Message | undefined> {
+  async updateMessage(id: number, updates: MessageUpdate): Promise<Message | undefined> {
     const [message] = await db.update(messages)
       .set(updates)
       .where(eq(messages.id, id))
@@ -469,6 +951,211 @@ export class DatabaseStorage implements IStorage {
     return { logs, totalCount };
   }
 
+  async getChatSession(chatbotId: number, sessionId: string): Promise<ChatSession | undefined> {
+    const [session] = await db.select().from(chatSessions)
+      .where(and(
+        eq(chatSessions.chatbotId, chatbotId),
+        eq(chatSessions.sessionId, sessionId)
+      ));
+    return session;
+  }
+
+  async saveChatSession(insertSession: InsertChatSession): Promise<ChatSession> {
+    const existing = await this.getChatSession(insertSession.chatbotId, insertSession.sessionId);
+
+    if (existing) {
+      const [updated] = await db.update(chatSessions)
+        .set({ ...insertSession, updatedAt: new Date() })
+        .where(eq(chatSessions.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [session] = await db.insert(chatSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getHandoffSessions(chatbotIds: number[], limit: number): Promise<ChatSession[]> {
+    if (chatbotIds.length === 0) return [];
+    return await db.select().from(chatSessions)
+      .where(and(inArray(chatSessions.chatbotId, chatbotIds), isNotNull(chatSessions.handoffAt)))
+      .orderBy(desc(chatSessions.handoffAt))
+      .limit(limit);
+  }
+
+  async getCallbackRequests(chatbotId: number): Promise<CallbackRequest[]> {
+    return await db.select().from(callbackRequests)
+      .where(eq(callbackRequests.chatbotId, chatbotId))
+      .orderBy(desc(callbackRequests.createdAt));
+  }
+
+  async createCallbackRequest(insertRequest: InsertCallbackRequest): Promise<CallbackRequest> {
+    const [request] = await db.insert(callbackRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async getUrlSources(chatbotId: number): Promise<UrlSource[]> {
+    return await db.select().from(urlSources)
+      .where(eq(urlSources.chatbotId, chatbotId))
+      .orderBy(urlSources.createdAt);
+  }
+
+  async getScheduledUrlSources(): Promise<UrlSource[]> {
+    return await db.select().from(urlSources).where(isNotNull(urlSources.recrawlIntervalHours));
+  }
+
+  async getUrlSource(id: number): Promise<UrlSource | undefined> {
+    const [source] = await db.select().from(urlSources).where(eq(urlSources.id, id));
+    return source;
+  }
+
+  async createUrlSource(insertSource: InsertUrlSource): Promise<UrlSource> {
+    const [source] = await db.insert(urlSources).values(insertSource).returning();
+    return source;
+  }
+
+  async updateUrlSource(id: number, updates: UrlSourceUpdate): Promise<UrlSource | undefined> {
+    const [source] = await db.update(urlSources)
+      .set(updates)
+      .where(eq(urlSources.id, id))
+      .returning();
+    return source;
+  }
+
+  async deleteUrlSource(id: number): Promise<boolean> {
+    const deleted = await db.delete(urlSources).where(eq(urlSources.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getKnowledgeCollections(userId: number): Promise<KnowledgeCollection[]> {
+    return await db.select().from(knowledgeCollections)
+      .where(eq(knowledgeCollections.userId, userId))
+      .orderBy(knowledgeCollections.name);
+  }
+
+  async getAllKnowledgeCollections(): Promise<KnowledgeCollection[]> {
+    return await db.select().from(knowledgeCollections).orderBy(knowledgeCollections.name);
+  }
+
+  async getKnowledgeCollection(id: number): Promise<KnowledgeCollection | undefined> {
+    const [collection] = await db.select().from(knowledgeCollections).where(eq(knowledgeCollections.id, id));
+    return collection;
+  }
+
+  async createKnowledgeCollection(insertCollection: InsertKnowledgeCollection): Promise<KnowledgeCollection> {
+    const [collection] = await db.insert(knowledgeCollections).values(insertCollection).returning();
+    return collection;
+  }
+
+  async updateKnowledgeCollection(id: number, updates: KnowledgeCollectionUpdate): Promise<KnowledgeCollection | undefined> {
+    const [collection] = await db.update(knowledgeCollections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(knowledgeCollections.id, id))
+      .returning();
+    return collection;
+  }
+
+  async deleteKnowledgeCollection(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(chatbotCollections).where(eq(chatbotCollections.collectionId, id));
+      const deleted = await tx.delete(knowledgeCollections).where(eq(knowledgeCollections.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  async getChatbotCollections(chatbotId: number): Promise<KnowledgeCollection[]> {
+    const rows = await db.select({ collection: knowledgeCollections }).from(chatbotCollections)
+      .innerJoin(knowledgeCollections, eq(chatbotCollections.collectionId, knowledgeCollections.id))
+      .where(eq(chatbotCollections.chatbotId, chatbotId))
+      .orderBy(knowledgeCollections.name);
+    return rows.map(row => row.collection);
+  }
+
+  async getCollectionChatbotIds(collectionId: number): Promise<number[]> {
+    const rows = await db.select({ chatbotId: chatbotCollections.chatbotId }).from(chatbotCollections)
+      .where(eq(chatbotCollections.collectionId, collectionId));
+    return rows.map(row => row.chatbotId);
+  }
+
+  async attachCollection(chatbotId: number, collectionId: number): Promise<void> {
+    await db.insert(chatbotCollections).values({ chatbotId, collectionId }).onConflictDoNothing();
+  }
+
+  async detachCollection(chatbotId: number, collectionId: number): Promise<boolean> {
+    const deleted = await db.delete(chatbotCollections)
+      .where(and(eq(chatbotCollections.chatbotId, chatbotId), eq(chatbotCollections.collectionId, collectionId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getFaqEntries(chatbotId: number): Promise<FaqEntry[]> {
+    return await db.select().from(faqEntries)
+      .where(eq(faqEntries.chatbotId, chatbotId))
+      .orderBy(faqEntries.createdAt);
+  }
+
+  async getFaqEntry(id: number): Promise<FaqEntry | undefined> {
+    const [entry] = await db.select().from(faqEntries).where(eq(faqEntries.id, id));
+    return entry;
+  }
+
+  async createFaqEntry(insertEntry: InsertFaqEntry): Promise<FaqEntry> {
+    const [entry] = await db.insert(faqEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async updateFaqEntry(id: number, updates: Partial<InsertFaqEntry>): Promise<FaqEntry | undefined> {
+    const [entry] = await db.update(faqEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(faqEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteFaqEntry(id: number): Promise<boolean> {
+    const deleted = await db.delete(faqEntries).where(eq(faqEntries.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getFaqHitCounts(chatbotId: number): Promise<FaqHitCount[]> {
+    const rows = await db.select({
+      faqEntryId: messages.faqEntryId,
+      hitCount: count(),
+      lastHitAt: sql<Date>`max(${messages.timestamp})`.mapWith(value => new Date(value)),
+    })
+      .from(messages)
+      .where(and(eq(messages.chatbotId, chatbotId), isNotNull(messages.faqEntryId)))
+      .groupBy(messages.faqEntryId);
+    return rows.map(row => ({ ...row, faqEntryId: row.faqEntryId! }));
+  }
+
+  // The latest version unless one is given
+  async getConversationFlow(chatbotId: number, version?: number): Promise<ConversationFlow | undefined> {
+    const [flow] = await db.select().from(conversationFlows)
+      .where(version === undefined
+        ? eq(conversationFlows.chatbotId, chatbotId)
+        : and(eq(conversationFlows.chatbotId, chatbotId), eq(conversationFlows.version, version)))
+      .orderBy(desc(conversationFlows.version))
+      .limit(1);
+    return flow;
+  }
+
+  async getConversationFlowVersions(chatbotId: number): Promise<ConversationFlow[]> {
+    return await db.select().from(conversationFlows)
+      .where(eq(conversationFlows.chatbotId, chatbotId))
+      .orderBy(desc(conversationFlows.version));
+  }
+
+  async createConversationFlowVersion(chatbotId: number, definition: ConversationFlowDefinition, createdBy: number | null): Promise<ConversationFlow> {
+    const [{ latest }] = await db.select({ latest: sql<number>`coalesce(max(${conversationFlows.version}), 0)`.mapWith(Number) })
+      .from(conversationFlows)
+      .where(eq(conversationFlows.chatbotId, chatbotId));
+    const [flow] = await db.insert(conversationFlows)
+      .values({ chatbotId, version: latest + 1, definition, createdBy })
+      .returning();
+    return flow;
+  }
+
   async getCommonMessages(userId: number, kind?: "welcome" | "faq"): Promise<CommonMessage[]> {
     let query = db.select().from(commonMessages).where(eq(commonMessages.userId, userId));
     
@@ -507,6 +1194,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getOpenaiModel(id: string): Promise<OpenaiModel | undefined> {
+    try {
+      const [model] = await db.select().from(openaiModels).where(eq(openaiModels.id, id));
+      return model;
+    } catch (error) {
+      console.error("Error fetching OpenAI model:", error);
+      return undefined;
+    }
+  }
+
   async upsertOpenaiModel(model: InsertOpenaiModel): Promise<OpenaiModel> {
     const [result] = await db.insert(openaiModels)
       .values(model)
@@ -517,6 +1214,7 @@ export class DatabaseStorage implements IStorage {
           ownedBy: model.ownedBy,
           object: model.object,
           isChat: model.isChat,
+          contextWindow: model.contextWindow,
           updatedAt: model.updatedAt,
         }
       })
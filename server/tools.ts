@@ -0,0 +1,285 @@
+import type { Chatbot, ChatbotTool, ClinicLocation, MessagePayload } from "@shared/schema";
+import type { LLMFunctionTool } from "./llm";
+import { storage } from "./storage";
+import { parsePayload } from "./message-payload";
+
+export type ToolContext = {
+  chatbot: Chatbot;
+  sessionId: string;
+  // Per-chatbot settings for this tool
+  config: ChatbotTool["config"];
+};
+
+export type ToolDefinition = {
+  name: string;
+  // Status shown in the chat while the tool runs
+  label: string;
+  description: string;
+  // JSON schema of the arguments the model must provide
+  parameters: Record<string, unknown>;
+  handler: (args: any, context: ToolContext) => Promise<unknown>;
+};
+
+export type ToolResult = {
+  ok: boolean;
+  // JSON sent back to the model
+  output: string;
+};
+
+// Function tools offered to a chatbot's model for one conversation turn
+export type ToolSet = {
+  definitions: LLMFunctionTool[];
+  execute: (name: string, rawArguments: string) => Promise<ToolResult>;
+};
+
+const registry = new Map<string, ToolDefinition>();
+
+// Rich content tool; the route attaches its validated arguments to the answer
+export const REPLY_OPTIONS_TOOL = "show_reply_options";
+
+export function registerTool(tool: ToolDefinition) {
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Builds the tool set for a chatbot from its enabled tools, or undefined when it has none
+ * @param chatbot Chatbot answering the conversation
+ * @param sessionId Conversation session ID, passed to tool handlers
+ */
+export function buildToolSet(chatbot: Chatbot, sessionId: string): ToolSet | undefined {
+  const enabled = ((chatbot.tools as ChatbotTool[]) || []).filter(tool => registry.has(tool.name));
+  if (enabled.length === 0) {
+    return undefined;
+  }
+
+  return {
+    definitions: enabled.map(({ name }) => {
+      const tool = registry.get(name)!;
+      return {
+        type: "function",
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      };
+    }),
+    execute: async (name, rawArguments) => {
+      const tool = registry.get(name);
+      const settings = enabled.find(t => t.name === name);
+      if (!tool || !settings) {
+        return { ok: false, output: JSON.stringify({ error: `Unknown tool "${name}"` }) };
+      }
+
+      try {
+        const args = rawArguments ? JSON.parse(rawArguments) : {};
+        const result = await tool.handler(args, { chatbot, sessionId, config: settings.config || {} });
+        return { ok: true, output: JSON.stringify(result) };
+      } catch (error: any) {
+        console.error(`Error running tool ${name}:`, error);
+        return { ok: false, output: JSON.stringify({ error: error?.message || "Tool failed" }) };
+      }
+    },
+  };
+}
+
+/**
+ * Quick replies, buttons and cards the model asked to show through the reply options
+ * tool, or null for other tools
+ */
+export function toolResultPayload(name: string, result: ToolResult): MessagePayload | null {
+  if (name !== REPLY_OPTIONS_TOOL || !result.ok) {
+    return null;
+  }
+  return parsePayload(JSON.parse(result.output).shown);
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Parses "Monday: 8:00 AM - 5:00 PM" lines; lines without a day are kept as notes
+function parseClinicHours(hours: string) {
+  const days: { day: string; hours: string }[] = [];
+  const notes: string[] = [];
+
+  for (const line of hours.split("\n").map(l => l.trim()).filter(Boolean)) {
+    const match = line.match(/^([A-Za-z]{3,})\s*:\s*(.+)$/);
+    const day = match && WEEKDAYS.find(d => d.toLowerCase().startsWith(match[1].toLowerCase()));
+    if (match && day) {
+      days.push({ day, hours: match[2] });
+    } else {
+      notes.push(line);
+    }
+  }
+
+  return { days, notes };
+}
+
+registerTool({
+  name: "clinic_hours",
+  label: "Checking clinic hours…",
+  description: "Look up the clinic's opening hours, optionally for a single day of the week.",
+  parameters: {
+    type: "object",
+    properties: {
+      day: {
+        type: "string",
+        description: "Day of the week to look up, e.g. \"Monday\". Omit for the whole week.",
+      },
+    },
+    required: [],
+  },
+  handler: async (args: { day?: string }, { config }) => {
+    if (!config.hours?.trim()) {
+      return { error: "Clinic hours have not been configured" };
+    }
+
+    const { days, notes } = parseClinicHours(config.hours);
+    const requested = args.day?.toLowerCase().slice(0, 3);
+
+    return {
+      today: WEEKDAYS[new Date().getDay()],
+      hours: requested ? days.filter(d => d.day.toLowerCase().startsWith(requested)) : days,
+      notes,
+    };
+  },
+});
+
+// Orders postal codes by closeness: exact match, then longest shared prefix,
+// then numeric distance for numeric (e.g. US ZIP) codes
+function postalCodeDistance(a: string, b: string): number {
+  const x = a.replace(/\s+/g, "").toUpperCase();
+  const y = b.replace(/\s+/g, "").toUpperCase();
+  if (x === y) return 0;
+
+  let shared = 0;
+  while (shared < Math.min(x.length, y.length) && x[shared] === y[shared]) shared++;
+
+  const numeric = /^\d+$/.test(x) && /^\d+$/.test(y)
+    ? Math.min(Math.abs(Number(x) - Number(y)), 99999) / 100000
+    : 0.5;
+  return (10 - Math.min(shared, 9)) + numeric;
+}
+
+registerTool({
+  name: "find_nearest_location",
+  label: "Finding the nearest location…",
+  description: "Find the clinic locations closest to the patient's postal code.",
+  parameters: {
+    type: "object",
+    properties: {
+      postalCode: {
+        type: "string",
+        description: "The patient's postal or ZIP code",
+      },
+    },
+    required: ["postalCode"],
+  },
+  handler: async (args: { postalCode: string }, { config }) => {
+    const locations: ClinicLocation[] = config.locations || [];
+    if (locations.length === 0) {
+      return { error: "No locations have been configured" };
+    }
+    if (!args.postalCode?.trim()) {
+      return { error: "A postal code is required" };
+    }
+
+    const nearest = [...locations]
+      .sort((a, b) => postalCodeDistance(args.postalCode, a.postalCode) - postalCodeDistance(args.postalCode, b.postalCode))
+      .slice(0, 3);
+
+    return { locations: nearest };
+  },
+});
+
+registerTool({
+  name: "request_callback",
+  label: "Requesting a callback…",
+  description: "Ask the care team to call the patient back. Confirm the patient's name and phone number before calling this.",
+  parameters: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Patient's name" },
+      phone: { type: "string", description: "Phone number to call back" },
+      preferredTime: { type: "string", description: "When the patient would like to be called" },
+      reason: { type: "string", description: "Short reason for the callback" },
+    },
+    required: ["name", "phone"],
+  },
+  handler: async (args: { name: string; phone: string; preferredTime?: string; reason?: string }, { chatbot, sessionId }) => {
+    if (!args.name?.trim()) {
+      return { error: "The patient's name is required" };
+    }
+    if ((args.phone || "").replace(/\D/g, "").length < 7) {
+      return { error: "A valid phone number is required" };
+    }
+
+    const request = await storage.createCallbackRequest({
+      chatbotId: chatbot.id,
+      sessionId,
+      name: args.name.trim(),
+      phone: args.phone.trim(),
+      preferredTime: args.preferredTime || null,
+      reason: args.reason || null,
+    });
+
+    return { confirmed: true, requestId: request.id };
+  },
+});
+
+registerTool({
+  name: REPLY_OPTIONS_TOOL,
+  label: "Adding options…",
+  description: "Show tappable quick replies, link or call buttons, or info cards below your answer. " +
+    "Only use links and phone numbers given in your instructions or the knowledge base. " +
+    "Call this at most once per answer, then write the answer as usual.",
+  parameters: {
+    type: "object",
+    properties: {
+      quickReplies: {
+        type: "array",
+        items: { type: "string" },
+        description: "Short replies the patient can tap instead of typing, e.g. \"Yes\" or \"Book an appointment\". At most 5.",
+      },
+      buttons: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["link", "call"] },
+            label: { type: "string" },
+            url: { type: "string", description: "Page opened by a link button" },
+            phone: { type: "string", description: "Number dialled by a call button" },
+          },
+          required: ["type", "label"],
+        },
+      },
+      cards: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            description: { type: "string" },
+            imageUrl: { type: "string" },
+            url: { type: "string", description: "Page linked from the card" },
+          },
+          required: ["title"],
+        },
+      },
+    },
+    required: [],
+  },
+  handler: async (args: unknown) => {
+    const payload = parsePayload(args);
+    if (!payload) {
+      return { error: "Nothing valid to show; check the URLs and phone numbers" };
+    }
+    return { shown: payload };
+  },
+});
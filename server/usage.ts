@@ -0,0 +1,170 @@
+import type { Chatbot, Message, UsagePurpose } from "@shared/schema";
+import type { LLMUsage } from "./llm";
+import type { EmbeddingUsageHandler } from "./retrieval/embeddings";
+import { storage } from "./storage";
+
+/**
+ * First instant of the current calendar month (server time), when budgets reset
+ */
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Budget period key for a date, e.g. "2025-06"
+ */
+export function budgetPeriod(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Message columns recording the model and token usage of an answer
+ * @param model Model that produced the answer
+ * @param usage Token usage reported by the provider, if any
+ */
+export function usageFields(
+  model: string,
+  usage?: LLMUsage
+): Pick<Message, "model" | "inputTokens" | "outputTokens" | "cachedTokens"> {
+  return {
+    model,
+    inputTokens: usage?.inputTokens ?? null,
+    outputTokens: usage?.outputTokens ?? null,
+    cachedTokens: usage?.cachedTokens ?? null,
+  };
+}
+
+/**
+ * Records the token usage of a model call made for a chatbot outside its chat answers,
+ * so it counts toward the chatbot's costs and monthly budget
+ * @param chatbotId Chatbot billed for the call; null for shared collections
+ * @param purpose What the call was for
+ * @param model Model that was called
+ * @param usage Token usage reported by the provider; nothing is recorded without it
+ */
+export async function recordModelUsage(
+  chatbotId: number | null,
+  purpose: UsagePurpose,
+  model: string,
+  usage?: LLMUsage
+): Promise<void> {
+  if (!usage) return;
+
+  try {
+    await storage.recordModelUsage({ chatbotId, purpose, model, ...usage });
+  } catch (error) {
+    // Never fail the call that was already made because its usage could not be saved
+    console.error("Error recording model usage:", error);
+  }
+}
+
+/**
+ * Embedding usage handler that records each batch against a chatbot
+ */
+export function embeddingUsageRecorder(chatbotId: number | null): EmbeddingUsageHandler {
+  return (model, usage) => {
+    void recordModelUsage(chatbotId, "embedding", model, usage);
+  };
+}
+
+/**
+ * Checks a chatbot's month-to-date spend against its monthly budget.
+ * The first time the budget is exceeded in a month an alert is raised for admins.
+ * @returns True when the chatbot is over budget and should answer with its fallback response
+ */
+export async function isOverBudget(chatbot: Chatbot): Promise<boolean> {
+  if (chatbot.monthlyBudgetUsd == null) {
+    return false;
+  }
+
+  try {
+    const spentUsd = await storage.getChatbotCost(chatbot.id, startOfMonth());
+    if (spentUsd < chatbot.monthlyBudgetUsd) {
+      return false;
+    }
+
+    const alert = await storage.createBudgetAlert({
+      chatbotId: chatbot.id,
+      period: budgetPeriod(),
+      spentUsd,
+      budgetUsd: chatbot.monthlyBudgetUsd,
+    });
+    if (alert) {
+      console.warn(
+        `Chatbot ${chatbot.id} (${chatbot.name}) exceeded its monthly budget: ` +
+        `$${spentUsd.toFixed(2)} of $${chatbot.monthlyBudgetUsd.toFixed(2)}`
+      );
+    }
+
+    return true;
+  } catch (error) {
+    // Never block answers because usage could not be read
+    console.error("Error checking chatbot budget:", error);
+    return false;
+  }
+}
+
+export type CostStats = {
+  totalCostUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  chatbotBreakdown: {
+    chatbotId: number;
+    chatbotName: string;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    monthToDateUsd: number;
+    monthlyBudgetUsd: number | null;
+  }[];
+  modelBreakdown: {
+    model: string;
+    responses: number;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+};
+
+/**
+ * Builds the cost section of the analytics response
+ * @param chatbots Chatbots to report on
+ * @param timeFilter Optional { startDate, endDate } range for the totals
+ */
+export async function buildCostStats(chatbots: Chatbot[], timeFilter?: any): Promise<CostStats> {
+  const rows = await storage.getUsageSummary(chatbots.map(c => c.id), timeFilter);
+  const monthStart = startOfMonth();
+
+  const chatbotBreakdown = await Promise.all(chatbots.map(async (chatbot) => {
+    const chatbotRows = rows.filter(row => row.chatbotId === chatbot.id);
+    return {
+      chatbotId: chatbot.id,
+      chatbotName: chatbot.name,
+      costUsd: chatbotRows.reduce((sum, row) => sum + row.costUsd, 0),
+      inputTokens: chatbotRows.reduce((sum, row) => sum + row.inputTokens, 0),
+      outputTokens: chatbotRows.reduce((sum, row) => sum + row.outputTokens, 0),
+      monthToDateUsd: await storage.getChatbotCost(chatbot.id, monthStart),
+      monthlyBudgetUsd: chatbot.monthlyBudgetUsd,
+    };
+  }));
+
+  const models = new Map<string, CostStats["modelBreakdown"][number]>();
+  for (const row of rows) {
+    const entry = models.get(row.model) ?? { model: row.model, responses: 0, costUsd: 0, inputTokens: 0, outputTokens: 0 };
+    entry.responses += row.responses;
+    entry.costUsd += row.costUsd;
+    entry.inputTokens += row.inputTokens;
+    entry.outputTokens += row.outputTokens;
+    models.set(row.model, entry);
+  }
+
+  return {
+    totalCostUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+    inputTokens: rows.reduce((sum, row) => sum + row.inputTokens, 0),
+    outputTokens: rows.reduce((sum, row) => sum + row.outputTokens, 0),
+    cachedTokens: rows.reduce((sum, row) => sum + row.cachedTokens, 0),
+    chatbotBreakdown,
+    modelBreakdown: Array.from(models.values()).sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, varchar, index, doublePrecision, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -26,6 +26,209 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+export const clinicLocationSchema = z.object({
+  name: z.string(),
+  address: z.string(),
+  postalCode: z.string(),
+  phone: z.string().optional(),
+});
+
+// A function tool enabled on a chatbot, keyed by its registered name
+export const chatbotToolSchema = z.object({
+  name: z.string(),
+  config: z.object({
+    hours: z.string().optional(), // clinic_hours: one "Day: hours" line per day
+    locations: z.array(clinicLocationSchema).optional(), // find_nearest_location
+  }).default({}),
+});
+
+const httpUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), "URL must start with http:// or https://");
+
+// Link shown below an FAQ answer
+export const faqLinkSchema = z.object({
+  label: z.string().trim(),
+  url: httpUrlSchema,
+});
+
+const phoneSchema = z.string().trim().regex(/^\+?[\d\s().-]{3,20}$/, "Invalid phone number");
+
+// Rich content sent with a bot message and shown below its text. Quick replies are
+// sent back as the patient's next message when tapped.
+export const messageButtonSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("link"), label: z.string().trim().min(1, "Button label is required"), url: httpUrlSchema }),
+  z.object({
+    type: z.literal("call"),
+    label: z.string().trim().min(1, "Button label is required"),
+    phone: phoneSchema,
+  }),
+]);
+
+export const messageCardSchema = z.object({
+  title: z.string().trim().min(1, "Card title is required"),
+  description: z.string().default(""),
+  imageUrl: httpUrlSchema.optional(),
+  url: httpUrlSchema.optional(), // linked from the card
+});
+
+// Most of each kind of content one message can carry
+export const MAX_QUICK_REPLIES = 10;
+export const MAX_MESSAGE_BUTTONS = 6;
+export const MAX_MESSAGE_CARDS = 5;
+
+export const messagePayloadSchema = z.object({
+  quickReplies: z.array(z.string().trim().min(1).max(80)).max(MAX_QUICK_REPLIES).default([]),
+  buttons: z.array(messageButtonSchema).max(MAX_MESSAGE_BUTTONS).default([]),
+  cards: z.array(messageCardSchema).max(MAX_MESSAGE_CARDS).default([]),
+});
+
+// How a behavior rule's condition is read:
+// - keywords_any / keywords_all: words or phrases, one per line or comma-separated, matched as whole words
+// - contains: the condition as written, anywhere in the message, even inside a word
+// - exact: the whole message, one accepted wording per line
+// - regex: a case-insensitive regular expression
+// - intent: example phrasings, one per line, compared by embedding similarity
+export const ruleMatchTypes = ["keywords_any", "keywords_all", "contains", "exact", "regex", "intent"] as const;
+
+const MAX_RULE_PATTERN_LENGTH = 200;
+
+/**
+ * Why a rule's regular expression could take exponential time on a long message, or
+ * null when it looks safe. Repeated groups that themselves contain a repeat or an
+ * alternation ("(a+)+", "(a|ab)*") and backreferences are refused.
+ */
+export function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Regular expressions are limited to ${MAX_RULE_PATTERN_LENGTH} characters`;
+  }
+  const groups: { repeats: boolean; alternates: boolean }[] = [];
+  const isRepeat = (char: string | undefined) => char === "*" || char === "+" || char === "{";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return "Backreferences aren't supported";
+      i++;
+    } else if (char === "[") {
+      // Skip the character class; its contents can't repeat on their own
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === ")") {
+      const group = groups.pop();
+      if (!group) continue;
+      const repeated = isRepeat(pattern[i + 1]);
+      if (repeated && (group.repeats || group.alternates)) {
+        return "A repeated group can't contain another repeat or alternatives, e.g. (a+)+ or (a|b)*";
+      }
+      const parent = groups[groups.length - 1];
+      if (parent) parent.repeats = parent.repeats || group.repeats || repeated;
+    } else if (char === "|") {
+      const group = groups[groups.length - 1];
+      if (group) group.alternates = true;
+    } else if (isRepeat(char) || char === "?") {
+      const group = groups[groups.length - 1];
+      if (group) group.repeats = true;
+    }
+  }
+  return null;
+}
+
+export const ruleActionSchema = z.discriminatedUnion("type", [
+  // Flags the conversation for the care team
+  z.object({ type: z.literal("handoff"), reason: z.string().optional() }),
+  // Link buttons shown below the response
+  z.object({ type: z.literal("links"), links: z.array(faqLinkSchema).min(1) }),
+  // Button that phones a number, e.g. the clinic's nurse line
+  z.object({ type: z.literal("call"), label: z.string().trim().min(1, "Button label is required"), phone: phoneSchema }),
+  // Replies the patient can tap instead of typing
+  z.object({ type: z.literal("quick_replies"), replies: z.array(z.string().trim().min(1).max(80)).min(1).max(MAX_QUICK_REPLIES) }),
+  // Info card, e.g. a procedure leaflet with a picture
+  z.object({ type: z.literal("card"), card: messageCardSchema }),
+  // POSTs the matched message to an external URL
+  z.object({ type: z.literal("webhook"), url: z.string().url() }),
+  // Closes the conversation; the patient's next message starts a new one
+  z.object({ type: z.literal("end_session") }),
+]);
+
+// Session state a rule additionally requires, all optional
+export const ruleSessionConditionSchema = z.object({
+  minUserMessages: z.number().int().min(0).optional(), // patient messages sent before this one
+  maxUserMessages: z.number().int().min(0).optional(),
+  handedOff: z.boolean().optional(), // whether the conversation was already handed off
+});
+
+// Rules saved before match types existed ({ condition, response }) parse as "contains"
+// rules that still fire on negated mentions, so they match exactly the messages they did
+export const behaviorRuleSchema = z.preprocess(rule => (
+  rule && typeof rule === "object" && !("matchType" in rule)
+    ? { matchType: "contains", ignoreNegated: false, ...rule }
+    : rule
+), z.object({
+  name: z.string().default(""),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().default(0), // higher runs first; ties keep list order
+  matchType: z.enum(ruleMatchTypes).default("keywords_any"),
+  condition: z.string(),
+  // The rule doesn't fire when any of these words appear
+  excludeKeywords: z.array(z.string()).default([]),
+  // Skips keyword and regex matches directly preceded by a negation, e.g. "no pain"
+  ignoreNegated: z.boolean().default(true),
+  intentThreshold: z.number().min(0).max(1).default(0.6),
+  session: ruleSessionConditionSchema.default({}),
+  response: z.string(),
+  actions: z.array(ruleActionSchema).default([]),
+}).superRefine((rule, ctx) => {
+  if (rule.matchType !== "regex") return;
+  try {
+    new RegExp(rule.condition, "i");
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["condition"], message: "Invalid regular expression" });
+    return;
+  }
+  const unsafe = unsafeRegexReason(rule.condition);
+  if (unsafe) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["condition"], message: unsafe });
+  }
+}));
+
+// Sample messages run against a set of rules, e.g. the unsaved rules in the chatbot form
+export const behaviorRuleTestSchema = z.object({
+  rules: z.array(behaviorRuleSchema).max(100),
+  messages: z.array(z.string().trim().min(1).max(500)).max(20),
+});
+
+// A rule that matched a sample message; session conditions aren't checked in tests
+export type RuleTestMatch = {
+  ruleIndex: number;
+  name: string;
+  priority: number;
+  matchType: RuleMatchType;
+  spans: { start: number; end: number; text: string }[];
+  score: number;
+  hasSessionCondition: boolean;
+};
+
+export type RuleTestResult = {
+  message: string;
+  // In firing order: the first one answers
+  matches: RuleTestMatch[];
+};
+
+// Problem found by the static check of a chatbot's rules
+export type BehaviorRuleWarning = {
+  kind: "shadowed" | "overlap" | "common_words" | "broad_pattern";
+  ruleIndex: number;
+  // The rule it conflicts with, for shadowed and overlap warnings
+  otherRuleIndex?: number;
+  message: string;
+};
+
+export type BehaviorRuleTestResponse = {
+  results: RuleTestResult[];
+  warnings: BehaviorRuleWarning[];
+};
+
 export const chatbots = pgTable("chatbots", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -36,8 +239,14 @@ export const chatbots = pgTable("chatbots", {
   model: text("model").notNull(),
   temperature: integer("temperature").notNull().default(70),
   maxTokens: integer("max_tokens").notNull().default(500),
+  contextTokenBudget: integer("context_token_budget").notNull().default(4000), // conversation history sent per request
+  keywordWeight: integer("keyword_weight").notNull().default(50), // 0-100 share of keyword (BM25) vs semantic ranking in document retrieval
   ragEnabled: boolean("rag_enabled").notNull().default(true),
   behaviorRules: jsonb("behavior_rules").notNull().default([]),
+  tools: jsonb("tools").notNull().default([]), // enabled function tools and their settings
+  monthlyBudgetUsd: doublePrecision("monthly_budget_usd"), // optional spend cap; answers fall back once exceeded
+  knowledgeFileLimit: integer("knowledge_file_limit").notNull().default(500), // admin-set; uploads past it are refused
+  knowledgeStorageLimitMb: integer("knowledge_storage_limit_mb").notNull().default(100), // admin-set; uploads past it are refused
   fallbackResponse: text("fallback_response"),
   welcomeMessage: text("welcome_message").default("Hello! How can I assist you today?"),
   welcomeMessages: jsonb("welcome_messages").default(["Hello! How can I assist you today?"]),
@@ -48,52 +257,582 @@ export const chatbots = pgTable("chatbots", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertChatbotSchema = createInsertSchema(chatbots).omit({
+export const insertChatbotSchema = createInsertSchema(chatbots, {
+  behaviorRules: z.array(behaviorRuleSchema).optional(),
+  tools: z.array(chatbotToolSchema).optional(),
+  knowledgeFileLimit: z.number().int().min(1).optional(),
+  knowledgeStorageLimitMb: z.number().int().min(1).optional(),
+}).omit({
   id: true,
   views: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Page or section boundary in extracted document text, as character offsets into `content`
+export const documentSectionSchema = z.object({
+  label: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+
+// Ingestion steps of an uploaded document; "failed" documents can be retried
+export const documentStatuses = ["queued", "extracting", "uploading", "indexing", "ready", "failed"] as const;
+export type DocumentStatus = typeof documentStatuses[number];
+
+// Outcome of one file in a bulk import
+export type BulkImportResult = {
+  // File name, or path within the archive for files from a ZIP
+  name: string;
+  // ZIP archive the file came from
+  archive?: string;
+  status: "queued" | "duplicate" | "rejected";
+  documentId?: number;
+  // Why the file was rejected, or which document it duplicates
+  message?: string;
+};
+
+// Where a document lives: a chatbot's own knowledge base or a shared collection (exactly one is set)
+export type KnowledgeOwner = { chatbotId: number | null; collectionId: number | null };
+
+// Every document belongs to either one chatbot or one shared knowledge collection
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
-  chatbotId: integer("chatbot_id").notNull(),
+  chatbotId: integer("chatbot_id"),
+  collectionId: integer("collection_id"),
   name: text("name").notNull(),
-  type: text("type").notNull(), // pdf, docx, txt
+  type: text("type").notNull(), // pdf, docx, txt, rtf, or url for crawled web pages
   content: text("content").notNull(),
   size: integer("size").notNull(), // in bytes
   openaiFileId: text("openai_file_id"),
+  sections: jsonb("sections").$type<DocumentSection[]>().default([]),
+  status: text("status").$type<DocumentStatus>().notNull().default("ready"),
+  error: text("error"), // why the last ingestion step failed
+  filePath: text("file_path"), // uploaded file, kept until ingestion finishes so failed steps can be retried
+  checksum: text("checksum"), // SHA-256 of the uploaded file (or page text), used to skip duplicates and unchanged pages
+  sourceUrl: text("source_url"), // page address for crawled documents
+  urlSourceId: integer("url_source_id"), // URL source that crawled this page
+  version: integer("version").notNull().default(1), // current version; earlier ones are kept in document_versions
+  uploadedBy: integer("uploaded_by"), // user who uploaded the current version
+  uploadedAt: timestamp("uploaded_at"), // when the current version was uploaded (createdAt for documents from before versioning)
+  // Previous version's vector store file; removed once the new version is indexed so the store never lacks the document
+  supersededFileId: text("superseded_file_id"),
+  // Clinical content review: who answers for the content, when it took effect and when it must be reviewed again
+  reviewOwner: text("review_owner"),
+  effectiveDate: timestamp("effective_date"),
+  reviewByDate: timestamp("review_by_date"),
+  excludeWhenExpired: boolean("exclude_when_expired").notNull().default(false), // leave retrieval once past the review-by date
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  lastReviewedBy: integer("last_reviewed_by"), // user who last re-approved the content
+  excludedAt: timestamp("excluded_at"), // when an expired document was taken out of retrieval; null while searchable
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({
+export const insertDocumentSchema = createInsertSchema(documents, {
+  sections: z.array(documentSectionSchema).optional(),
+  status: z.enum(documentStatuses).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Review details an owner of the document can edit
+export const documentReviewSchema = z.object({
+  reviewOwner: z.string().trim().max(200).nullable().optional(),
+  effectiveDate: z.coerce.date().nullable().optional(),
+  reviewByDate: z.coerce.date().nullable().optional(),
+  excludeWhenExpired: z.boolean().optional(),
+});
+
+// Re-approving a document sets its next review-by date
+export const documentApprovalSchema = z.object({
+  reviewByDate: z.coerce.date().refine(date => date.getTime() > Date.now(), "The next review date must be in the future"),
+  effectiveDate: z.coerce.date().nullable().optional(),
+});
+
+// A document in the content review queue
+export type DocumentReviewItem = {
+  documentId: number;
+  name: string;
+  chatbotId: number | null;
+  collectionId: number | null;
+  // Chatbot or collection the document belongs to
+  knowledgeBaseName: string;
+  reviewOwner: string | null;
+  effectiveDate: string | null;
+  reviewByDate: string | null;
+  lastReviewedAt: string | null;
+  excludeWhenExpired: boolean;
+  excluded: boolean;
+  // "unscheduled": no owner or no review-by date yet
+  reviewStatus: "overdue" | "due" | "unscheduled";
+};
+
+// Earlier version of a document, kept when it is replaced so it can be viewed and restored
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  content: text("content").notNull(),
+  size: integer("size").notNull(),
+  sections: jsonb("sections").$type<DocumentSection[]>().default([]),
+  checksum: text("checksum"),
+  uploadedBy: integer("uploaded_by"),
+  uploadedAt: timestamp("uploaded_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(), // when it was replaced
+}, (table) => [uniqueIndex("IDX_document_versions_document_version").on(table.documentId, table.version)]);
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions, {
+  sections: z.array(documentSectionSchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// A file counted towards a chatbot's knowledge base usage: a vector store file, or a
+// document of a chatbot that retrieves from local chunks
+export type KnowledgeUsageFile = {
+  fileId: string | null;
+  documentId: number | null;
+  // Document name, or null for a vector store file no document references
+  name: string | null;
+  status: string;
+  bytes: number;
+  error: string | null;
+};
+
+// Knowledge base usage of a chatbot against its limits
+export type KnowledgeUsage = {
+  fileCount: number;
+  totalBytes: number;
+  // Documents waiting to be uploaded, which count towards the limits once they are
+  pendingCount: number;
+  pendingBytes: number;
+  fileLimit: number;
+  storageLimitBytes: number;
+  files: KnowledgeUsageFile[];
+  // When the vector store was last listed; usage is cached for a short while
+  checkedAt: string;
+};
+
+// Version of a document as listed in its history
+export type DocumentVersionSummary = {
+  version: number;
+  name: string;
+  type: string;
+  size: number;
+  uploadedAt: string;
+  uploaderName: string | null;
+  // The version the chatbot currently uses
+  current: boolean;
+};
+
+// Retrieval unit of a document for chatbots without a vector store
+export const documentChunks = pgTable("document_chunks", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  // Owner of the document, copied so a chatbot's or collection's chunks load in one query
+  chatbotId: integer("chatbot_id"),
+  collectionId: integer("collection_id"),
+  chunkIndex: integer("chunk_index").notNull(),
+  heading: text("heading"), // nearest section heading or page label
+  content: text("content").notNull(),
+  // Embedding backend that produced the vector; chunks are re-embedded when it changes
+  embeddingModel: text("embedding_model").notNull(),
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_document_chunks_chatbot").on(table.chatbotId),
+  index("IDX_document_chunks_collection").on(table.collectionId),
+]);
+
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks, {
+  embedding: z.array(z.number()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Source reference for a bot answer grounded in an uploaded document
+export const citationSchema = z.object({
+  index: z.number(), // footnote number, starting at 1
+  fileId: z.string(),
+  documentName: z.string(),
+  snippet: z.string().optional(),
+});
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   chatbotId: integer("chatbot_id").notNull(),
   sessionId: text("session_id").notNull(),
   isUser: boolean("is_user").notNull(),
   content: text("content").notNull(),
+  responseId: text("response_id"), // provider response ID, used to chain the next turn
+  citations: jsonb("citations").$type<Citation[]>(),
+  // Usage of the model call that produced a bot message
+  model: text("model"),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  cachedTokens: integer("cached_tokens"),
+  // Signs that a bot message didn't answer from the knowledge base, for the knowledge gap report
+  usedFallback: boolean("used_fallback").notNull().default(false),
+  searchResultCount: integer("search_result_count"), // knowledge base results found; null when no search ran
+  refusal: boolean("refusal").notNull().default(false), // the answer says it can't help
+  faqEntryId: integer("faq_entry_id"), // FAQ entry whose approved answer was sent instead of a generated one
+  behaviorRule: text("behavior_rule"), // name of the behavior rule whose response was sent instead of a generated one
+  flowNode: text("flow_node"), // conversation flow step that produced a bot message
+  payload: jsonb("payload").$type<MessagePayload>(), // quick replies, buttons and cards shown below a bot message
+  quickReply: boolean("quick_reply").notNull().default(false), // a patient message sent by tapping a quick reply
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  citations: z.array(citationSchema).nullable().optional(),
+  payload: messagePayloadSchema.nullable().optional(),
+}).omit({
   id: true,
   timestamp: true,
 });
 
+// Similar patient questions a chatbot couldn't answer, most frequent first in the report
+export type KnowledgeGap = {
+  chatbotId: number;
+  chatbotName: string;
+  // The question most typical of the cluster
+  question: string;
+  count: number;
+  // Distinct wordings asked, most recent first
+  examples: string[];
+  fallbackCount: number;
+  noResultsCount: number;
+  refusalCount: number;
+  lastAskedAt: string;
+};
+
+// Per-conversation state, e.g. the rolling summary of turns dropped from the context window
+export const chatSessions = pgTable("chat_sessions", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  sessionId: text("session_id").notNull(),
+  summary: text("summary"),
+  summarizedThroughMessageId: integer("summarized_through_message_id"), // last message folded into the summary
+  // Set by behavior rule actions
+  handoffAt: timestamp("handoff_at"), // when the conversation was handed off to the care team
+  handoffReason: text("handoff_reason"),
+  endedAt: timestamp("ended_at"), // further messages in an ended conversation are refused
+  // Conversation flow progress: the version being followed, the question awaiting an
+  // answer (null outside a flow) and the answers given so far, keyed by question ID
+  flowVersion: integer("flow_version"),
+  flowNodeId: text("flow_node_id"),
+  flowAnswers: jsonb("flow_answers").$type<Record<string, string>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("IDX_chat_sessions_chatbot_session").on(table.chatbotId, table.sessionId)]);
+
+export const insertChatSessionSchema = createInsertSchema(chatSessions, {
+  flowAnswers: z.record(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Conversation a behavior rule handed off to the care team
+export type HandoffSummary = {
+  chatbotId: number;
+  chatbotName: string;
+  sessionId: string;
+  reason: string | null;
+  // Latest patient message, redacted
+  message: string | null;
+  handoffAt: string;
+};
+
+// Callback requests left by patients through the request_callback tool
+export const callbackRequests = pgTable("callback_requests", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  sessionId: text("session_id").notNull(),
+  name: text("name").notNull(),
+  phone: text("phone").notNull(),
+  preferredTime: text("preferred_time"),
+  reason: text("reason"),
+  status: text("status").notNull().default("pending").$type<"pending" | "completed">(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Website crawled into a chatbot's knowledge base, one document per page
+export const urlSources = pgTable("url_sources", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  url: text("url").notNull(), // start page
+  maxDepth: integer("max_depth").notNull().default(1), // links followed from the start page
+  sameDomain: boolean("same_domain").notNull().default(true),
+  includePatterns: jsonb("include_patterns").$type<string[]>().notNull().default([]), // path globs, e.g. /patients/*
+  excludePatterns: jsonb("exclude_patterns").$type<string[]>().notNull().default([]),
+  recrawlIntervalHours: integer("recrawl_interval_hours"), // null disables scheduled re-crawls
+  status: text("status").$type<"idle" | "crawling" | "failed">().notNull().default("idle"),
+  error: text("error"),
+  pageCount: integer("page_count").notNull().default(0),
+  lastCrawledAt: timestamp("last_crawled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUrlSourceSchema = createInsertSchema(urlSources, {
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  maxDepth: z.number().int().min(0).max(5).optional(),
+  includePatterns: z.array(z.string()).optional(),
+  excludePatterns: z.array(z.string()).optional(),
+  recrawlIntervalHours: z.number().int().min(1).nullable().optional(),
+}).omit({
+  id: true,
+  status: true,
+  error: true,
+  pageCount: true,
+  lastCrawledAt: true,
+  createdAt: true,
+});
+
+// Named set of documents shared by several chatbots; each attached chatbot searches it
+// alongside its own documents, so a document is uploaded and updated in one place
+export const knowledgeCollections = pgTable("knowledge_collections", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  vectorStoreId: text("vector_store_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const chatbotCollections = pgTable("chatbot_collections", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  collectionId: integer("collection_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("IDX_chatbot_collections_chatbot_collection").on(table.chatbotId, table.collectionId)]);
+
+export const insertKnowledgeCollectionSchema = createInsertSchema(knowledgeCollections, {
+  name: z.string().trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  vectorStoreId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A collection as listed for its owner, with the chatbots it is attached to
+export type KnowledgeCollectionSummary = KnowledgeCollection & {
+  documentCount: number;
+  chatbotIds: number[];
+};
+
+// Approved answer sent word for word when a message matches one of the question variants
+export const faqEntries = pgTable("faq_entries", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  questions: jsonb("questions").$type<string[]>().notNull().default([]), // variants of the same question
+  answer: text("answer").notNull(),
+  links: jsonb("links").$type<FaqLink[]>().notNull().default([]), // listed below the answer
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFaqEntrySchema = createInsertSchema(faqEntries, {
+  questions: z.array(z.string().trim().min(1)).min(1, "Add at least one question"),
+  answer: z.string().trim().min(1, "Answer is required"),
+  links: z.array(faqLinkSchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// An FAQ entry as listed for editing, with how often its answer was sent
+export type FaqEntrySummary = FaqEntry & {
+  hitCount: number;
+  lastHitAt: string | null;
+};
+
+// Outcome of a CSV import; rows are numbered as in the file, header included
+export type FaqImportResult = {
+  created: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+};
+
+// Guided conversation flows: scripted questions and answers that run instead of
+// free-form chat, e.g. a pre-op checklist or an emergency triage. Nodes link to the
+// node that follows by ID; a missing `next` ends the flow.
+export const flowNodeTypes = ["message", "question", "branch", "llm", "handoff"] as const;
+
+// - choice / yes_no: one of the listed choices, each leading to its own node
+// - number: a number, optionally within min and max
+// - text: any answer
+export const flowAnswerTypes = ["choice", "yes_no", "number", "text"] as const;
+
+const flowNodeIdSchema = z.string().trim().min(1);
+const flowNextSchema = z.string().nullable().default(null);
+
+export const flowChoiceSchema = z.object({
+  label: z.string().trim().min(1, "Choice label is required"),
+  next: flowNextSchema,
+});
+
+// Compares the answer given to an earlier question
+export const flowConditionSchema = z.object({
+  questionId: z.string(),
+  operator: z.enum(["equals", "not_equals", "contains", "greater_than", "less_than"]),
+  value: z.string(),
+  next: flowNextSchema,
+});
+
+export const flowNodeSchema = z.discriminatedUnion("type", [
+  // Sends text and moves straight on
+  z.object({
+    type: z.literal("message"),
+    id: flowNodeIdSchema,
+    text: z.string().trim().min(1, "Message text is required"),
+    buttons: z.array(messageButtonSchema).default([]),
+    next: flowNextSchema,
+  }),
+  // Asks and waits for the patient's answer; `next` is used by number and text answers
+  z.object({
+    type: z.literal("question"),
+    id: flowNodeIdSchema,
+    text: z.string().trim().min(1, "Question text is required"),
+    answerType: z.enum(flowAnswerTypes),
+    choices: z.array(flowChoiceSchema).default([]),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    next: flowNextSchema,
+  }),
+  // Picks the next node from earlier answers: the first condition that holds, else `defaultNext`
+  z.object({ type: z.literal("branch"), id: flowNodeIdSchema, conditions: z.array(flowConditionSchema).default([]), defaultNext: flowNextSchema }),
+  // Leaves the flow; the assistant answers freely from here
+  z.object({ type: z.literal("llm"), id: flowNodeIdSchema }),
+  // Sends text, flags the conversation for the care team and leaves the flow
+  z.object({
+    type: z.literal("handoff"),
+    id: flowNodeIdSchema,
+    text: z.string().default(""),
+    reason: z.string().default(""),
+    buttons: z.array(messageButtonSchema).default([]), // e.g. a button to call the clinic
+  }),
+]);
+
+export const conversationFlowSchema = z.object({
+  enabled: z.boolean().default(true),
+  // The flow starts on the patient's first message, or on any message containing a start keyword
+  startOnFirstMessage: z.boolean().default(false),
+  startKeywords: z.array(z.string().trim().min(1)).default([]),
+  startNodeId: z.string(),
+  nodes: z.array(flowNodeSchema).min(1, "Add at least one step").max(200),
+}).superRefine((flow, ctx) => {
+  const ids = new Set<string>();
+  flow.nodes.forEach((node, index) => {
+    if (ids.has(node.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes", index, "id"], message: `Duplicate step ID "${node.id}"` });
+    }
+    ids.add(node.id);
+  });
+  const questionIds = new Set(flow.nodes.filter(node => node.type === "question").map(node => node.id));
+
+  const checkTarget = (target: string | null, path: (string | number)[]) => {
+    if (target !== null && !ids.has(target)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown step "${target}"` });
+    }
+  };
+  checkTarget(flow.startNodeId, ["startNodeId"]);
+  flow.nodes.forEach((node, index) => {
+    switch (node.type) {
+      case "message":
+        checkTarget(node.next, ["nodes", index, "next"]);
+        break;
+      case "question":
+        checkTarget(node.next, ["nodes", index, "next"]);
+        node.choices.forEach((choice, i) => checkTarget(choice.next, ["nodes", index, "choices", i, "next"]));
+        if ((node.answerType === "choice" || node.answerType === "yes_no") && node.choices.length < 2) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes", index, "choices"], message: "A choice question needs at least two choices" });
+        }
+        break;
+      case "branch":
+        checkTarget(node.defaultNext, ["nodes", index, "defaultNext"]);
+        node.conditions.forEach((condition, i) => {
+          checkTarget(condition.next, ["nodes", index, "conditions", i, "next"]);
+          if (!questionIds.has(condition.questionId)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes", index, "conditions", i, "questionId"], message: "Conditions must refer to a question" });
+          }
+        });
+        break;
+    }
+  });
+});
+
+// Every saved flow is kept as a version; the newest is live and conversations
+// finish on the version they started with
+export const conversationFlows = pgTable("conversation_flows", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  version: integer("version").notNull(),
+  definition: jsonb("definition").$type<ConversationFlowDefinition>().notNull(),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("IDX_conversation_flows_chatbot_version").on(table.chatbotId, table.version)]);
+
+// Version of a chatbot's flow as listed in its history
+export type ConversationFlowVersionSummary = {
+  version: number;
+  stepCount: number;
+  createdAt: string;
+  creatorName: string | null;
+  current: boolean;
+};
+
+export const insertCallbackRequestSchema = createInsertSchema(callbackRequests).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertChatbot = z.infer<typeof insertChatbotSchema>;
 export type Chatbot = typeof chatbots.$inferSelect;
+export type DocumentSection = z.infer<typeof documentSectionSchema>;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
+export type ChatSession = typeof chatSessions.$inferSelect;
+export type InsertUrlSource = z.infer<typeof insertUrlSourceSchema>;
+export type UrlSource = typeof urlSources.$inferSelect;
+export type InsertKnowledgeCollection = z.infer<typeof insertKnowledgeCollectionSchema>;
+export type KnowledgeCollection = typeof knowledgeCollections.$inferSelect;
+export type ChatbotCollection = typeof chatbotCollections.$inferSelect;
+export type FaqLink = z.infer<typeof faqLinkSchema>;
+export type MessageButton = z.infer<typeof messageButtonSchema>;
+export type MessageCard = z.infer<typeof messageCardSchema>;
+export type MessagePayload = z.infer<typeof messagePayloadSchema>;
+export type FlowNode = z.infer<typeof flowNodeSchema>;
+export type FlowNodeType = typeof flowNodeTypes[number];
+export type FlowAnswerType = typeof flowAnswerTypes[number];
+export type FlowChoice = z.infer<typeof flowChoiceSchema>;
+export type FlowCondition = z.infer<typeof flowConditionSchema>;
+export type ConversationFlowDefinition = z.infer<typeof conversationFlowSchema>;
+export type ConversationFlow = typeof conversationFlows.$inferSelect;
+export type InsertFaqEntry = z.infer<typeof insertFaqEntrySchema>;
+export type FaqEntry = typeof faqEntries.$inferSelect;
+export type InsertCallbackRequest = z.infer<typeof insertCallbackRequestSchema>;
+export type CallbackRequest = typeof callbackRequests.$inferSelect;
 
 // Extended schemas with validation
 export const loginSchema = insertUserSchema;
@@ -125,26 +864,86 @@ export const insertCommonMessageSchema = createInsertSchema(commonMessages).omit
   updatedAt: true,
 });
 
-export const behaviorRuleSchema = z.object({
-  condition: z.string(),
-  response: z.string(),
-});
-
 export const openaiModels = pgTable("openai_models", {
   id: text("id").primaryKey(), // e.g. "gpt-4o-mini"
   created: integer("created"),
   ownedBy: text("owned_by"),
   object: text("object"),
   isChat: boolean("is_chat").default(false),
+  contextWindow: integer("context_window"), // max input + output tokens, when known
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertOpenaiModelSchema = createInsertSchema(openaiModels);
 
+// USD prices per million tokens for each cached model (keyed by openai_models.id)
+export const modelPricing = pgTable("model_pricing", {
+  modelId: text("model_id").primaryKey(),
+  inputPerMillion: doublePrecision("input_per_million").notNull(),
+  cachedInputPerMillion: doublePrecision("cached_input_per_million"), // null when the model has no cache discount
+  outputPerMillion: doublePrecision("output_per_million").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertModelPricingSchema = createInsertSchema(modelPricing);
+
+// Raised once per chatbot and month when its spend passes the monthly budget
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id").notNull(),
+  period: text("period").notNull(), // "YYYY-MM"
+  spentUsd: doublePrecision("spent_usd").notNull(),
+  budgetUsd: doublePrecision("budget_usd").notNull(),
+  acknowledged: boolean("acknowledged").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("IDX_budget_alerts_chatbot_period").on(table.chatbotId, table.period)]);
+
+export const insertBudgetAlertSchema = createInsertSchema(budgetAlerts).omit({
+  id: true,
+  acknowledged: true,
+  createdAt: true,
+});
+
+export const usagePurposes = ["summary", "embedding"] as const;
+
+// Model calls made for a chatbot outside its chat answers, e.g. conversation summaries
+// and embeddings; counted with the usage on messages in costs and budgets
+export const modelUsage = pgTable("model_usage", {
+  id: serial("id").primaryKey(),
+  chatbotId: integer("chatbot_id"), // null for shared collections
+  purpose: text("purpose").$type<UsagePurpose>().notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  cachedTokens: integer("cached_tokens").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_model_usage_chatbot_created").on(table.chatbotId, table.createdAt)]);
+
+export const insertModelUsageSchema = createInsertSchema(modelUsage, {
+  purpose: z.enum(usagePurposes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type BehaviorRule = z.infer<typeof behaviorRuleSchema>;
+export type RuleMatchType = typeof ruleMatchTypes[number];
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+export type RuleSessionCondition = z.infer<typeof ruleSessionConditionSchema>;
+export type BehaviorRuleTest = z.infer<typeof behaviorRuleTestSchema>;
+export type ClinicLocation = z.infer<typeof clinicLocationSchema>;
+export type ChatbotTool = z.infer<typeof chatbotToolSchema>;
+export type Citation = z.infer<typeof citationSchema>;
 export type InsertUserChatbotAssignment = z.infer<typeof insertUserChatbotAssignmentSchema>;
 export type UserChatbotAssignment = typeof userChatbotAssignments.$inferSelect;
 export type InsertCommonMessage = z.infer<typeof insertCommonMessageSchema>;
 export type CommonMessage = typeof commonMessages.$inferSelect;
 export type InsertOpenaiModel = z.infer<typeof insertOpenaiModelSchema>;
 export type OpenaiModel = typeof openaiModels.$inferSelect;
+export type InsertModelPricing = z.infer<typeof insertModelPricingSchema>;
+export type ModelPricing = typeof modelPricing.$inferSelect;
+export type InsertBudgetAlert = z.infer<typeof insertBudgetAlertSchema>;
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type UsagePurpose = typeof usagePurposes[number];
+export type InsertModelUsage = z.infer<typeof insertModelUsageSchema>;
+export type ModelUsage = typeof modelUsage.$inferSelect;